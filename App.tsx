@@ -22,30 +22,105 @@ import {
   Cloud,
   LogOut,
   User as UserIcon,
-  RefreshCw
+  RefreshCw,
+  Pencil,
+  Trash2,
+  Pause,
+  Play,
+  ArrowRightLeft,
+  Upload,
+  Download,
+  DatabaseBackup,
+  CloudOff,
+  CircleAlert,
+  KeyRound,
+  HardDrive,
+  ChartPie,
+  ArrowUp,
+  ArrowDown,
+  Tags,
+  Shapes,
+  Landmark
 } from 'lucide-react';
 import { 
   Account, 
   Transaction, 
   Currency, 
   AccountType, 
-  EXCHANGE_RATES, 
   TransactionType,
   RecurringRule,
   TransactionStatus,
-  User
+  ExchangeRate,
+  Budget,
+  NetWorthSnapshot,
+  User,
+  CategoryDefinition,
+  CreditTerms,
+  LoanTerms,
+  HoldingSnapshot
 } from './types';
 import { Card } from './components/ui/Card';
 import { Logo } from './components/ui/Logo';
 import { TransactionForm } from './components/TransactionForm';
 import { InvestmentChat } from './components/InvestmentChat';
 import { AuthScreen } from './components/AuthScreen';
+import { ChangePasswordForm } from './components/ChangePasswordForm';
+import { RecurringRuleForm } from './components/RecurringRuleForm';
+import { ExchangeRateManager } from './components/ExchangeRateManager';
+import { ImportWizard } from './components/ImportWizard';
+import { ExportDialog } from './components/ExportDialog';
+import { BackupManager } from './components/BackupManager';
+import { BudgetManager } from './components/BudgetManager';
+import { ReportsView } from './components/ReportsView';
+import { TransactionFilterBar } from './components/TransactionFilterBar';
+import { TagManager } from './components/TagManager';
+import { CategoryManager } from './components/CategoryManager';
+import { CreditStatements, STATUS_STYLES } from './components/CreditStatements';
+import { LoanDetails } from './components/LoanDetails';
+import { HoldingHistory } from './components/HoldingHistory';
 import { getFinancialAdvice } from './services/geminiService';
+import { buildLedger, postTransaction, withPostedAmount } from './services/ledgerService';
+import { getActiveAmortizations } from './services/amortizationService';
+import { BUDGET_WARNING_RATIO, getBudgetProgress } from './services/budgetService';
+import { captureNetWorthSnapshot, getNetWorthDeltas, rebuildNetWorthHistory } from './services/netWorthService';
+import { replaceTags, retagTransactions } from './services/tagService';
+import { createCategoryRollup, ensureCategory, getCategoryLabel, getDefaultCategories, isCategoryType, mergeCategoryDefinitions, recategorize, recategorizeTransactions } from './services/categoryService';
+import { getTransactionCategories, getTransactionTags, isSplit } from './services/splitService';
+import { CreditStatement, getCreditReminders, getCreditSummary, getStatementRemaining } from './services/creditService';
+import { getLoanSummary, hasLoanTerms } from './services/loanService';
+import { getPortfolioSummary } from './services/investmentService';
+import { recordHoldingSnapshot } from './services/holdingHistoryService';
+import { toDateKey } from './services/exchangeRateService';
+import { DEFAULT_SORT, EMPTY_FILTER, FilterPreset, SortKey, TransactionFilter, TransactionSort, getFilteredTotals, queryTransactions } from './services/transactionFilterService';
+import { ImportPreset } from './services/importService';
+import { alignNextDueDate, createRecurringTransaction, getNextDueDate, runRecurringRules } from './services/recurringService';
+import { DataCipher, PersistedData, applyChangeSet, diffPersistedData, isEmptyChangeSet } from './services/storageService';
+import { Repository, openRepository } from './services/repositoryService';
+import { Session, authProvider, clearSession, isSessionExpired, loadSession, saveSession } from './services/authService';
+import { createCipher, isDataEncrypted, markDataEncrypted, prepareKeyRotation, unlockDataKey } from './services/encryptionService';
+import {
+  SYNC_URL,
+  SyncState,
+  SyncStatus,
+  createHttpTransport,
+  isOfflineError,
+  loadSyncState,
+  queueChanges,
+  saveSyncState,
+  syncNow
+} from './services/syncService';
 import { TRANSLATIONS, Language } from './translations';
 
 // --- Helper Functions ---
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
+const SAVE_DELAY_MS = 800;
+const SYNC_INTERVAL_MS = 60 * 1000;
+const SYNC_RETRY_MS = 5 * 1000; // Changes still pending after a sync (e.g. repeated conflicts) are retried soon
+
+// Example rule seeded once for new users; they can remove it
+const DEFAULT_RULE_ID = 'rec_1';
+
 const INITIAL_ACCOUNTS: Account[] = [
   { id: '1', name: 'Wallet', type: AccountType.SAVINGS, currency: Currency.CNY, balance: 500, color: '#10B981' },
   { 
@@ -61,48 +136,91 @@ const INITIAL_ACCOUNTS: Account[] = [
           { name: 'Gold ETF', amount: 10200, dailyChange: -50 }
       ]
   },
-  { id: '3', name: 'Huabei', type: AccountType.CREDIT, currency: Currency.CNY, balance: -1200, color: '#F59E0B' }, 
+  { id: '3', name: 'Huabei', type: AccountType.CREDIT, currency: Currency.CNY, balance: -1200, color: '#F59E0B', credit: { limit: 10000, closingDay: 1, dueDay: 10, since: toDateKey(new Date()) } }, 
   { id: '4', name: 'Chase Checking', type: AccountType.SAVINGS, currency: Currency.USD, balance: 2000, color: '#3B82F6' },
 ];
 
-function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
+const DEFAULT_DATA: PersistedData = {
+  accounts: INITIAL_ACCOUNTS,
+  transactions: [],
+  recurringRules: [],
+  exchangeRates: [],
+  importPresets: [],
+  budgets: [],
+  netWorthSnapshots: [],
+  holdingSnapshots: [],
+  filterPresets: [],
+  categories: getDefaultCategories(),
+  baseCurrency: Currency.CNY,
+  language: 'zh'
+};
+
+interface DashboardProps {
+  user: User;
+  onLogout: () => void;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  repository: Repository;
+  stored: Partial<PersistedData>; // Migrated data as loaded; absent keys were never saved
+  cipher: DataCipher;
+  storedSyncState: SyncState;
+}
+
+function Dashboard({ user, onLogout, onChangePassword, repository, stored, cipher, storedSyncState }: DashboardProps) {
   // --- State with User-Scoped Persistence ---
-  
-  // Helper to generate scoped keys
-  const getStorageKey = (key: string) => `lt_${user.id}_${key}`;
-
-  const [accounts, setAccounts] = useState<Account[]>(() => {
-      const saved = localStorage.getItem(getStorageKey('accounts'));
-      return saved ? JSON.parse(saved) : INITIAL_ACCOUNTS;
-  });
-
-  const [transactions, setTransactions] = useState<Transaction[]>(() => {
-      const saved = localStorage.getItem(getStorageKey('transactions'));
-      return saved ? JSON.parse(saved) : [];
-  });
-
-  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>(() => {
-      const saved = localStorage.getItem(getStorageKey('recurringRules'));
-      return saved ? JSON.parse(saved) : [];
-  });
-
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'accounts' | 'transactions' | 'advice'>('dashboard');
-  const [baseCurrency, setBaseCurrency] = useState<Currency>(() => {
-      return (localStorage.getItem(getStorageKey('baseCurrency')) as Currency) || Currency.CNY;
-  });
+
+  const [initialData] = useState<PersistedData>(() => ({ ...DEFAULT_DATA, ...stored }));
+
+  const [accounts, setAccounts] = useState<Account[]>(initialData.accounts);
+  const [transactions, setTransactions] = useState<Transaction[]>(initialData.transactions);
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>(initialData.recurringRules);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>(initialData.exchangeRates);
+  const [importPresets, setImportPresets] = useState<ImportPreset[]>(initialData.importPresets);
+  const [budgets, setBudgets] = useState<Budget[]>(initialData.budgets);
+  const [netWorthSnapshots, setNetWorthSnapshots] = useState<NetWorthSnapshot[]>(initialData.netWorthSnapshots);
+  const [holdingSnapshots, setHoldingSnapshots] = useState<HoldingSnapshot[]>(initialData.holdingSnapshots);
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>(initialData.filterPresets);
+  const [categories, setCategories] = useState<CategoryDefinition[]>(initialData.categories);
+
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'accounts' | 'transactions' | 'reports' | 'advice'>('dashboard');
+  const [baseCurrency, setBaseCurrency] = useState<Currency>(initialData.baseCurrency);
   
   // Sync State
-  const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'synced'>('idle');
+  const syncState = useRef<SyncState>(storedSyncState);
+  const isSyncing = useRef(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(SYNC_URL ? 'pending' : 'local');
+  const [pendingCount, setPendingCount] = useState(syncState.current.pending.length);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | undefined>(syncState.current.lastSyncedAt);
+  // Recurring rules wait for the first pull, so occurrences another device already created are not posted again
+  const [hasPulled, setHasPulled] = useState(!SYNC_URL);
   
   // Modals
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [transactionTemplate, setTransactionTemplate] = useState<Partial<Transaction> | undefined>(undefined);
   const [isAccountModalOpen, setIsAccountModalOpen] = useState(false);
+  const [isRuleFormOpen, setIsRuleFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RecurringRule | null>(null);
+  const [isRateManagerOpen, setIsRateManagerOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const [isBudgetManagerOpen, setIsBudgetManagerOpen] = useState(false);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const [creditAccountId, setCreditAccountId] = useState<string | null>(null);
+  const [loanAccountId, setLoanAccountId] = useState<string | null>(null);
+  const [historyAccountId, setHistoryAccountId] = useState<string | null>(null);
   
+  // Transactions query bar
+  const [transactionFilter, setTransactionFilter] = useState<TransactionFilter>(EMPTY_FILTER);
+  const [transactionSort, setTransactionSort] = useState<TransactionSort>(DEFAULT_SORT);
+
   // Navigation State
   const [selectedInvestmentAccount, setSelectedInvestmentAccount] = useState<Account | null>(null);
   const [selectedGroupKey, setSelectedGroupKey] = useState<string | null>(null);
 
-  const [language, setLanguage] = useState<Language>('zh'); 
+  const [language, setLanguage] = useState<Language>(initialData.language);
   
   // Advice State
   const [advice, setAdvice] = useState<string>('');
@@ -112,55 +230,157 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
   const t = TRANSLATIONS[language];
 
   // --- Persistence & Sync Effects ---
-  const firstRender = useRef(true);
+  const persistedData: PersistedData = useMemo(
+    () => ({ accounts, transactions, recurringRules, exchangeRates, importPresets, budgets, netWorthSnapshots, filterPresets, categories, holdingSnapshots, baseCurrency, language }),
+    [accounts, transactions, recurringRules, exchangeRates, importPresets, budgets, netWorthSnapshots, filterPresets, categories, holdingSnapshots, baseCurrency, language]
+  );
+
+  // Last snapshot handed to the repository; only the difference is written
+  const savedData = useRef<PersistedData>(initialData);
+  // Includes edits still waiting for the save timeout
+  const latestData = useRef<PersistedData>(persistedData);
+  latestData.current = persistedData;
 
   useEffect(() => {
-    if (firstRender.current) {
-        firstRender.current = false;
+    if (isEmptyChangeSet(diffPersistedData(savedData.current, persistedData))) return;
+
+    // Batch rapid edits into one write
+    const timeout = setTimeout(() => {
+        const previous = savedData.current;
+        const changes = diffPersistedData(previous, persistedData);
+        savedData.current = persistedData;
+        repository.applyChanges(changes)
+            .then(() => {
+                // Edits saved mid-sync are queued by runSync once it finishes
+                if (!SYNC_URL || isSyncing.current) return;
+                syncState.current = queueChanges(syncState.current, changes, previous);
+                saveSyncState(user.id, syncState.current, cipher);
+                setPendingCount(syncState.current.pending.length);
+                runSync();
+            })
+            .catch(error => {
+                console.error("Save Error:", error);
+                setSyncStatus('error');
+            });
+    }, SAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [persistedData, repository]);
+
+  // Pull and push with the sync server; remote changes are written locally and applied to state
+  const runSync = async () => {
+    if (!SYNC_URL || isSyncing.current) return;
+    if (!navigator.onLine) {
+        setSyncStatus('offline');
         return;
     }
+    isSyncing.current = true;
     setSyncStatus('syncing');
-    
-    // Simulate Network Delay
-    const timeout = setTimeout(() => {
-        localStorage.setItem(getStorageKey('accounts'), JSON.stringify(accounts));
-        localStorage.setItem(getStorageKey('transactions'), JSON.stringify(transactions));
-        localStorage.setItem(getStorageKey('recurringRules'), JSON.stringify(recurringRules));
-        localStorage.setItem(getStorageKey('baseCurrency'), baseCurrency);
-        setSyncStatus('synced');
-        
-        // Reset to idle after a bit
-        setTimeout(() => setSyncStatus('idle'), 2000);
-    }, 800);
 
-    return () => clearTimeout(timeout);
-  }, [accounts, transactions, recurringRules, baseCurrency, user.id]);
+    const before = savedData.current;
+    let shouldRetry = false;
+    try {
+        const result = await syncNow(syncState.current, before, createHttpTransport(SYNC_URL, user.id));
+        const remote = diffPersistedData(before, result.data);
+        let state = result.state;
+        if (!isEmptyChangeSet(remote)) {
+            savedData.current = applyChangeSet(savedData.current, remote) as PersistedData;
+            await repository.applyChanges(remote);
+            replaceData(applyChangeSet(latestData.current, remote) as PersistedData);
+        }
+        // Local edits saved while the request was in flight
+        const editsDuringSync = diffPersistedData(result.data, savedData.current);
+        if (!isEmptyChangeSet(editsDuringSync)) state = queueChanges(state, editsDuringSync, result.data);
+
+        syncState.current = state;
+        saveSyncState(user.id, state, cipher);
+        setLastSyncedAt(state.lastSyncedAt);
+        setHasPulled(true);
+        setSyncStatus(state.pending.length ? 'pending' : 'synced');
+        shouldRetry = state.pending.length > 0;
+    } catch (error) {
+        console.error("Sync Error:", error);
+        setSyncStatus(isOfflineError(error) ? 'offline' : 'error');
+    }
+    setPendingCount(syncState.current.pending.length);
+    isSyncing.current = false;
+    if (shouldRetry) setTimeout(runSync, SYNC_RETRY_MS);
+  };
+
+  useEffect(() => {
+    if (!SYNC_URL) return;
+    runSync();
+    const interval = setInterval(runSync, SYNC_INTERVAL_MS);
+    const handleOffline = () => setSyncStatus('offline');
+    window.addEventListener('online', runSync);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+        clearInterval(interval);
+        window.removeEventListener('online', runSync);
+        window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
 
 
   // --- Derived State & Calculations ---
 
-  const totalNetWorth = useMemo(() => {
-    return accounts.reduce((acc, account) => {
-      const val = account.balance * (EXCHANGE_RATES[account.currency] / EXCHANGE_RATES[baseCurrency]); 
-      return acc + val;
-    }, 0);
-  }, [accounts, baseCurrency]);
-
-  const pendingIncome = useMemo(() => {
-    return transactions
-      .filter(t => t.type === TransactionType.INCOME && t.status === TransactionStatus.PENDING)
-      .reduce((acc, t) => acc + (t.amount * (EXCHANGE_RATES[baseCurrency] / EXCHANGE_RATES[t.currency])), 0);
-  }, [transactions, baseCurrency]);
-
-  const monthlyExpenses = useMemo(() => {
-    const now = new Date();
-    return transactions
-      .filter(t => {
-        const d = new Date(t.date);
-        return t.type === TransactionType.EXPENSE && d.getMonth() === now.getMonth() && d.getFullYear() === now.getFullYear();
-      })
-      .reduce((acc, t) => acc + (t.amount * (EXCHANGE_RATES[baseCurrency] / EXCHANGE_RATES[t.currency])), 0);
-  }, [transactions, baseCurrency]);
+  const { netWorth: totalNetWorth, pendingIncome, monthlyExpenses, categoryBreakdown, unamortizedBalance, fxGainLoss, accountGroups } = useMemo(
+    () => buildLedger(accounts, transactions, baseCurrency, exchangeRates),
+    [accounts, transactions, baseCurrency, exchangeRates]
+  );
+
+  const activeAmortizations = useMemo(() => getActiveAmortizations(transactions), [transactions]);
+
+  const netWorthHistory = useMemo(
+    () => rebuildNetWorthHistory(netWorthSnapshots, accounts, transactions, exchangeRates),
+    [netWorthSnapshots, accounts, transactions, exchangeRates]
+  );
+
+  const netWorthDeltas = useMemo(
+    () => getNetWorthDeltas(netWorthHistory, baseCurrency, exchangeRates),
+    [netWorthHistory, baseCurrency, exchangeRates]
+  );
+
+  const budgetProgress = useMemo(
+    () => getBudgetProgress(budgets, transactions, baseCurrency, exchangeRates, new Date(), categories),
+    [budgets, transactions, baseCurrency, exchangeRates, categories]
+  );
+
+  const expenseCategories = useMemo(
+    () => categories.filter(c => c.type === TransactionType.EXPENSE && !c.archived).map(c => c.name),
+    [categories]
+  );
+
+  // Subcategories count toward their parent on the dashboard
+  const rolledUpBreakdown = useMemo(() => {
+    const rollup = createCategoryRollup(categories);
+    const totals = new Map<string, number>();
+    categoryBreakdown.forEach(c => totals.set(rollup(c.category), (totals.get(rollup(c.category)) || 0) + c.amount));
+    return Array.from(totals, ([category, amount]) => ({ category, amount })).sort((a, b) => b.amount - a.amount);
+  }, [categoryBreakdown, categories]);
+
+  const categoryLabel = (name: string, type?: TransactionType) =>
+    getCategoryLabel(categories, name, language, type && isCategoryType(type) ? type : undefined);
+  const categoryIcon = (name: string, type: TransactionType) =>
+    categories.find(c => c.name === name && c.type === type)?.icon;
+
+  const filteredTransactions = useMemo(
+    () => queryTransactions(transactions, accounts, transactionFilter, transactionSort, baseCurrency, exchangeRates),
+    [transactions, accounts, transactionFilter, transactionSort, baseCurrency, exchangeRates]
+  );
+
+  const filteredTotals = useMemo(
+    () => getFilteredTotals(filteredTransactions, baseCurrency, exchangeRates),
+    [filteredTransactions, baseCurrency, exchangeRates]
+  );
+
+  const usedCategories = useMemo(() => Array.from(new Set(transactions.flatMap(getTransactionCategories))).sort(), [transactions]);
+  // Most used first, for the filter chips and the form's autocomplete
+  const usedTags = useMemo(() => {
+    const counts = new Map<string, number>();
+    transactions.forEach(tx => getTransactionTags(tx).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+  }, [transactions]);
 
   const shouldShowAdviceReminder = useMemo(() => {
     if (!lastAdviceDate) return true;
@@ -168,72 +388,176 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
     return diff > 7 * 24 * 60 * 60 * 1000; 
   }, [lastAdviceDate]);
 
+  const creditAccount = accounts.find(a => a.id === creditAccountId);
+  const loanAccount = accounts.find(a => a.id === loanAccountId);
+  const historyAccount = accounts.find(a => a.id === historyAccountId);
+
+  const creditReminders = useMemo(
+    () => getCreditReminders(accounts, transactions, exchangeRates),
+    [accounts, transactions, exchangeRates]
+  );
+
   const needsInvestmentCheckIn = useMemo(() => {
       const today = new Date().toISOString().split('T')[0];
       return accounts.some(a => a.type === AccountType.INVESTMENT && (!a.lastCheckIn || !a.lastCheckIn.startsWith(today)));
   }, [accounts]);
 
-  // Grouping Logic
-  const accountGroups = useMemo(() => {
-      const groups: Record<string, { type: AccountType; currency: Currency; balance: number; count: number; ids: string[] }> = {};
-      
-      accounts.forEach(acc => {
-          const key = `${acc.currency}-${acc.type}`;
-          if (!groups[key]) {
-              groups[key] = { type: acc.type, currency: acc.currency, balance: 0, count: 0, ids: [] };
-          }
-          groups[key].balance += acc.balance;
-          groups[key].count += 1;
-          groups[key].ids.push(acc.id);
-      });
-      
-      return Object.entries(groups).map(([key, data]) => ({ key, ...data }));
-  }, [accounts]);
-
   // --- Handlers ---
 
-  const handleAddTransaction = (data: Transaction) => {
-    const newTx = { ...data, id: generateId() };
-    setTransactions([newTx, ...transactions]);
+  // Manual entries and statement imports go through the same ledger posting
+  const addTransactions = (list: Omit<Transaction, 'id'>[]) => {
+    const newTxs: Transaction[] = list.map(data => withPostedAmount({ ...data, id: generateId() }, accounts, exchangeRates));
+    setCategories(newTxs.reduce((acc, tx) => getTransactionCategories(tx).reduce((list, name) => ensureCategory(list, name, tx.type), acc), categories));
+    setTransactions([...newTxs, ...transactions].sort((a, b) => b.date.localeCompare(a.date)));
+    setAccounts(newTxs.reduce((acc, tx) => postTransaction(acc, tx, 1, exchangeRates), accounts));
+  };
 
-    if (newTx.status === TransactionStatus.COMPLETED) {
-       updateAccountBalance(newTx);
+  const handleAddTransaction = (data: Transaction) => addTransactions([data]);
+
+  // Replaces all state, e.g. with a restored backup or after remote changes were merged
+  const replaceData = (data: PersistedData) => {
+    setAccounts(data.accounts);
+    setTransactions([...data.transactions].sort((a, b) => b.date.localeCompare(a.date)));
+    setRecurringRules(data.recurringRules);
+    setExchangeRates(data.exchangeRates);
+    setImportPresets(data.importPresets);
+    setBudgets(data.budgets);
+    setNetWorthSnapshots(data.netWorthSnapshots);
+    setFilterPresets(data.filterPresets);
+    setCategories(data.categories);
+    setHoldingSnapshots(data.holdingSnapshots);
+    setBaseCurrency(data.baseCurrency);
+    setLanguage(data.language);
+  };
+
+  const handleSaveImportPreset = (preset: ImportPreset) => {
+    setImportPresets([...importPresets.filter(p => p.name !== preset.name), preset]);
+  };
+
+  // Reverses the original posting and applies the edited one
+  const handleUpdateTransaction = (data: Transaction) => {
+    if (!editingTransaction) return;
+    const original = transactions.find(t => t.id === editingTransaction.id) || editingTransaction;
+    const updatedTx: Transaction = withPostedAmount({ ...original, ...data, id: original.id }, accounts, exchangeRates);
+    setTransactions(transactions.map(t => t.id === original.id ? updatedTx : t));
+    setAccounts(postTransaction(postTransaction(accounts, original, -1, exchangeRates), updatedTx, 1, exchangeRates));
+    setCategories(getTransactionCategories(updatedTx).reduce((list, name) => ensureCategory(list, name, updatedTx.type), categories));
+  };
+
+  // Tags carry no amounts, so balances are untouched; saved filters follow the rename
+  const handleRetag = (from: string[], to: string | null) => {
+    setTransactions(retagTransactions(transactions, from, to));
+    setFilterPresets(filterPresets.map(p => {
+      const tags = replaceTags(p.filter.tags, from, to);
+      return tags === p.filter.tags ? p : { ...p, filter: { ...p.filter, tags } };
+    }));
+    setTransactionFilter({ ...transactionFilter, tags: replaceTags(transactionFilter.tags, from, to) });
+  };
+
+  // Records store the category name, so a rename rewrites every record using it
+  const handleSaveCategory = (category: CategoryDefinition) => {
+    const original = categories.find(c => c.id === category.id);
+    if (original && original.name !== category.name) {
+      moveCategory(original.name, category.name, category.type);
     }
+    setCategories(original ? categories.map(c => c.id === category.id ? category : c) : [...categories, category]);
   };
 
-  const updateAccountBalance = (tx: Transaction) => {
-    const updatedAccounts = accounts.map(acc => {
-      if (acc.id === tx.accountId) {
-        let change = 0;
-        if (tx.type === TransactionType.EXPENSE) change = -tx.amount;
-        if (tx.type === TransactionType.INCOME) change = tx.amount;
-        if (tx.type === TransactionType.TRANSFER) change = -tx.amount;
-        return { ...acc, balance: acc.balance + change };
-      }
-      if (tx.type === TransactionType.TRANSFER && acc.id === tx.toAccountId) {
-        const fromCurrency = tx.currency;
-        const toCurrency = acc.currency;
-        const rate = EXCHANGE_RATES[toCurrency] / EXCHANGE_RATES[fromCurrency]; 
-        return { ...acc, balance: acc.balance + (tx.amount * rate) };
-      }
-      return acc;
+  // Moves everything to the target; its budget wins if both categories had one
+  const handleMergeCategory = (sourceId: string, targetId: string) => {
+    const source = categories.find(c => c.id === sourceId);
+    const target = categories.find(c => c.id === targetId);
+    if (!source || !target) return;
+    moveCategory(source.name, target.name, source.type, budgets.some(b => b.category === target.name));
+    setCategories(mergeCategoryDefinitions(categories, sourceId, targetId));
+  };
+
+  const moveCategory = (from: string, to: string, type: CategoryDefinition['type'], dropSourceBudget = false) => {
+    setTransactions(recategorizeTransactions(transactions, from, to, type));
+    setRecurringRules(recategorize(recurringRules, from, to, type));
+    if (type === TransactionType.EXPENSE) {
+      const kept = dropSourceBudget ? budgets.filter(b => b.category !== from) : budgets;
+      setBudgets(recategorize(kept, from, to, type));
+    }
+    const rename = (list: string[]) => list.includes(from) ? Array.from(new Set(list.map(c => c === from ? to : c))) : list;
+    setFilterPresets(filterPresets.map(p => {
+      const next = rename(p.filter.categories);
+      return next === p.filter.categories ? p : { ...p, filter: { ...p.filter, categories: next } };
+    }));
+    setTransactionFilter({ ...transactionFilter, categories: rename(transactionFilter.categories) });
+  };
+
+  const showTagTransactions = (tag: string) => {
+    setTransactionFilter({ ...EMPTY_FILTER, tags: [tag] });
+    setIsTagManagerOpen(false);
+    setActiveTab('transactions');
+  };
+
+  const handleDeleteTransaction = (tx: Transaction) => {
+    if (confirm(t.common.confirmDelete)) {
+        setTransactions(transactions.filter(t => t.id !== tx.id));
+        setAccounts(postTransaction(accounts, tx, -1, exchangeRates));
+    }
+  };
+
+  const openTransactionForm = (tx: Transaction | null = null) => {
+    setEditingTransaction(tx);
+    setIsFormOpen(true);
+  };
+
+  const closeTransactionForm = () => {
+    setIsFormOpen(false);
+    setEditingTransaction(null);
+    setTransactionTemplate(undefined);
+  };
+
+  const handleSaveCreditTerms = (accountId: string, credit: CreditTerms) => {
+    // Keep when the terms were first set; the balance owed before then is carried in
+    setAccounts(accounts.map(a => a.id === accountId ? { ...a, credit: { ...credit, since: a.credit?.since ?? toDateKey(new Date()) } } : a));
+  };
+
+  const handleSaveLoanTerms = (accountId: string, loan: LoanTerms) => {
+    setAccounts(accounts.map(a => a.id === accountId ? { ...a, loan } : a));
+  };
+
+  // Opens a transfer into the card; once saved it counts toward the statement
+  const payCreditStatement = (account: Account, statement: CreditStatement, amount: number) => {
+    setCreditAccountId(null);
+    setTransactionTemplate({
+      type: TransactionType.TRANSFER,
+      amount,
+      currency: account.currency,
+      toAccountId: account.id,
+      note: t.credit.payNote.replace('{account}', account.name).replace('{date}', new Date(statement.closingDate).toLocaleDateString()),
     });
-    setAccounts(updatedAccounts);
+    setEditingTransaction(null);
+    setIsFormOpen(true);
   };
 
   const markAsReceived = (tx: Transaction) => {
     if (confirm(t.common.confirmReceived)) {
-        const updatedTransactions = transactions.map(t => 
-            t.id === tx.id ? { ...t, status: TransactionStatus.COMPLETED, date: new Date().toISOString() } : t
-        );
-        setTransactions(updatedTransactions);
-        updateAccountBalance({ ...tx, status: TransactionStatus.COMPLETED });
+        const receivedTx = withPostedAmount({ ...tx, status: TransactionStatus.COMPLETED, date: new Date().toISOString() }, accounts, exchangeRates);
+        setTransactions(transactions.map(t => t.id === tx.id ? receivedTx : t));
+        setAccounts(postTransaction(accounts, receivedTx, 1, exchangeRates));
     }
   };
 
   const handleUpdateInvestmentAccount = (updatedAccount: Account) => {
+      const previous = accounts.find(a => a.id === updatedAccount.id);
       setAccounts(accounts.map(a => a.id === updatedAccount.id ? updatedAccount : a));
       setSelectedInvestmentAccount(updatedAccount); 
+      // A check-in stamps lastCheckIn; editing lots does not
+      if (updatedAccount.lastCheckIn && updatedAccount.lastCheckIn !== previous?.lastCheckIn) {
+          setHoldingSnapshots(prev => recordHoldingSnapshot(prev, updatedAccount, new Date(updatedAccount.lastCheckIn!)));
+      }
+  };
+
+  const handleSaveHoldingSnapshot = (snapshot: HoldingSnapshot) => {
+      setHoldingSnapshots(prev => prev.map(s => s.id === snapshot.id ? snapshot : s));
+  };
+
+  const handleDeleteHoldingSnapshot = (id: string) => {
+      setHoldingSnapshots(prev => prev.filter(s => s.id !== id));
   };
 
   const handleCreateAccount = (e: React.FormEvent<HTMLFormElement>) => {
@@ -254,33 +578,100 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
 
   const handleGenerateAdvice = async () => {
     setLoadingAdvice(true);
-    const adviceText = await getFinancialAdvice(transactions, accounts, baseCurrency, language);
+    const adviceText = await getFinancialAdvice(transactions, accounts, baseCurrency, language, exchangeRates);
     setAdvice(adviceText);
     setLastAdviceDate(new Date().toISOString());
     setLoadingAdvice(false);
   };
 
+  // Runs the scheduler, catching up on every occurrence that came due
+  const applyRecurringRules = (rules: RecurringRule[]) => {
+    const result = runRecurringRules(rules, transactions);
+    setRecurringRules(result.rules);
+    if (result.transactions.length > 0) {
+      const generated = result.transactions.map(tx => withPostedAmount(tx, accounts, exchangeRates));
+      setTransactions([...generated, ...transactions]);
+      setAccounts(generated.reduce((acc, tx) => postTransaction(acc, tx, 1, exchangeRates), accounts));
+    }
+  };
+
   const checkRecurring = () => {
-    if (recurringRules.length === 0) {
-      // Default rule for new users
+    let rules = recurringRules;
+    // Seed only for users who never saved rules, so removing the example sticks
+    if (stored.recurringRules === undefined && rules.length === 0) {
       const insuranceRule: RecurringRule = {
-        id: 'rec_1',
+        id: DEFAULT_RULE_ID,
         name: 'Health Insurance',
         amount: 500,
         currency: Currency.CNY,
         category: 'Insurance',
         frequency: 'MONTHLY',
         accountId: accounts[0]?.id || '1',
+        startDate: new Date().toISOString(),
         nextDueDate: new Date().toISOString()
       };
-      setRecurringRules([insuranceRule]);
+      // First due a month from now
+      rules = [{ ...insuranceRule, nextDueDate: getNextDueDate(insuranceRule, insuranceRule.nextDueDate) }];
     }
+    applyRecurringRules(rules);
+  };
+
+  const openRuleForm = (rule: RecurringRule | null = null) => {
+    setEditingRule(rule);
+    setIsRuleFormOpen(true);
   };
 
+  const closeRuleForm = () => {
+    setIsRuleFormOpen(false);
+    setEditingRule(null);
+  };
+
+  const handleSaveRule = (data: Omit<RecurringRule, 'id'>) => {
+    const rules = editingRule
+      ? recurringRules.map(r => r.id === editingRule.id ? { ...data, id: editingRule.id } : r)
+      : [...recurringRules, { ...data, id: generateId() }];
+    setCategories(ensureCategory(categories, data.category, data.type ?? TransactionType.EXPENSE));
+    applyRecurringRules(rules);
+  };
+
+  // Resuming skips the periods missed while paused instead of backfilling them
+  const toggleRulePaused = (rule: RecurringRule) => {
+    setRecurringRules(recurringRules.map(r => {
+      if (r.id !== rule.id) return r;
+      return r.isPaused
+        ? { ...r, isPaused: false, nextDueDate: alignNextDueDate(r, new Date().toISOString()) }
+        : { ...r, isPaused: true };
+    }));
+  };
+
+  const handleDeleteRule = (rule: RecurringRule, skipConfirm = false) => {
+    if (skipConfirm || confirm(t.recurring.confirmDelete)) {
+      setRecurringRules(recurringRules.filter(r => r.id !== rule.id));
+    }
+  };
+
+  // Manual payment records today and moves the rule to its next occurrence
+  const handleRecordRecurring = (rule: RecurringRule) => {
+    handleAddTransaction({
+      ...createRecurringTransaction(rule, new Date().toISOString()),
+      expectedDate: undefined,
+      status: TransactionStatus.COMPLETED
+    });
+    setRecurringRules(recurringRules.map(r => r.id === rule.id ? { ...r, nextDueDate: getNextDueDate(r, r.nextDueDate) } : r));
+    alert(`${t.common.save} - ${rule.name}`);
+  };
+
+  // Balances merge by adding each device's change, so two devices posting the same
+  // occurrence would debit it twice; pulled occurrences are skipped by id instead
   useEffect(() => {
-    checkRecurring();
+    if (hasPulled) checkRecurring();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [hasPulled]);
+
+  // Captures today's net worth on load and whenever balances move; earlier days are rebuilt in memory
+  useEffect(() => {
+    setNetWorthSnapshots(prev => captureNetWorthSnapshot(prev, accounts));
+  }, [accounts]);
 
   const toggleLanguage = () => {
     setLanguage(prev => prev === 'en' ? 'zh' : 'en');
@@ -295,6 +686,16 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
         <div className="bg-black text-white rounded-2xl p-6 shadow-xl transform transition-transform hover:scale-[1.02]">
           <p className="text-gray-400 text-xs font-bold mb-2 uppercase tracking-widest">{t.common.netWorth}</p>
           <h2 className="text-4xl font-light tracking-tight">{baseCurrency} {totalNetWorth.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</h2>
+          <div className="mt-2 flex gap-3 text-xs font-medium">
+            {[
+                { label: t.netWorthHistory.monthOverMonth, delta: netWorthDeltas.monthOverMonth },
+                { label: t.netWorthHistory.yearOverYear, delta: netWorthDeltas.yearOverYear },
+            ].filter(d => d.delta).map(({ label, delta }) => (
+                <span key={label} className={delta!.change >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                    {delta!.change >= 0 ? '+' : '-'}{Math.abs(delta!.change).toLocaleString(undefined, { maximumFractionDigits: 0 })} <span className="text-gray-500">{label}</span>
+                </span>
+            ))}
+          </div>
           <div className="mt-8 flex gap-4 text-xs font-medium text-gray-500">
             <div>
                  <span className="block text-gray-400">{t.common.assets}</span>
@@ -358,7 +759,7 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
                     </div>
                     <div>
                       <div className="flex items-center gap-2">
-                         <p className="font-bold text-gray-800 text-sm">{tx.category}</p>
+                         <p className="font-bold text-gray-800 text-sm">{getTransactionCategories(tx).map(name => categoryLabel(name, tx.type)).join(' + ')}</p>
                          {tx.status === TransactionStatus.PENDING && (
                              <span className="text-[9px] bg-orange-100 text-orange-600 px-1.5 py-0.5 rounded font-bold uppercase tracking-wider">{t.common.totalPending}</span>
                          )}
@@ -415,6 +816,100 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
            </div>
         </Card>
       </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Monthly Expenses (amortized) */}
+        <Card title={t.common.monthlyExpenses} className="h-full hover:shadow-md transition-shadow">
+          <h2 className="text-3xl font-bold text-gray-900 tracking-tight">{baseCurrency} {monthlyExpenses.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</h2>
+          <p className="text-xs text-gray-400 font-medium mt-1 mb-5">{t.common.amortizedHint}</p>
+          <div className="space-y-3">
+            {rolledUpBreakdown.map(c => (
+              <div key={c.category}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-bold text-gray-700">{categoryIcon(c.category, TransactionType.EXPENSE)} {categoryLabel(c.category, TransactionType.EXPENSE)}</span>
+                  <span className="text-gray-500 tabular-nums">{c.amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-black rounded-full" style={{ width: `${monthlyExpenses > 0 ? (c.amount / monthlyExpenses) * 100 : 0}%`, backgroundColor: categories.find(d => d.name === c.category && d.type === TransactionType.EXPENSE)?.color }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        {/* Budgets */}
+        <Card
+          title={t.budgets.title}
+          className="h-full hover:shadow-md transition-shadow"
+          action={
+            <button onClick={() => setIsBudgetManagerOpen(true)} className="text-xs font-bold text-gray-400 hover:text-black transition-colors">
+              {t.budgets.manage}
+            </button>
+          }
+        >
+          <div className="space-y-4">
+            {budgetProgress.length === 0 ? <p className="text-gray-400 text-sm italic">{t.budgets.noBudgets}</p> :
+              budgetProgress.map(p => {
+                const isOver = p.remaining < 0;
+                const barColor = isOver ? 'bg-rose-500' : p.ratio >= BUDGET_WARNING_RATIO ? 'bg-orange-400' : 'bg-emerald-500';
+                return (
+                  <div key={p.budget.id}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-bold text-gray-700">{categoryLabel(p.budget.category, TransactionType.EXPENSE)}</span>
+                      <span className="text-gray-500 tabular-nums">
+                        {p.spent.toLocaleString(undefined, { maximumFractionDigits: 2 })} {t.budgets.of} {p.available.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      </span>
+                    </div>
+                    <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+                      <div className={`h-full rounded-full ${barColor}`} style={{ width: `${Math.min(100, p.ratio * 100)}%` }} />
+                    </div>
+                    <div className="flex justify-between text-[10px] font-bold mt-1">
+                      <span className="text-gray-400">{p.carried > 0 && t.budgets.carried.replace('{amount}', p.carried.toLocaleString(undefined, { maximumFractionDigits: 2 }))}</span>
+                      <span className={isOver ? 'text-rose-500' : 'text-gray-400'}>
+                        {baseCurrency} {Math.abs(p.remaining).toLocaleString(undefined, { maximumFractionDigits: 2 })} {isOver ? t.budgets.over : t.budgets.left}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })
+            }
+          </div>
+        </Card>
+
+        {/* Long-term Stockpile */}
+        <Card
+          title={t.common.longTermStockpile}
+          className="h-full hover:shadow-md transition-shadow"
+          action={activeAmortizations.length > 0 && (
+            <span className="text-xs font-bold text-indigo-600">{t.common.remaining} {baseCurrency} {unamortizedBalance.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+          )}
+        >
+          <div className="space-y-4">
+            {activeAmortizations.length === 0 ? <p className="text-gray-400 text-sm italic">{t.common.noActiveStockpile}</p> :
+              activeAmortizations.map(({ transaction: tx, monthlyAmount, monthsElapsed, remaining, endMonth }) => (
+                <div key={tx.id} className="p-3 rounded-xl border border-indigo-50 bg-indigo-50/30">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <p className="font-bold text-gray-800 text-sm">{tx.note || categoryLabel(tx.category, tx.type)}</p>
+                      <p className="text-xs text-gray-400 font-medium">
+                        {monthlyAmount.toLocaleString()} {tx.currency} {t.common.perMonth} • {t.common.until} {endMonth}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <span className="block text-sm font-bold text-indigo-700">{remaining.toLocaleString()} <span className="text-xs font-normal text-gray-400">{tx.currency}</span></span>
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">{t.common.remaining}</span>
+                    </div>
+                  </div>
+                  <div className="h-1.5 w-full bg-indigo-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${(monthsElapsed / tx.amortizationMonths) * 100}%` }} />
+                  </div>
+                  <p className="text-[10px] text-indigo-400 font-bold mt-1">{monthsElapsed}/{tx.amortizationMonths}m</p>
+                </div>
+              ))
+            }
+          </div>
+        </Card>
+      </div>
     </div>
   );
 
@@ -460,32 +955,78 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
     </div>
   );
 
+  // Clicking the sorted column flips it; a new column starts descending
+  const handleSort = (key: SortKey) => setTransactionSort(
+    transactionSort.key === key
+      ? { key, direction: transactionSort.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: 'desc' }
+  );
+
+  const renderSortHeader = (key: SortKey, label: string, className = '') => {
+    const SortIcon = transactionSort.direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <th className={`px-6 py-4 ${className}`}>
+        <button onClick={() => handleSort(key)} className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-black transition-colors ${transactionSort.key === key ? 'text-black' : ''}`}>
+          {label}
+          {transactionSort.key === key && <SortIcon size={12} />}
+        </button>
+      </th>
+    );
+  };
+
   const renderTransactions = () => (
     <div className="space-y-6 animate-in fade-in">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-800">{t.nav.transactions}</h2>
-        <div className="flex gap-2">
-            <button className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 text-gray-600 text-sm font-medium shadow-sm transition-all">
-                {t.common.filter}
+        <div className="flex gap-2 items-center">
+            {fxGainLoss !== 0 && (
+                <span className={`text-xs font-bold px-3 py-2 rounded-xl bg-white border border-gray-200 ${fxGainLoss > 0 ? 'text-emerald-600' : 'text-rose-500'}`}>
+                    {t.common.fxGainLoss} {fxGainLoss > 0 ? '+' : ''}{fxGainLoss.toLocaleString(undefined, { maximumFractionDigits: 2 })} {baseCurrency}
+                </span>
+            )}
+            <button onClick={() => setIsCategoryManagerOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 text-gray-600 text-sm font-medium shadow-sm transition-all">
+                <Shapes size={16} /> {t.categories.manage}
+            </button>
+            <button onClick={() => setIsTagManagerOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 text-gray-600 text-sm font-medium shadow-sm transition-all">
+                <Tags size={16} /> {t.tags.manage}
+            </button>
+            <button onClick={() => setIsImportOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 text-gray-600 text-sm font-medium shadow-sm transition-all">
+                <Upload size={16} /> {t.importer.open}
+            </button>
+            <button onClick={() => setIsExportOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 text-gray-600 text-sm font-medium shadow-sm transition-all">
+                <Download size={16} /> {t.exporter.open}
             </button>
         </div>
       </div>
 
+      <TransactionFilterBar
+        filter={transactionFilter}
+        onChange={setTransactionFilter}
+        presets={filterPresets}
+        onPresetsChange={setFilterPresets}
+        accounts={accounts}
+        categories={usedCategories}
+        tags={usedTags}
+        totals={filteredTotals}
+        baseCurrency={baseCurrency}
+        language={language}
+      />
+
       <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="overflow-x-auto">
             <table className="w-full text-left">
                 <thead className="bg-gray-50 text-gray-500 text-xs uppercase font-bold tracking-wider">
                     <tr>
-                        <th className="px-6 py-4">{t.form.date}</th>
-                        <th className="px-6 py-4">{t.form.category}</th>
-                        <th className="px-6 py-4">{t.form.note}</th>
-                        <th className="px-6 py-4">{t.form.account}</th>
-                        <th className="px-6 py-4 text-right">{t.form.amount}</th>
+                        {renderSortHeader('date', t.form.date)}
+                        {renderSortHeader('category', t.form.category)}
+                        {renderSortHeader('note', t.form.note)}
+                        {renderSortHeader('account', t.form.account)}
+                        {renderSortHeader('amount', t.form.amount, 'text-right')}
                         <th className="px-6 py-4 text-center"></th>
                     </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100">
-                    {transactions.map(tx => (
+                    {filteredTransactions.map(tx => (
                         <tr key={tx.id} className="hover:bg-gray-50 transition-colors group">
                             <td className="px-6 py-4 text-sm text-gray-600 font-medium">
                                 <div>{new Date(tx.date).toLocaleDateString()}</div>
@@ -496,8 +1037,19 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
                             <td className="px-6 py-4 text-sm font-bold text-gray-800 flex flex-col gap-1">
                                 <div className="flex items-center gap-2">
                                     <span className={`w-1.5 h-1.5 rounded-full ${tx.type === TransactionType.EXPENSE ? 'bg-black' : 'bg-emerald-500'}`}></span>
-                                    {tx.category}
+                                    {isSplit(tx) ? t.splits.summary.replace('{n}', String(tx.splits.length)) : <>{categoryIcon(tx.category, tx.type)} {categoryLabel(tx.category, tx.type)}</>}
                                 </div>
+                                {isSplit(tx) && (
+                                    <div className="pl-3.5 space-y-0.5">
+                                        {tx.splits.map((line, i) => (
+                                            <div key={i} className="flex gap-2 text-[11px] font-medium text-gray-500">
+                                                <span>{categoryIcon(line.category, tx.type)} {categoryLabel(line.category, tx.type)}</span>
+                                                <span className="tabular-nums text-gray-700">{line.amount.toLocaleString()}</span>
+                                                {(line.note || line.tags.length > 0) && <span className="text-gray-400 truncate max-w-[140px]">{[line.note, ...line.tags.map(tag => `#${tag}`)].filter(Boolean).join(' ')}</span>}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                                 {tx.tags.length > 0 && <div className="text-[10px] text-gray-400 pl-3.5">{tx.tags.join(', ')}</div>}
                             </td>
                             <td className="px-6 py-4 text-sm text-gray-500 max-w-[200px] truncate">
@@ -506,31 +1058,136 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
                             </td>
                             <td className="px-6 py-4 text-sm text-gray-600">
                                 {accounts.find(a => a.id === tx.accountId)?.name}
+                                {tx.type === TransactionType.TRANSFER && tx.toAccountId && (
+                                    <span className="text-gray-400"> → {accounts.find(a => a.id === tx.toAccountId)?.name}</span>
+                                )}
                             </td>
                             <td className={`px-6 py-4 text-sm font-bold text-right tabular-nums ${tx.type === TransactionType.EXPENSE ? 'text-gray-900' : tx.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-gray-800'} ${tx.status === TransactionStatus.PENDING ? 'opacity-40' : ''}`}>
                                 {tx.type === TransactionType.EXPENSE ? '-' : tx.type === TransactionType.INCOME ? '+' : ''}
                                 {tx.amount.toFixed(2)} <span className="text-xs text-gray-400">{tx.currency}</span>
+                                {tx.fxRate && (
+                                    <div className="text-[10px] text-gray-400 font-medium">@ {tx.fxRate} → {tx.receivedAmount?.toFixed(2)}</div>
+                                )}
+                                {!!tx.fee && (
+                                    <div className="text-[10px] text-rose-400 font-medium">{t.common.fee} -{tx.fee.toFixed(2)}</div>
+                                )}
                             </td>
                             <td className="px-6 py-4 text-right">
-                                {tx.status === TransactionStatus.PENDING && (
+                                <div className="flex items-center justify-end gap-1">
+                                    {tx.status === TransactionStatus.PENDING && (
+                                        <button 
+                                            onClick={() => markAsReceived(tx)}
+                                            className="text-xs bg-black text-white px-3 py-1.5 rounded-lg font-bold hover:bg-gray-800 transition-colors flex items-center gap-1"
+                                        >
+                                            <CheckCircle2 size={12} /> {t.common.markReceived}
+                                        </button>
+                                    )}
                                     <button 
-                                        onClick={() => markAsReceived(tx)}
-                                        className="text-xs bg-black text-white px-3 py-1.5 rounded-lg font-bold hover:bg-gray-800 transition-colors flex items-center gap-1 ml-auto"
+                                        onClick={() => openTransactionForm(tx)}
+                                        title={t.common.edit}
+                                        className="p-1.5 text-gray-300 hover:text-black hover:bg-gray-100 rounded-lg transition-colors"
                                     >
-                                        <CheckCircle2 size={12} /> {t.common.markReceived}
+                                        <Pencil size={14} />
                                     </button>
-                                )}
+                                    <button 
+                                        onClick={() => handleDeleteTransaction(tx)}
+                                        title={t.common.delete}
+                                        className="p-1.5 text-gray-300 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
                             </td>
                         </tr>
                     ))}
                 </tbody>
             </table>
         </div>
-        {transactions.length === 0 && <div className="p-12 text-center text-gray-400 italic">{t.common.noTransactions}</div>}
+        {filteredTransactions.length === 0 && (
+            <div className="p-12 text-center text-gray-400 italic">{transactions.length === 0 ? t.common.noTransactions : t.filters.noMatches}</div>
+        )}
       </div>
     </div>
   );
 
+  // Limit usage and the latest statement on a credit account's card
+  const renderCreditSummary = (acc: Account) => {
+    const summary = getCreditSummary(acc, transactions, accounts, exchangeRates, new Date(), 1);
+    const latest = summary?.statements[0];
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-50 space-y-2">
+            {summary && acc.credit && (
+                <>
+                    <div className="flex justify-between text-xs font-medium text-gray-500">
+                        <span>{t.credit.available} <span className="font-bold text-gray-800">{summary.availableCredit.toLocaleString()}</span></span>
+                        <span>{t.credit.ofLimit.replace('{limit}', acc.credit.limit.toLocaleString())}</span>
+                    </div>
+                    <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+                        <div className={`h-full rounded-full ${summary.utilization >= 0.9 ? 'bg-rose-500' : 'bg-black'}`} style={{ width: `${Math.min(100, summary.utilization * 100)}%` }} />
+                    </div>
+                    {latest && latest.balance > 0 && (
+                        <div className="flex justify-between items-center text-xs font-medium text-gray-500">
+                            <span>{t.credit.statementBalance} <span className="font-bold text-gray-800">{latest.balance.toLocaleString()}</span> · {t.credit.dueDate} {new Date(latest.dueDate).toLocaleDateString()}</span>
+                            <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${STATUS_STYLES[latest.status]}`}>{t.credit.status[latest.status]}</span>
+                        </div>
+                    )}
+                </>
+            )}
+            <button
+                onClick={() => setCreditAccountId(acc.id)}
+                className="text-xs font-bold text-gray-600 hover:text-black flex items-center gap-1"
+            >
+                <CreditCard size={12} /> {acc.credit ? t.credit.statements : t.credit.setup}
+            </button>
+        </div>
+    );
+  };
+
+  // Where the repayment schedule stands today on a loan account's card
+  const renderLoanSummary = (acc: Account) => {
+    const summary = hasLoanTerms(acc) ? getLoanSummary(acc.loan) : null;
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-50 space-y-2">
+            {summary && acc.loan && (
+                <>
+                    <div className="flex justify-between text-xs font-medium text-gray-500">
+                        <span>{t.loan.remaining} <span className="font-bold text-gray-800">{summary.remaining.toLocaleString()}</span></span>
+                        <span>{t.loan.paidPeriods.replace('{paid}', String(summary.paidPeriods)).replace('{total}', String(summary.schedule.length))}</span>
+                    </div>
+                    <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+                        <div className="h-full rounded-full bg-black" style={{ width: `${acc.loan.principal > 0 ? Math.min(100, (1 - summary.remaining / acc.loan.principal) * 100) : 0}%` }} />
+                    </div>
+                    {summary.next && (
+                        <div className="text-xs font-medium text-gray-500">
+                            {t.loan.nextPayment} <span className="font-bold text-gray-800">{summary.next.payment.toLocaleString()}</span> · {new Date(summary.next.date).toLocaleDateString()}
+                        </div>
+                    )}
+                </>
+            )}
+            <button
+                onClick={() => setLoanAccountId(acc.id)}
+                className="text-xs font-bold text-gray-600 hover:text-black flex items-center gap-1"
+            >
+                <Landmark size={12} /> {acc.loan ? t.loan.schedule : t.loan.setup}
+            </button>
+        </div>
+    );
+  };
+
+  // Cost basis and return of an investment account's holdings that have trades
+  const renderPortfolioSummary = (acc: Account) => {
+    const portfolio = getPortfolioSummary(acc.holdings || []);
+    if (portfolio.tracked === 0) return null;
+    return (
+        <div className="flex justify-between text-xs font-medium text-gray-500 mt-2">
+            <span>{t.investments.costBasis} <span className="font-bold text-gray-800">{portfolio.costBasis.toLocaleString()}</span></span>
+            <span className={`font-bold ${portfolio.totalReturn >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>
+                {portfolio.totalReturn > 0 ? '+' : ''}{portfolio.totalReturn.toLocaleString()} ({(portfolio.returnRate * 100).toFixed(2)}%)
+            </span>
+        </div>
+    );
+  };
+
   const renderAccounts = () => {
     // If a group is selected, show the Drill-down view
     if (selectedGroupKey) {
@@ -561,6 +1218,7 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
                                 <div className="p-3.5 rounded-xl bg-gray-50 group-hover:bg-white group-hover:shadow-sm transition-all text-gray-700">
                                     {acc.type === AccountType.CREDIT ? <CreditCard size={24} /> : 
                                      acc.type === AccountType.INVESTMENT ? <LineChart size={24} /> : 
+                                     acc.type === AccountType.LOAN ? <Landmark size={24} /> : 
                                      <Wallet size={24} />}
                                 </div>
                                 <span className="text-[10px] font-bold bg-gray-100 px-2 py-1 rounded-full text-gray-500 uppercase tracking-wide">{acc.currency}</span>
@@ -580,8 +1238,18 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
                                         <Clock size={12} /> {t.common.investmentCheckIn}
                                     </button>
                                     <p className="text-[10px] text-gray-400 mt-1">Last update: {acc.lastCheckIn ? new Date(acc.lastCheckIn).toLocaleDateString() : 'Never'}</p>
+                                    {renderPortfolioSummary(acc)}
+                                    <button
+                                        onClick={() => setHistoryAccountId(acc.id)}
+                                        className="mt-2 text-xs font-bold text-gray-600 hover:text-black flex items-center gap-1"
+                                    >
+                                        <LineChart size={12} /> {t.holdingHistory.title}
+                                    </button>
                                  </div>
                             )}
+
+                            {acc.type === AccountType.CREDIT && renderCreditSummary(acc)}
+                            {acc.type === AccountType.LOAN && renderLoanSummary(acc)}
                       </div>
                     ))}
                     
@@ -603,12 +1271,20 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
       <div className="space-y-6 animate-in fade-in">
           <div className="flex justify-between items-center">
               <h2 className="text-2xl font-bold text-gray-800">{t.nav.accounts}</h2>
-              <button 
-                onClick={() => setIsAccountModalOpen(true)}
-                className="text-white text-sm font-bold bg-black px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2"
-               >
-                  <Plus size={16} /> {t.common.addAccount}
-              </button>
+              <div className="flex gap-2">
+                  <button 
+                    onClick={() => setIsRateManagerOpen(true)}
+                    className="text-sm font-bold bg-white border border-gray-200 text-gray-600 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+                   >
+                      <ArrowRightLeft size={16} /> {t.rates.title}
+                  </button>
+                  <button 
+                    onClick={() => setIsAccountModalOpen(true)}
+                    className="text-white text-sm font-bold bg-black px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2"
+                   >
+                      <Plus size={16} /> {t.common.addAccount}
+                  </button>
+              </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -649,63 +1325,68 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
           
           <Card title={t.common.recurringPayments}>
               <div className="space-y-4">
+                  {recurringRules.length === 0 && <p className="text-gray-400 text-sm italic">{t.common.recurringEmpty}</p>}
                   {recurringRules.map(rule => (
-                      <div key={rule.id} className="flex justify-between items-center p-4 border rounded-xl hover:border-gray-300 transition-all cursor-pointer group">
+                      <div key={rule.id} onClick={() => openRuleForm(rule)} className={`p-4 border rounded-xl hover:border-gray-300 transition-all cursor-pointer group ${rule.isPaused ? 'opacity-60' : ''}`}>
+                        <div className="flex justify-between items-center">
                           <div className="flex items-center gap-4">
                               <div className="bg-gray-100 p-2.5 rounded-full text-gray-600 group-hover:bg-black group-hover:text-white transition-colors">
                                   <Repeat size={20} />
                               </div>
                               <div>
                                   <p className="font-bold text-gray-800">{rule.name}</p>
-                                  <p className="text-xs text-gray-500 font-medium">Every {rule.frequency.toLowerCase()} • {rule.category}</p>
+                                  <p className="text-xs text-gray-500 font-medium">
+                                      {rule.frequency === 'CUSTOM' ? t.common.everyNDays.replace('{n}', String(rule.intervalDays || 1)) : t.frequency[rule.frequency]} • {categoryLabel(rule.category, rule.type ?? TransactionType.EXPENSE)} • {t.common.nextDue} {new Date(rule.nextDueDate).toLocaleDateString()}
+                                  </p>
+                                  <div className="flex gap-1 mt-1">
+                                      {rule.isPaused && (
+                                          <span className="text-[9px] bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded font-bold uppercase tracking-wider">{t.recurring.paused}</span>
+                                      )}
+                                      {rule.createAsPending && (
+                                          <span className="text-[9px] bg-orange-100 text-orange-600 px-1.5 py-0.5 rounded font-bold uppercase tracking-wider">{t.common.reviewAsPending}</span>
+                                      )}
+                                  </div>
                               </div>
                           </div>
                           <div className="text-right">
-                              <p className="font-bold text-gray-800 text-lg">{rule.amount} <span className="text-sm font-normal text-gray-500">{rule.currency}</span></p>
-                              <button 
-                                onClick={() => {
-                                    handleAddTransaction({
-                                        id: '', 
-                                        date: new Date().toISOString(),
-                                        amount: rule.amount,
-                                        currency: rule.currency,
-                                        type: TransactionType.EXPENSE,
-                                        category: rule.category,
-                                        tags: ['Recurring'],
-                                        accountId: rule.accountId,
-                                        note: `Auto-generated: ${rule.name}`,
-                                        status: TransactionStatus.COMPLETED,
-                                        isAmortized: false,
-                                        amortizationMonths: 0,
-                                        isRecurring: true
-                                    });
-                                    alert(`${t.common.save} - ${rule.name}`);
-                                }}
-                                className="text-xs text-black hover:underline font-bold mt-1"
-                              >
-                                  {t.common.recordPayment}
-                              </button>
+                              <p className={`font-bold text-lg ${rule.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-gray-800'}`}>
+                                  {rule.type === TransactionType.INCOME ? '+' : ''}{rule.amount} <span className="text-sm font-normal text-gray-500">{rule.currency}</span>
+                              </p>
+                              <div className="flex items-center justify-end gap-1 mt-1" onClick={(e) => e.stopPropagation()}>
+                                  <button 
+                                    onClick={() => handleRecordRecurring(rule)}
+                                    className="text-xs text-black hover:underline font-bold mr-1"
+                                  >
+                                      {t.common.recordPayment}
+                                  </button>
+                                  <button 
+                                    onClick={() => toggleRulePaused(rule)}
+                                    title={rule.isPaused ? t.recurring.resume : t.recurring.pause}
+                                    className="p-1.5 text-gray-300 hover:text-black hover:bg-gray-100 rounded-lg transition-colors"
+                                  >
+                                      {rule.isPaused ? <Play size={14} /> : <Pause size={14} />}
+                                  </button>
+                                  <button 
+                                    onClick={() => handleDeleteRule(rule)}
+                                    title={t.common.delete}
+                                    className="p-1.5 text-gray-300 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors"
+                                  >
+                                      <Trash2 size={14} />
+                                  </button>
+                              </div>
                           </div>
+                        </div>
+                        {rule.id === DEFAULT_RULE_ID && (
+                            <div className="mt-3 pt-3 border-t border-gray-100 flex justify-between items-center text-xs" onClick={(e) => e.stopPropagation()}>
+                                <span className="text-gray-400 font-medium">{t.recurring.defaultRuleHint}</span>
+                                <button onClick={() => handleDeleteRule(rule, true)} className="font-bold text-gray-500 hover:text-black">
+                                    {t.recurring.removeDefault}
+                                </button>
+                            </div>
+                        )}
                       </div>
                   ))}
-                  <button onClick={() => {
-                      const name = prompt("Name of expense (e.g. Rent)?");
-                      if(name) {
-                         const amount = prompt("Amount?");
-                         if (amount) {
-                             setRecurringRules([...recurringRules, {
-                                 id: generateId(),
-                                 name,
-                                 amount: parseFloat(amount),
-                                 currency: baseCurrency,
-                                 category: 'Housing',
-                                 frequency: 'MONTHLY',
-                                 nextDueDate: new Date().toISOString(),
-                                 accountId: accounts[0].id
-                             }]);
-                         }
-                      }
-                  }} className="w-full py-3 border-2 border-dashed border-gray-200 rounded-xl text-gray-400 text-sm font-bold hover:border-gray-400 hover:text-gray-600 transition-all">
+                  <button onClick={() => openRuleForm()} className="w-full py-3 border-2 border-dashed border-gray-200 rounded-xl text-gray-400 text-sm font-bold hover:border-gray-400 hover:text-gray-600 transition-all">
                       + {t.common.addExpense}
                   </button>
               </div>
@@ -729,6 +1410,7 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
                 { id: 'dashboard', label: t.nav.dashboard, icon: LayoutDashboard },
                 { id: 'transactions', label: t.nav.transactions, icon: Receipt },
                 { id: 'accounts', label: t.nav.accounts, icon: Wallet },
+                { id: 'reports', label: t.nav.reports, icon: ChartPie },
                 { id: 'advice', label: t.nav.advice, icon: BrainCircuit, badge: shouldShowAdviceReminder },
             ].map(item => (
                 <button
@@ -749,13 +1431,31 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
 
         <div className="p-6 border-t border-gray-50 space-y-4">
              {/* Sync Status */}
-            <div className="flex items-center gap-2 text-xs font-bold text-gray-400 px-2">
-                {syncStatus === 'syncing' && <RefreshCw size={12} className="animate-spin" />}
-                {syncStatus === 'synced' && <Cloud size={12} />}
-                <span>
-                    {syncStatus === 'syncing' ? t.sync.syncing : t.sync.synced}
-                </span>
-            </div>
+            <button
+                onClick={runSync}
+                disabled={!SYNC_URL || syncStatus === 'syncing'}
+                title={SYNC_URL ? t.sync.syncNow : undefined}
+                className={`w-full text-left px-2 text-xs font-bold ${syncStatus === 'error' ? 'text-rose-500' : syncStatus === 'offline' ? 'text-orange-500' : 'text-gray-400'}`}
+            >
+                <div className="flex items-center gap-2">
+                    {syncStatus === 'local' && <HardDrive size={12} />}
+                    {syncStatus === 'syncing' && <RefreshCw size={12} className="animate-spin" />}
+                    {syncStatus === 'synced' && <Cloud size={12} />}
+                    {syncStatus === 'pending' && <Clock size={12} />}
+                    {syncStatus === 'offline' && <CloudOff size={12} />}
+                    {syncStatus === 'error' && <CircleAlert size={12} />}
+                    <span>
+                        {syncStatus === 'pending' || (syncStatus === 'offline' && pendingCount > 0)
+                            ? t.sync.pending.replace('{n}', String(pendingCount))
+                            : t.sync[syncStatus]}
+                    </span>
+                </div>
+                {SYNC_URL && lastSyncedAt && (
+                    <p className="text-[10px] font-medium text-gray-300 mt-1">
+                        {t.sync.lastSynced.replace('{time}', new Date(lastSyncedAt).toLocaleString())}
+                    </p>
+                )}
+            </button>
 
              {/* Language Toggle */}
             <button 
@@ -769,6 +1469,15 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
                 <span className="font-bold text-black bg-gray-100 px-2 py-0.5 rounded text-xs">{language.toUpperCase()}</span>
             </button>
 
+            {/* Backup & Restore */}
+            <button 
+                onClick={() => setIsBackupOpen(true)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-500 hover:bg-gray-50 rounded-lg transition-colors font-medium"
+            >
+                <DatabaseBackup size={16} />
+                <span>{t.backup.title}</span>
+            </button>
+
             {/* Profile / Logout */}
             <div className="pt-2 border-t border-gray-100 mt-2">
                 <div className="flex items-center gap-3 px-3 py-2 mb-2">
@@ -780,6 +1489,13 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
                         <p className="text-xs text-gray-400 truncate">{user.email}</p>
                     </div>
                 </div>
+                <button 
+                    onClick={() => setIsChangePasswordOpen(true)}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-500 hover:bg-gray-50 rounded-lg transition-colors font-medium"
+                >
+                    <KeyRound size={16} />
+                    {t.auth.changePassword}
+                </button>
                 <button 
                     onClick={onLogout}
                     className="w-full flex items-center gap-2 px-3 py-2 text-sm text-rose-600 font-bold hover:bg-rose-50 rounded-lg transition-colors"
@@ -825,15 +1541,46 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
             </div>
         )}
 
+        {creditReminders.map(({ account, statement, daysLeft }) => (
+            <div key={account.id} className={`mb-6 px-4 py-3 rounded-xl flex items-center justify-between border animate-in slide-in-from-top-2 ${daysLeft < 0 ? 'bg-rose-50 border-rose-100 text-rose-700' : 'bg-orange-50 border-orange-100 text-orange-700'}`}>
+                <div className="flex items-center gap-3">
+                    <CreditCard size={18} />
+                    <span className="text-sm font-bold">
+                        {(daysLeft < 0 ? t.credit.overdueReminder : t.credit.reminder)
+                            .replace('{account}', account.name)
+                            .replace('{amount}', `${account.currency} ${getStatementRemaining(statement).toLocaleString()}`)
+                            .replace('{date}', new Date(statement.dueDate).toLocaleDateString())}
+                    </span>
+                </div>
+                <button
+                    onClick={() => setCreditAccountId(account.id)}
+                    className="text-xs bg-white text-black px-3 py-1.5 rounded-lg font-bold hover:bg-gray-100 transition-colors"
+                >
+                    {t.credit.statements}
+                </button>
+            </div>
+        ))}
+
         {activeTab === 'dashboard' && renderDashboard()}
         {activeTab === 'transactions' && renderTransactions()}
         {activeTab === 'accounts' && renderAccounts()}
+        {activeTab === 'reports' && (
+          <ReportsView
+            accounts={accounts}
+            transactions={transactions}
+            snapshots={netWorthHistory}
+            categories={categories}
+            baseCurrency={baseCurrency}
+            rates={exchangeRates}
+            language={language}
+          />
+        )}
         {activeTab === 'advice' && renderAdvice()}
       </main>
 
       {/* Floating Add Button */}
       <button
-        onClick={() => setIsFormOpen(true)}
+        onClick={() => openTransactionForm()}
         className="fixed bottom-8 right-8 bg-black hover:bg-gray-800 text-white w-16 h-16 rounded-full shadow-2xl shadow-black/30 flex items-center justify-center transition-transform hover:scale-105 active:scale-95 z-40"
       >
         <Plus size={32} strokeWidth={2} />
@@ -843,8 +1590,146 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
       {isFormOpen && (
         <TransactionForm 
             accounts={accounts} 
-            onSave={handleAddTransaction} 
-            onClose={() => setIsFormOpen(false)} 
+            transaction={editingTransaction}
+            template={transactionTemplate}
+            rates={exchangeRates}
+            budgets={budgets}
+            transactions={editingTransaction ? transactions.filter(tx => tx.id !== editingTransaction.id) : transactions}
+            baseCurrency={baseCurrency}
+            knownTags={usedTags}
+            categories={categories}
+            onSave={editingTransaction ? handleUpdateTransaction : handleAddTransaction} 
+            onClose={closeTransactionForm} 
+            language={language}
+        />
+      )}
+
+      {/* Tag Manager Modal */}
+      {isTagManagerOpen && (
+        <TagManager
+            transactions={transactions}
+            baseCurrency={baseCurrency}
+            rates={exchangeRates}
+            onRetag={handleRetag}
+            onShowTransactions={showTagTransactions}
+            onClose={() => setIsTagManagerOpen(false)}
+            language={language}
+        />
+      )}
+
+      {/* Credit Statements Modal */}
+      {creditAccount && (
+        <CreditStatements
+            account={creditAccount}
+            accounts={accounts}
+            transactions={transactions}
+            rates={exchangeRates}
+            onSaveTerms={(terms) => handleSaveCreditTerms(creditAccount.id, terms)}
+            onPay={(statement, amount) => payCreditStatement(creditAccount, statement, amount)}
+            onClose={() => setCreditAccountId(null)}
+            language={language}
+        />
+      )}
+
+      {/* Loan Details Modal */}
+      {loanAccount && (
+        <LoanDetails
+            account={loanAccount}
+            onSaveTerms={(terms) => handleSaveLoanTerms(loanAccount.id, terms)}
+            onClose={() => setLoanAccountId(null)}
+            language={language}
+        />
+      )}
+
+      {/* Holding History Modal */}
+      {historyAccount && (
+        <HoldingHistory
+            account={historyAccount}
+            snapshots={holdingSnapshots}
+            onSave={handleSaveHoldingSnapshot}
+            onDelete={handleDeleteHoldingSnapshot}
+            onClose={() => setHistoryAccountId(null)}
+            language={language}
+        />
+      )}
+
+      {/* Category Manager Modal */}
+      {isCategoryManagerOpen && (
+        <CategoryManager
+            categories={categories}
+            onSave={handleSaveCategory}
+            onMerge={handleMergeCategory}
+            onClose={() => setIsCategoryManagerOpen(false)}
+            language={language}
+        />
+      )}
+
+      {/* Recurring Rule Modal */}
+      {isRuleFormOpen && (
+        <RecurringRuleForm
+            accounts={accounts}
+            rule={editingRule}
+            categories={categories}
+            baseCurrency={baseCurrency}
+            onSave={handleSaveRule}
+            onClose={closeRuleForm}
+            language={language}
+        />
+      )}
+
+      {/* Budget Manager Modal */}
+      {isBudgetManagerOpen && (
+        <BudgetManager
+            budgets={budgets}
+            categories={expenseCategories}
+            baseCurrency={baseCurrency}
+            onChange={setBudgets}
+            onClose={() => setIsBudgetManagerOpen(false)}
+            language={language}
+        />
+      )}
+
+      {/* Exchange Rate Modal */}
+      {isRateManagerOpen && (
+        <ExchangeRateManager
+            rates={exchangeRates}
+            baseCurrency={baseCurrency}
+            onChange={setExchangeRates}
+            onClose={() => setIsRateManagerOpen(false)}
+            language={language}
+        />
+      )}
+
+      {/* Statement Import Modal */}
+      {isImportOpen && (
+        <ImportWizard
+            accounts={accounts}
+            transactions={transactions}
+            presets={importPresets}
+            onSavePreset={handleSaveImportPreset}
+            onImport={addTransactions}
+            onClose={() => setIsImportOpen(false)}
+            language={language}
+        />
+      )}
+
+      {/* Export Modal */}
+      {isExportOpen && (
+        <ExportDialog
+            accounts={accounts}
+            transactions={transactions}
+            rates={exchangeRates}
+            onClose={() => setIsExportOpen(false)}
+            language={language}
+        />
+      )}
+
+      {/* Backup Modal */}
+      {isBackupOpen && (
+        <BackupManager
+            data={persistedData}
+            onRestore={replaceData}
+            onClose={() => setIsBackupOpen(false)}
             language={language}
         />
       )}
@@ -890,6 +1775,14 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
           </div>
       )}
 
+      {isChangePasswordOpen && (
+          <ChangePasswordForm
+             onChangePassword={onChangePassword}
+             language={language}
+             onClose={() => setIsChangePasswordOpen(false)}
+          />
+      )}
+
       {/* Investment Detail View */}
       {selectedInvestmentAccount && (
           <InvestmentChat 
@@ -904,23 +1797,117 @@ function Dashboard({ user, onLogout }: { user: User, onLogout: () => void }) {
   );
 }
 
+interface DashboardLoaderProps {
+  user: User;
+  dataKey: CryptoKey;
+  onLogout: () => void;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+}
+
+// Opens the user's encrypted repository (moving localStorage data into IndexedDB on first run) before the dashboard mounts
+function DashboardLoader({ user, dataKey, onLogout, onChangePassword }: DashboardLoaderProps) {
+  const [loaded, setLoaded] = useState<{ repository: Repository; stored: Partial<PersistedData>; cipher: DataCipher; syncState: SyncState } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  // Same fixed language as the auth screen; the user's choice is stored in the data being loaded
+  const t = TRANSLATIONS['zh'].auth;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    const cipher = createCipher(dataKey);
+    openRepository(user.id, cipher)
+      .then(async repository => {
+        const stored = await repository.load();
+        // Data saved before encryption loads as plaintext; rewrite it encrypted once
+        if (!isDataEncrypted(user.id)) {
+          if (Object.keys(stored).length > 0) await repository.replaceAll(stored);
+          markDataEncrypted(user.id);
+        }
+        const syncState = await loadSyncState(user.id, cipher);
+        if (!cancelled) setLoaded({ repository, stored, cipher, syncState });
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError(t.errors[(error as Error).message] || t.loadFailed);
+      });
+    return () => { cancelled = true; };
+  }, [user.id, dataKey, attempt]);
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-[#FAFAFA] flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl shadow-sm border border-gray-100 p-8 w-full max-w-sm text-center space-y-4">
+          <Logo className="w-12 h-12 mx-auto" />
+          <p className="text-sm font-bold text-rose-500">{loadError}</p>
+          <div className="flex justify-center gap-2">
+            <button onClick={() => setAttempt(attempt + 1)} className="bg-black text-white px-4 py-2 rounded-xl font-bold hover:bg-gray-800 transition-colors text-sm">{t.retry}</button>
+            <button onClick={onLogout} className="px-4 py-2 rounded-xl font-bold text-sm text-gray-500 hover:bg-gray-100">{t.logout}</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!loaded) {
+    return (
+      <div className="min-h-screen bg-[#FAFAFA] flex items-center justify-center">
+        <Logo className="w-12 h-12 animate-pulse" />
+      </div>
+    );
+  }
+  return <Dashboard user={user} onLogout={onLogout} onChangePassword={onChangePassword} repository={loaded.repository} stored={loaded.stored} cipher={loaded.cipher} storedSyncState={loaded.syncState} />;
+}
+
+// How often an open dashboard checks whether its session has run out
+const SESSION_CHECK_MS = 60 * 1000;
+
 export default function App() {
-  const [user, setUser] = useState<User | null>(() => {
-    const saved = localStorage.getItem('lt_current_user');
-    return saved ? JSON.parse(saved) : null;
-  });
-
-  const handleLogin = (u: User) => {
-    localStorage.setItem('lt_current_user', JSON.stringify(u));
-    setUser(u);
+  const [session, setSession] = useState<Session | null>(() => loadSession());
+  const [isExpired, setIsExpired] = useState(false);
+  // The data key is never stored unwrapped, so a reload asks for the password again
+  const [dataKey, setDataKey] = useState<CryptoKey | null>(null);
+
+  const handleLogin = async (s: Session, password: string) => {
+    const key = await unlockDataKey(s.user.id, password);
+    saveSession(s);
+    setIsExpired(false);
+    setDataKey(key);
+    setSession(s);
   }
 
   const handleLogout = () => {
-    localStorage.removeItem('lt_current_user');
-    setUser(null);
+    clearSession();
+    setDataKey(null);
+    setSession(null);
   }
 
-  if (!user) return <AuthScreen onLogin={handleLogin} />;
+  // The data key is re-wrapped under the new password in the same step
+  const handleChangePassword = async (currentPassword: string, newPassword: string) => {
+    if (!session || !dataKey) return;
+    const commitKeyRotation = await prepareKeyRotation(session.user.id, dataKey, newPassword);
+    await authProvider.changePassword(session.user, currentPassword, newPassword);
+    commitKeyRotation();
+  }
+
+  useEffect(() => {
+    if (!session) return;
+    const check = () => {
+      if (!isSessionExpired(session)) return;
+      clearSession();
+      setIsExpired(true);
+      setDataKey(null);
+      setSession(null);
+    };
+    const timer = setInterval(check, SESSION_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [session]);
+
+  if (!session) return <AuthScreen onLogin={handleLogin} notice={isExpired ? 'sessionExpired' : undefined} />;
   
-  return <Dashboard key={user.id} user={user} onLogout={handleLogout} />;
+  const user = session.user;
+  if (!dataKey) {
+    return <AuthScreen onLogin={handleLogin} notice="locked" lockedUser={user} onSwitchAccount={handleLogout} />;
+  }
+  return <DashboardLoader key={user.id} user={user} dataKey={dataKey} onLogout={handleLogout} onChangePassword={handleChangePassword} />;
 }
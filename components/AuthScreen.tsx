@@ -2,32 +2,53 @@ import React, { useState } from 'react';
 import { Logo } from './ui/Logo';
 import { TRANSLATIONS } from '../translations';
 import { User } from '../types';
+import { MIN_PASSWORD_LENGTH, Session, authProvider } from '../services/authService';
 
 interface AuthScreenProps {
-  onLogin: (user: User) => void;
+  // Gets the password too, to unlock the encrypted data; rejects with an error code
+  onLogin: (session: Session, password: string) => Promise<void>;
+  notice?: 'sessionExpired' | 'locked';
+  // Still signed in after a reload, but the data key only lives in memory
+  lockedUser?: User;
+  onSwitchAccount?: () => void;
 }
 
-export const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin }) => {
+export const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin, notice, lockedUser, onSwitchAccount }) => {
   const [isLogin, setIsLogin] = useState(true);
-  const [email, setEmail] = useState('');
+  const [email, setEmail] = useState(lockedUser?.email || '');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
-  
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
   // Hardcoded language for auth screen simplicity, or could pass it in
   const t = TRANSLATIONS['zh'].auth;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const switchMode = () => {
+    setIsLogin(!isLogin);
+    setError('');
+    setConfirmPassword('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Simulate Authentication
-    if (email && password) {
-      // In a real app, this would verify with backend
-      // Here we simulate getting a user object
-      const user: User = {
-        id: email.replace(/[^a-zA-Z0-9]/g, '_'), // Simple ID generation
-        email,
-        username: name || email.split('@')[0],
-      };
-      onLogin(user);
+    if (!email || !password || isSubmitting) return;
+    if (!isLogin && password !== confirmPassword) {
+      setError(t.errors.PASSWORD_MISMATCH);
+      return;
+    }
+
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const session = isLogin
+        ? await authProvider.login(email, password)
+        : await authProvider.register({ email, password, name });
+      await onLogin(session, password);
+    } catch (err) {
+      setError(t.errors[(err as Error).message] || t.errors.UNKNOWN);
+      setIsSubmitting(false);
     }
   };
 
@@ -43,6 +64,9 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin }) => {
         </div>
 
         <div className="p-8">
+            {notice && (
+                <p className="mb-5 bg-orange-50 border border-orange-100 rounded-xl px-4 py-3 text-sm font-bold text-orange-600">{t[notice]}</p>
+            )}
             <form onSubmit={handleSubmit} className="space-y-5">
                 {!isLogin && (
                     <div>
@@ -61,6 +85,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin }) => {
                     <input 
                         type="email" 
                         required
+                        readOnly={!!lockedUser}
                         value={email}
                         onChange={(e) => setEmail(e.target.value)}
                         className="w-full border-2 border-gray-100 rounded-xl px-4 py-3 bg-gray-50 font-bold focus:bg-white focus:border-black outline-none transition-all"
@@ -77,22 +102,39 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin }) => {
                         className="w-full border-2 border-gray-100 rounded-xl px-4 py-3 bg-gray-50 font-bold focus:bg-white focus:border-black outline-none transition-all"
                         placeholder="••••••••"
                     />
+                    {!isLogin && <p className="text-[10px] text-gray-400 mt-1">{t.passwordHint.replace('{n}', String(MIN_PASSWORD_LENGTH))}</p>}
                 </div>
+                {!isLogin && (
+                    <div>
+                        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">{t.confirmPassword}</label>
+                        <input 
+                            type="password" 
+                            required
+                            value={confirmPassword}
+                            onChange={(e) => setConfirmPassword(e.target.value)}
+                            className="w-full border-2 border-gray-100 rounded-xl px-4 py-3 bg-gray-50 font-bold focus:bg-white focus:border-black outline-none transition-all"
+                            placeholder="••••••••"
+                        />
+                    </div>
+                )}
+
+                {error && <p className="text-sm font-bold text-rose-500">{error}</p>}
 
                 <button 
                     type="submit" 
-                    className="w-full bg-black text-white py-4 rounded-xl font-bold text-lg hover:bg-gray-800 transition-transform active:scale-[0.98] shadow-lg shadow-black/20"
+                    disabled={isSubmitting}
+                    className="w-full bg-black text-white py-4 rounded-xl font-bold text-lg hover:bg-gray-800 transition-transform active:scale-[0.98] shadow-lg shadow-black/20 disabled:opacity-50"
                 >
-                    {isLogin ? t.submitLogin : t.submitRegister}
+                    {isSubmitting ? t.checking : isLogin ? t.submitLogin : t.submitRegister}
                 </button>
             </form>
 
             <div className="mt-6 text-center">
                 <button 
-                    onClick={() => setIsLogin(!isLogin)}
+                    onClick={lockedUser ? onSwitchAccount : switchMode}
                     className="text-sm font-bold text-gray-400 hover:text-black transition-colors"
                 >
-                    {isLogin ? t.switchRegister : t.switchLogin}
+                    {lockedUser ? t.switchAccount : isLogin ? t.switchRegister : t.switchLogin}
                 </button>
             </div>
         </div>
@@ -0,0 +1,218 @@
+import React, { useState, useRef } from 'react';
+import { X, Download, ArchiveRestore, Lock } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { COLLECTION_KEYS, PersistedData } from '../services/storageService';
+import {
+  BackupValidation,
+  createBackup,
+  createEncryptedBackup,
+  decryptBackup,
+  diffBackup,
+  getBackupFilename,
+  isEncryptedBackup,
+  parseBackup
+} from '../services/backupService';
+
+interface BackupManagerProps {
+  data: PersistedData;
+  onRestore: (data: PersistedData) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+export const BackupManager: React.FC<BackupManagerProps> = ({ data, onRestore, onClose, language }) => {
+  const [restore, setRestore] = useState<(BackupValidation & { fileName: string }) | null>(null);
+  const [encryptedFile, setEncryptedFile] = useState<{ fileName: string; text: string } | null>(null);
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const t = TRANSLATIONS[language];
+  const diff = restore?.data ? diffBackup(data, restore.data) : null;
+
+  const handleDownload = async () => {
+    if (isEncrypting && (!passphrase || passphrase !== confirmPassphrase)) {
+      setError(t.backup.passphraseMismatch);
+      return;
+    }
+    setError('');
+    setIsWorking(true);
+    const content = isEncrypting ? await createEncryptedBackup(data, passphrase) : createBackup(data);
+    setIsWorking(false);
+
+    const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getBackupFilename(new Date(), isEncrypting);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const text = reader.result as string;
+      setError('');
+      if (isEncryptedBackup(text)) {
+        setRestore(null);
+        setEncryptedFile({ fileName: file.name, text });
+      } else {
+        setEncryptedFile(null);
+        setRestore({ ...parseBackup(text), fileName: file.name });
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleDecrypt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!encryptedFile) return;
+    setError('');
+    setIsWorking(true);
+    try {
+      const text = await decryptBackup(encryptedFile.text, restorePassphrase);
+      setRestore({ ...parseBackup(text), fileName: encryptedFile.fileName });
+      setEncryptedFile(null);
+      setRestorePassphrase('');
+    } catch (err) {
+      const message = (err as Error).message;
+      setError(message === 'WRONG_PASSPHRASE' ? t.backup.wrongPassphrase : message);
+    }
+    setIsWorking(false);
+  };
+
+  const handleRestore = () => {
+    if (!restore?.data || !confirm(t.backup.confirmRestore)) return;
+    onRestore(restore.data);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in">
+      <div className="bg-white rounded-3xl w-full max-w-lg overflow-hidden shadow-2xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold">{t.backup.title}</h2>
+            <p className="text-xs text-gray-400 font-medium mt-1">{t.backup.subtitle}</p>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={handleDownload} disabled={isWorking} className="flex flex-col items-center gap-2 p-5 border-2 border-gray-100 rounded-2xl hover:border-black transition-all disabled:opacity-50">
+              <Download size={24} strokeWidth={1.5} />
+              <span className="text-sm font-bold">{t.backup.download}</span>
+            </button>
+            <input type="file" accept=".json,application/json" className="hidden" ref={fileInputRef} onChange={handleFileChange} />
+            <button onClick={() => fileInputRef.current?.click()} className="flex flex-col items-center gap-2 p-5 border-2 border-gray-100 rounded-2xl hover:border-black transition-all">
+              <ArchiveRestore size={24} strokeWidth={1.5} />
+              <span className="text-sm font-bold">{t.backup.restore}</span>
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm font-bold text-gray-700 cursor-pointer">
+              <input type="checkbox" checked={isEncrypting} onChange={e => setIsEncrypting(e.target.checked)} className="w-4 h-4 accent-black" />
+              <Lock size={14} />
+              {t.backup.encrypt}
+            </label>
+            {isEncrypting && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder={t.backup.passphrase} className="border-2 border-gray-100 rounded-xl px-3 py-2 text-sm font-bold outline-none focus:border-black" />
+                  <input type="password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} placeholder={t.backup.confirmPassphrase} className="border-2 border-gray-100 rounded-xl px-3 py-2 text-sm font-bold outline-none focus:border-black" />
+                </div>
+                <p className="text-[10px] text-gray-400">{t.backup.passphraseHint}</p>
+              </div>
+            )}
+          </div>
+
+          {encryptedFile && (
+            <form onSubmit={handleDecrypt} className="space-y-3 bg-gray-50 rounded-xl p-4">
+              <p className="text-xs text-gray-500 font-medium">
+                <span className="font-bold text-gray-800">{encryptedFile.fileName}</span> • {t.backup.encryptedFile}
+              </p>
+              <div className="flex gap-2">
+                <input type="password" required value={restorePassphrase} onChange={e => setRestorePassphrase(e.target.value)} placeholder={t.backup.passphrase} className="flex-1 border-2 border-gray-100 rounded-xl px-3 py-2 text-sm font-bold outline-none focus:border-black bg-white" />
+                <button type="submit" disabled={isWorking} className="bg-black text-white px-4 rounded-xl text-sm font-bold hover:bg-gray-800 disabled:opacity-50">
+                  {t.backup.unlock}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {isWorking && <p className="text-xs text-gray-400 font-bold">{t.backup.working}</p>}
+          {error && <p className="text-sm font-bold text-rose-500">{error}</p>}
+
+          {restore && (
+            <div className="space-y-4">
+              <div className="text-xs text-gray-500 font-medium">
+                <span className="font-bold text-gray-800">{restore.fileName}</span>
+                {restore.createdAt && ` • ${new Date(restore.createdAt).toLocaleString()}`}
+                {restore.schemaVersion > 0 && ` • ${t.backup.schema} v${restore.schemaVersion}`}
+              </div>
+
+              {restore.errors.length > 0 && (
+                <div className="bg-rose-50 border border-rose-100 rounded-xl p-4">
+                  <p className="text-sm font-bold text-rose-600 mb-2">{t.backup.invalid}</p>
+                  <ul className="text-xs text-rose-500 space-y-1 list-disc pl-4">
+                    {restore.errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              {diff && (
+                <>
+                  <div className="border border-gray-100 rounded-xl overflow-hidden">
+                    <table className="w-full text-left text-sm">
+                      <thead className="bg-gray-50 text-gray-500 text-xs uppercase font-bold tracking-wider">
+                        <tr>
+                          <th className="px-4 py-3"></th>
+                          <th className="px-4 py-3 text-right">{t.backup.added}</th>
+                          <th className="px-4 py-3 text-right">{t.backup.changed}</th>
+                          <th className="px-4 py-3 text-right">{t.backup.removed}</th>
+                          <th className="px-4 py-3 text-right">{t.backup.unchanged}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100 tabular-nums">
+                        {COLLECTION_KEYS.map(key => {
+                          const d = diff.collections[key];
+                          return (
+                            <tr key={key}>
+                              <td className="px-4 py-2 font-bold text-gray-800">{t.backup.collections[key]}</td>
+                              <td className={`px-4 py-2 text-right ${d.added ? 'text-emerald-600 font-bold' : 'text-gray-300'}`}>+{d.added}</td>
+                              <td className={`px-4 py-2 text-right ${d.changed ? 'text-orange-500 font-bold' : 'text-gray-300'}`}>~{d.changed}</td>
+                              <td className={`px-4 py-2 text-right ${d.removed ? 'text-rose-500 font-bold' : 'text-gray-300'}`}>-{d.removed}</td>
+                              <td className="px-4 py-2 text-right text-gray-400">{d.unchanged}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  {diff.settings.map(s => (
+                    <p key={s.key} className="text-xs text-gray-500 font-medium">
+                      {t.backup.settings[s.key]}: <span className="line-through">{s.from}</span> → <span className="font-bold text-gray-800">{s.to}</span>
+                    </p>
+                  ))}
+                  <p className="text-[10px] text-gray-400">{t.backup.replaceHint}</p>
+                  <button onClick={handleRestore} className="w-full bg-black text-white py-4 rounded-xl font-bold hover:bg-gray-800 transition-colors">
+                    {t.backup.replace}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Budget, Currency } from '../types';
+import { X, Trash2, Plus, Pencil } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { toMonthKey } from '../services/amortizationService';
+
+interface BudgetManagerProps {
+  budgets: Budget[];
+  categories: string[]; // Expense categories to offer, built-in and custom
+  baseCurrency: Currency;
+  onChange: (budgets: Budget[]) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+export const BudgetManager: React.FC<BudgetManagerProps> = ({ budgets, categories, baseCurrency, onChange, onClose, language }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [category, setCategory] = useState('');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState<Currency>(baseCurrency);
+  const [rollover, setRollover] = useState(false);
+  const [startMonth, setStartMonth] = useState(toMonthKey(new Date()));
+
+  const t = TRANSLATIONS[language];
+
+  // One budget per category; the one being edited keeps its own
+  const budgeted = new Set(budgets.filter(b => b.id !== editingId).map(b => b.category));
+  const available = categories.filter(c => !budgeted.has(c));
+
+  const resetForm = () => {
+    setEditingId(null);
+    setCategory('');
+    setAmount('');
+    setCurrency(baseCurrency);
+    setRollover(false);
+    setStartMonth(toMonthKey(new Date()));
+  };
+
+  const handleEdit = (budget: Budget) => {
+    setEditingId(budget.id);
+    setCategory(budget.category);
+    setAmount(String(budget.amount));
+    setCurrency(budget.currency);
+    setRollover(budget.rollover);
+    setStartMonth(budget.startMonth);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    const finalCategory = category.trim();
+    if (!finalCategory || budgeted.has(finalCategory) || !(value > 0)) return;
+
+    const budget: Budget = {
+      id: editingId ?? Math.random().toString(36).substr(2, 9),
+      category: finalCategory,
+      amount: value,
+      currency,
+      rollover,
+      startMonth,
+    };
+    onChange(editingId ? budgets.map(b => b.id === editingId ? budget : b) : [...budgets, budget]);
+    resetForm();
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm(t.budgets.confirmDelete)) return;
+    onChange(budgets.filter(b => b.id !== id));
+    if (editingId === id) resetForm();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in">
+      <div className="bg-white rounded-3xl w-full max-w-2xl overflow-hidden shadow-2xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold">{t.budgets.title}</h2>
+            <p className="text-xs text-gray-400 font-medium mt-1">{t.budgets.subtitle}</p>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="flex-1 min-w-[140px]">
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.category}</label>
+                <input
+                  list="budget-categories"
+                  required
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  placeholder={available[0]}
+                  className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm"
+                />
+                <datalist id="budget-categories">
+                  {available.map(c => <option key={c} value={c} />)}
+                </datalist>
+              </div>
+              <div className="w-32">
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.budgets.monthlyLimit}</label>
+                <input type="number" required min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="0.00" className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm" />
+              </div>
+              <div>
+                <select value={currency} onChange={(e) => setCurrency(e.target.value as Currency)} className="border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black bg-white text-sm">
+                  {Object.values(Currency).map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.budgets.startMonth}</label>
+                <input type="month" required value={startMonth} onChange={(e) => setStartMonth(e.target.value)} className="border-2 border-gray-100 rounded-xl px-3 py-2 font-medium outline-none focus:border-black text-sm" />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm font-bold text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={rollover} onChange={(e) => setRollover(e.target.checked)} className="w-4 h-4 accent-black" />
+                {t.budgets.rollover}
+              </label>
+              <div className="flex gap-2">
+                {editingId && (
+                  <button type="button" onClick={resetForm} className="px-4 py-2.5 rounded-xl font-bold text-sm text-gray-500 hover:bg-gray-100">{t.budgets.cancel}</button>
+                )}
+                <button type="submit" disabled={budgeted.has(category.trim())} className="bg-black text-white px-4 py-2.5 rounded-xl font-bold hover:bg-gray-800 transition-colors disabled:opacity-50 flex items-center gap-1 text-sm">
+                  {editingId ? t.common.save : <><Plus size={14} /> {t.budgets.add}</>}
+                </button>
+              </div>
+            </div>
+            {budgeted.has(category.trim()) && <p className="text-xs font-bold text-rose-500">{t.budgets.duplicate}</p>}
+          </form>
+
+          <div className="border border-gray-100 rounded-xl overflow-hidden">
+            {budgets.length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-400 italic">{t.budgets.empty}</p>
+            ) : (
+              <table className="w-full text-left text-sm">
+                <thead className="bg-gray-50 text-gray-500 text-xs uppercase font-bold tracking-wider">
+                  <tr>
+                    <th className="px-4 py-3">{t.form.category}</th>
+                    <th className="px-4 py-3 text-right">{t.budgets.monthlyLimit}</th>
+                    <th className="px-4 py-3">{t.budgets.startMonth}</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {budgets.map(b => (
+                    <tr key={b.id} className={editingId === b.id ? 'bg-gray-50' : ''}>
+                      <td className="px-4 py-2 font-bold text-gray-800">
+                        {b.category}
+                        {b.rollover && <span className="ml-2 text-[10px] font-bold uppercase tracking-wider text-indigo-500">{t.budgets.rolloverBadge}</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right font-bold tabular-nums">{b.amount.toLocaleString()} <span className="text-xs font-normal text-gray-400">{b.currency}</span></td>
+                      <td className="px-4 py-2 text-gray-500">{b.startMonth}</td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        <button onClick={() => handleEdit(b)} className="text-gray-300 hover:text-black transition-colors mr-2"><Pencil size={14} /></button>
+                        <button onClick={() => handleDelete(b.id)} className="text-gray-300 hover:text-rose-500 transition-colors"><Trash2 size={14} /></button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { CategoryDefinition, CategoryType, TransactionType } from '../types';
+import { X, Plus, Pencil, Archive, ArchiveRestore, Merge } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { CATEGORY_COLORS, findCategory, getCategoryLabel, getCategoryOptions } from '../services/categoryService';
+
+interface CategoryManagerProps {
+  categories: CategoryDefinition[];
+  // Adds or updates a category; a changed name is applied to every record using it
+  onSave: (category: CategoryDefinition) => void;
+  onMerge: (sourceId: string, targetId: string) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+const CATEGORY_TYPES: CategoryType[] = [TransactionType.EXPENSE, TransactionType.INCOME];
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onSave, onMerge, onClose, language }) => {
+  const [type, setType] = useState<CategoryType>(TransactionType.EXPENSE);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [labelEn, setLabelEn] = useState('');
+  const [labelZh, setLabelZh] = useState('');
+  const [parentId, setParentId] = useState('');
+  const [color, setColor] = useState(CATEGORY_COLORS[0]);
+  const [icon, setIcon] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+
+  const t = TRANSLATIONS[language];
+  const label = (c: CategoryDefinition) => getCategoryLabel(categories, c.name, language, c.type);
+
+  const options = getCategoryOptions(
+    showArchived ? categories.map(c => ({ ...c, archived: false })) : categories,
+    type
+  ).map(o => ({ ...o, category: categories.find(c => c.id === o.category.id)! }));
+  const editing = categories.find(c => c.id === editingId);
+  const hasChildren = !!editing && categories.some(c => c.parentId === editing.id);
+  // Only top-level categories can be parents, and not of themselves
+  const parents = categories.filter(c => c.type === type && !c.parentId && !c.archived && c.id !== editingId);
+  const duplicate = findCategory(categories, name.trim(), type);
+  const isDuplicate = !!duplicate && duplicate.id !== editingId;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setLabelEn('');
+    setLabelZh('');
+    setParentId('');
+    setColor(CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length]);
+    setIcon('');
+  };
+
+  const handleTypeChange = (next: CategoryType) => {
+    setType(next);
+    setMergingId(null);
+    resetForm();
+  };
+
+  const handleEdit = (category: CategoryDefinition) => {
+    setEditingId(category.id);
+    setName(category.name);
+    setLabelEn(category.labels?.en ?? '');
+    setLabelZh(category.labels?.zh ?? '');
+    setParentId(category.parentId ?? '');
+    setColor(category.color);
+    setIcon(category.icon ?? '');
+    setMergingId(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const finalName = name.trim();
+    if (!finalName || isDuplicate) return;
+    const labels = { ...(labelEn.trim() && { en: labelEn.trim() }), ...(labelZh.trim() && { zh: labelZh.trim() }) };
+    onSave({
+      ...editing,
+      id: editingId ?? Math.random().toString(36).substr(2, 9),
+      name: finalName,
+      type,
+      parentId: parentId || undefined,
+      color,
+      icon: icon.trim() || undefined,
+      labels: Object.keys(labels).length ? labels : undefined,
+    });
+    resetForm();
+  };
+
+  const handleMerge = (source: CategoryDefinition, targetId: string) => {
+    const target = categories.find(c => c.id === targetId);
+    if (!target) return;
+    if (!confirm(t.categories.confirmMerge.split('{source}').join(label(source)).replace('{target}', label(target)))) return;
+    onMerge(source.id, target.id);
+    setMergingId(null);
+    if (editingId === source.id) resetForm();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in">
+      <div className="bg-white rounded-3xl w-full max-w-2xl overflow-hidden shadow-2xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold">{t.categories.title}</h2>
+            <p className="text-xs text-gray-400 font-medium mt-1">{t.categories.subtitle}</p>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <div className="flex justify-between items-center">
+            <div className="flex bg-gray-100 p-1 rounded-xl">
+              {CATEGORY_TYPES.map(ct => (
+                <button key={ct} onClick={() => handleTypeChange(ct)} className={`px-4 py-1.5 text-sm font-bold rounded-lg transition-all ${type === ct ? 'bg-white shadow-sm text-black' : 'text-gray-400'}`}>
+                  {t.type[ct]}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-xs font-bold text-gray-500 cursor-pointer">
+              <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} className="w-4 h-4 accent-black" />
+              {t.categories.showArchived}
+            </label>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-3 bg-gray-50 rounded-2xl p-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.categories.name}</label>
+                <input required value={name} onChange={(e) => setName(e.target.value)} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm bg-white" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.categories.labelEn}</label>
+                <input value={labelEn} onChange={(e) => setLabelEn(e.target.value)} placeholder={name} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-medium outline-none focus:border-black text-sm bg-white" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.categories.labelZh}</label>
+                <input value={labelZh} onChange={(e) => setLabelZh(e.target.value)} placeholder={(TRANSLATIONS.zh.categoryNames as Record<string, string>)[name] ?? name} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-medium outline-none focus:border-black text-sm bg-white" />
+              </div>
+            </div>
+            {editing && editing.name !== name.trim() && name.trim() && <p className="text-xs font-medium text-gray-400">{t.categories.nameHint}</p>}
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.categories.parent}</label>
+                <select value={parentId} disabled={hasChildren} onChange={(e) => setParentId(e.target.value)} className="border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black bg-white text-sm disabled:opacity-50">
+                  <option value="">{t.categories.noParent}</option>
+                  {parents.map(p => <option key={p.id} value={p.id}>{label(p)}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.categories.icon}</label>
+                <input value={icon} onChange={(e) => setIcon(e.target.value)} maxLength={4} placeholder="🏷️" className="w-16 border-2 border-gray-100 rounded-xl px-3 py-2 text-center outline-none focus:border-black text-sm bg-white" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.categories.color}</label>
+                <div className="flex gap-1.5 py-2">
+                  {CATEGORY_COLORS.map(c => (
+                    <button key={c} type="button" onClick={() => setColor(c)} className={`w-5 h-5 rounded-full transition-transform ${color === c ? 'ring-2 ring-offset-2 ring-black scale-110' : ''}`} style={{ backgroundColor: c }} />
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-2 ml-auto">
+                {editingId && (
+                  <button type="button" onClick={resetForm} className="px-4 py-2 rounded-xl font-bold text-sm text-gray-500 hover:bg-gray-100">{t.categories.cancel}</button>
+                )}
+                <button type="submit" disabled={isDuplicate} className="bg-black text-white px-4 py-2 rounded-xl font-bold hover:bg-gray-800 transition-colors disabled:opacity-50 flex items-center gap-1 text-sm">
+                  {editingId ? t.common.save : <><Plus size={14} /> {t.categories.add}</>}
+                </button>
+              </div>
+            </div>
+            {isDuplicate && <p className="text-xs font-bold text-rose-500">{t.categories.duplicate}</p>}
+          </form>
+
+          <div className="border border-gray-100 rounded-xl divide-y divide-gray-100">
+            {options.map(({ category: c, depth }) => (
+              <div key={c.id} className={`flex items-center gap-3 px-4 py-2.5 ${editingId === c.id ? 'bg-gray-50' : ''} ${c.archived ? 'opacity-50' : ''}`} style={{ paddingLeft: `${16 + depth * 24}px` }}>
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: c.color }} />
+                <span className="w-5 text-center">{c.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <span className="font-bold text-sm text-gray-800">{label(c)}</span>
+                  {label(c) !== c.name && <span className="ml-2 text-xs text-gray-400">{c.name}</span>}
+                  {c.archived && <span className="ml-2 text-[10px] font-bold uppercase tracking-wider text-gray-400">{t.categories.archived}</span>}
+                </div>
+                {mergingId === c.id ? (
+                  <select autoFocus defaultValue="" onChange={(e) => handleMerge(c, e.target.value)} onBlur={() => setMergingId(null)} className="border-2 border-gray-100 rounded-lg px-2 py-1 font-bold outline-none focus:border-black bg-white text-xs">
+                    <option value="" disabled>{t.categories.merge}</option>
+                    {categories.filter(o => o.type === c.type && o.id !== c.id && !o.archived).map(o => <option key={o.id} value={o.id}>{label(o)}</option>)}
+                  </select>
+                ) : (
+                  <div className="flex items-center gap-2 whitespace-nowrap">
+                    <button onClick={() => handleEdit(c)} title={t.common.edit} className="text-gray-300 hover:text-black transition-colors"><Pencil size={14} /></button>
+                    <button onClick={() => setMergingId(c.id)} title={t.categories.merge} className="text-gray-300 hover:text-black transition-colors"><Merge size={14} /></button>
+                    <button onClick={() => onSave({ ...c, archived: !c.archived || undefined })} title={c.archived ? t.categories.unarchive : t.categories.archive} className="text-gray-300 hover:text-black transition-colors">
+                      {c.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { MIN_PASSWORD_LENGTH } from '../services/authService';
+
+interface ChangePasswordFormProps {
+  // Rejects with an AuthErrorCode message
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  onClose: () => void;
+  language: Language;
+}
+
+export const ChangePasswordForm: React.FC<ChangePasswordFormProps> = ({ onChangePassword, onClose, language }) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const t = TRANSLATIONS[language].auth;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+    if (newPassword !== confirmPassword) {
+      setError(t.errors.PASSWORD_MISMATCH);
+      return;
+    }
+
+    setError('');
+    setIsSubmitting(true);
+    try {
+      await onChangePassword(currentPassword, newPassword);
+      alert(t.passwordChanged);
+      onClose();
+    } catch (err) {
+      setError(t.errors[(err as Error).message] || t.errors.UNKNOWN);
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full border-2 border-gray-100 rounded-xl px-4 py-3 font-bold outline-none focus:border-black";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in">
+      <div className="bg-white rounded-3xl w-full max-w-md overflow-hidden shadow-2xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold">{t.changePassword}</h2>
+          <button onClick={onClose}><X className="text-gray-400" /></button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.currentPassword}</label>
+            <input type="password" required value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.newPassword}</label>
+            <input type="password" required value={newPassword} onChange={e => setNewPassword(e.target.value)} className={inputClass} />
+            <p className="text-[10px] text-gray-400 mt-1">{t.passwordHint.replace('{n}', String(MIN_PASSWORD_LENGTH))}</p>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.confirmPassword}</label>
+            <input type="password" required value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} className={inputClass} />
+          </div>
+
+          {error && <p className="text-sm font-bold text-rose-500">{error}</p>}
+
+          <button type="submit" disabled={isSubmitting} className="w-full bg-black text-white font-bold py-4 rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50">
+            {isSubmitting ? t.checking : t.save}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
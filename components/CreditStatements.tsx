@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { Account, CreditTerms, ExchangeRate, Transaction } from '../types';
+import { X } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { CreditStatement, DEFAULT_MINIMUM_PAYMENT_RATE, StatementStatus, getCreditSummary, getStatementRemaining } from '../services/creditService';
+
+interface CreditStatementsProps {
+  account: Account;
+  accounts: Account[];
+  transactions: Transaction[];
+  rates: ExchangeRate[];
+  onSaveTerms: (terms: CreditTerms) => void;
+  onPay: (statement: CreditStatement, amount: number) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+export const STATUS_STYLES: Record<StatementStatus, string> = {
+  PAID: 'bg-emerald-50 text-emerald-600',
+  DUE: 'bg-orange-50 text-orange-600',
+  PARTIAL: 'bg-gray-100 text-gray-600',
+  OVERDUE: 'bg-rose-50 text-rose-600',
+};
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const clampDay = (value: string) => Math.min(31, Math.max(1, parseInt(value) || 1));
+
+export const CreditStatements: React.FC<CreditStatementsProps> = ({ account, accounts, transactions, rates, onSaveTerms, onPay, onClose, language }) => {
+  const [limit, setLimit] = useState(account.credit ? String(account.credit.limit) : '');
+  const [closingDay, setClosingDay] = useState(String(account.credit?.closingDay ?? 1));
+  const [dueDay, setDueDay] = useState(String(account.credit?.dueDay ?? 10));
+  const [minimumRate, setMinimumRate] = useState(String(((account.credit?.minimumPaymentRate ?? DEFAULT_MINIMUM_PAYMENT_RATE) * 100)));
+
+  const t = TRANSLATIONS[language];
+
+  const summary = useMemo(
+    () => getCreditSummary(account, transactions, accounts, rates),
+    [account, transactions, accounts, rates]
+  );
+  const latest = summary?.statements[0];
+
+  const handleSaveTerms = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = parseFloat(minimumRate);
+    onSaveTerms({
+      limit: Math.max(0, parseFloat(limit) || 0),
+      closingDay: clampDay(closingDay),
+      dueDay: clampDay(dueDay),
+      minimumPaymentRate: rate > 0 && rate <= 100 ? rate / 100 : undefined,
+    });
+  };
+
+  const renderStatus = (status: StatementStatus) => (
+    <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${STATUS_STYLES[status]}`}>{t.credit.status[status]}</span>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in">
+      <div className="bg-white rounded-3xl w-full max-w-2xl overflow-hidden shadow-2xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold">{account.name} · {t.credit.statements}</h2>
+            <p className="text-xs text-gray-400 font-medium mt-1">{t.credit.subtitle.replace('{currency}', account.currency)}</p>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <form onSubmit={handleSaveTerms} className="space-y-3 bg-gray-50 rounded-2xl p-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.credit.limit}</label>
+                <input type="number" min="0" step="0.01" required value={limit} onChange={(e) => setLimit(e.target.value)} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm bg-white" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.credit.closingDay}</label>
+                <input type="number" min="1" max="31" required value={closingDay} onChange={(e) => setClosingDay(e.target.value)} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm bg-white" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.credit.dueDay}</label>
+                <input type="number" min="1" max="31" required value={dueDay} onChange={(e) => setDueDay(e.target.value)} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm bg-white" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.credit.minimumRate}</label>
+                <input type="number" min="0" max="100" step="0.1" value={minimumRate} onChange={(e) => setMinimumRate(e.target.value)} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm bg-white" />
+              </div>
+            </div>
+            <div className="flex justify-between items-center gap-4">
+              <p className="text-xs font-medium text-gray-400">{t.credit.termsHint}</p>
+              <button type="submit" className="bg-black text-white px-4 py-2 rounded-xl font-bold hover:bg-gray-800 transition-colors text-sm whitespace-nowrap">
+                {account.credit ? t.common.save : t.credit.setup}
+              </button>
+            </div>
+          </form>
+
+          {summary && account.credit && (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider">{t.credit.owed}</span>
+                  <span className="text-xl font-bold text-rose-500">{formatAmount(summary.owed)}</span>
+                </div>
+                <div>
+                  <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider">{t.credit.available}</span>
+                  <span className="text-xl font-bold">{formatAmount(summary.availableCredit)}</span>
+                  <span className="block text-[10px] font-bold text-gray-400">{t.credit.ofLimit.replace('{limit}', formatAmount(account.credit.limit))}</span>
+                </div>
+                <div>
+                  <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider">{t.credit.unbilled}</span>
+                  <span className="text-xl font-bold">{formatAmount(summary.unbilled)}</span>
+                  {summary.carriedIn > 0 && <span className="block text-[10px] font-bold text-gray-400">{t.credit.carriedIn.replace('{amount}', formatAmount(summary.carriedIn))}</span>}
+                </div>
+              </div>
+              <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${summary.utilization >= 0.9 ? 'bg-rose-500' : summary.utilization >= 0.5 ? 'bg-orange-400' : 'bg-black'}`} style={{ width: `${Math.min(100, summary.utilization * 100)}%` }} />
+              </div>
+
+              {latest && (
+                <div className="border border-gray-100 rounded-xl p-5 flex flex-wrap justify-between items-end gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.credit.statementBalance}</span>
+                      {renderStatus(latest.status)}
+                    </div>
+                    <span className="block text-3xl font-bold tracking-tight">{account.currency} {formatAmount(latest.balance)}</span>
+                    <p className="text-xs font-medium text-gray-500">
+                      {t.credit.dueDate} {new Date(latest.dueDate).toLocaleDateString()} · {t.credit.minimumPayment} {formatAmount(latest.minimumPayment)} · {t.credit.paid} {formatAmount(latest.paid)}
+                    </p>
+                  </div>
+                  {getStatementRemaining(latest) > 0 && (
+                    <button onClick={() => onPay(latest, getStatementRemaining(latest))} className="bg-black text-white px-5 py-2.5 rounded-xl font-bold hover:bg-gray-800 transition-colors text-sm">
+                      {t.credit.pay} {formatAmount(getStatementRemaining(latest))}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              <div className="border border-gray-100 rounded-xl overflow-hidden">
+                {summary.statements.length === 0 ? (
+                  <p className="p-6 text-center text-sm text-gray-400 italic">{t.credit.noStatements}</p>
+                ) : (
+                  <table className="w-full text-left text-sm">
+                    <thead className="bg-gray-50 text-gray-500 text-xs uppercase font-bold tracking-wider">
+                      <tr>
+                        <th className="px-4 py-3">{t.credit.closingDate}</th>
+                        <th className="px-4 py-3">{t.credit.dueDate}</th>
+                        <th className="px-4 py-3 text-right">{t.credit.charges}</th>
+                        <th className="px-4 py-3 text-right">{t.credit.statementBalance}</th>
+                        <th className="px-4 py-3 text-right">{t.credit.paid}</th>
+                        <th className="px-4 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {summary.statements.map(s => (
+                        <tr key={s.closingDate}>
+                          <td className="px-4 py-2 font-bold text-gray-800">{new Date(s.closingDate).toLocaleDateString()}</td>
+                          <td className="px-4 py-2 text-gray-500">{new Date(s.dueDate).toLocaleDateString()}</td>
+                          <td className="px-4 py-2 text-right tabular-nums text-gray-500">{formatAmount(s.charges)}</td>
+                          <td className="px-4 py-2 text-right tabular-nums font-bold">{formatAmount(s.balance)}</td>
+                          <td className="px-4 py-2 text-right tabular-nums text-emerald-600">{s.paid > 0 ? formatAmount(s.paid) : '—'}</td>
+                          <td className="px-4 py-2 text-right">{renderStatus(s.status)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState, useRef } from 'react';
+import { Currency, ExchangeRate } from '../types';
+import { X, Upload, RefreshCw, Trash2, Plus } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { fetchRateFeed, getRate, mergeRates, parseRatesCsv, removeRate, toDateKey } from '../services/exchangeRateService';
+
+interface ExchangeRateManagerProps {
+  rates: ExchangeRate[];
+  baseCurrency: Currency;
+  onChange: (rates: ExchangeRate[]) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+export const ExchangeRateManager: React.FC<ExchangeRateManagerProps> = ({ rates, baseCurrency, onChange, onClose, language }) => {
+  const [date, setDate] = useState(toDateKey());
+  const [from, setFrom] = useState<Currency>(baseCurrency === Currency.USD ? Currency.CNY : Currency.USD);
+  const [to, setTo] = useState<Currency>(baseCurrency);
+  const [rate, setRate] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const t = TRANSLATIONS[language];
+
+  const handleAddRate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(rate);
+    if (from === to || !(value > 0)) return;
+    onChange(mergeRates(rates, [{ date, from, to, rate: value, source: 'MANUAL' }]));
+    setRate('');
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const result = parseRatesCsv(reader.result as string);
+      onChange(mergeRates(rates, result.rates));
+      setMessage({
+        text: t.rates.imported.replace('{n}', String(result.rates.length)) + (result.errors.length ? ` ${t.rates.skipped.replace('{n}', String(result.errors.length))}` : ''),
+        isError: result.errors.length > 0,
+      });
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleFetchFeed = async () => {
+    setIsFetching(true);
+    try {
+      const feedRates = await fetchRateFeed();
+      onChange(mergeRates(rates, feedRates));
+      setMessage({ text: t.rates.imported.replace('{n}', String(feedRates.length)), isError: false });
+    } catch (error) {
+      console.error("Rate Feed Error:", error);
+      setMessage({ text: t.rates.feedError, isError: true });
+    }
+    setIsFetching(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in">
+      <div className="bg-white rounded-3xl w-full max-w-2xl overflow-hidden shadow-2xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold">{t.rates.title}</h2>
+            <p className="text-xs text-gray-400 font-medium mt-1">{t.rates.subtitle}</p>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          {/* Current rates to base currency */}
+          <div className="grid grid-cols-3 gap-2">
+            {Object.values(Currency).filter(c => c !== baseCurrency).map(c => (
+              <div key={c} className="bg-gray-50 rounded-xl px-3 py-2 border border-gray-100">
+                <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">1 {c}</span>
+                <span className="text-sm font-bold text-gray-800 tabular-nums">{getRate(rates, c, baseCurrency).toPrecision(5)} {baseCurrency}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Manual entry */}
+          <form onSubmit={handleAddRate} className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.date}</label>
+              <input type="date" required value={date} onChange={(e) => setDate(e.target.value)} className="border-2 border-gray-100 rounded-xl px-3 py-2 font-medium outline-none focus:border-black text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">1</label>
+              <select value={from} onChange={(e) => setFrom(e.target.value as Currency)} className="border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black bg-white text-sm">
+                {Object.values(Currency).map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <div className="flex-1 min-w-[100px]">
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">=</label>
+              <input type="number" required min="0" step="any" value={rate} onChange={(e) => setRate(e.target.value)} placeholder="7.20" className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm" />
+            </div>
+            <div>
+              <select value={to} onChange={(e) => setTo(e.target.value as Currency)} className="border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black bg-white text-sm">
+                {Object.values(Currency).map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <button type="submit" disabled={from === to} className="bg-black text-white px-4 py-2.5 rounded-xl font-bold hover:bg-gray-800 transition-colors disabled:opacity-50 flex items-center gap-1 text-sm">
+              <Plus size={14} /> {t.rates.add}
+            </button>
+          </form>
+
+          {/* Import */}
+          <div className="flex flex-wrap gap-2">
+            <input type="file" accept=".csv,text/csv" className="hidden" ref={fileInputRef} onChange={handleFileChange} />
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 text-gray-600 text-sm font-bold transition-all">
+              <Upload size={14} /> {t.rates.importCsv}
+            </button>
+            <button onClick={handleFetchFeed} disabled={isFetching} className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 text-gray-600 text-sm font-bold transition-all disabled:opacity-50">
+              <RefreshCw size={14} className={isFetching ? 'animate-spin' : ''} /> {t.rates.fetchFeed}
+            </button>
+          </div>
+          <p className="text-[10px] text-gray-400 -mt-4">{t.rates.csvHint}</p>
+          {message && <p className={`text-xs font-bold ${message.isError ? 'text-orange-600' : 'text-emerald-600'}`}>{message.text}</p>}
+
+          {/* Rate table */}
+          <div className="border border-gray-100 rounded-xl overflow-hidden">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 text-gray-500 text-xs uppercase font-bold tracking-wider">
+                <tr>
+                  <th className="px-4 py-3">{t.form.date}</th>
+                  <th className="px-4 py-3">{t.rates.pair}</th>
+                  <th className="px-4 py-3 text-right">{t.rates.rate}</th>
+                  <th className="px-4 py-3">{t.rates.source}</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rates.map(r => (
+                  <tr key={`${r.date}-${r.from}-${r.to}`} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 text-gray-600 font-medium">{r.date}</td>
+                    <td className="px-4 py-2 font-bold text-gray-800">{r.from} → {r.to}</td>
+                    <td className="px-4 py-2 text-right tabular-nums">{r.rate}</td>
+                    <td className="px-4 py-2 text-[10px] font-bold text-gray-400 uppercase">{r.source}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button onClick={() => onChange(removeRate(rates, r))} className="p-1 text-gray-300 hover:text-rose-600 transition-colors">
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rates.length === 0 && <div className="p-6 text-center text-gray-400 text-sm italic">{t.rates.empty}</div>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState, useMemo } from 'react';
+import { Account, ExchangeRate, Transaction } from '../types';
+import { X, Download } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { EXPORT_FORMATS, ExportFormat, exportTransactions, filterTransactions } from '../services/exportService';
+
+interface ExportDialogProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  rates: ExchangeRate[];
+  onClose: () => void;
+  language: Language;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ accounts, transactions, rates, onClose, language }) => {
+  const [format, setFormat] = useState<ExportFormat>('CSV');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [accountIds, setAccountIds] = useState<string[]>([]); // Empty means all accounts
+
+  const t = TRANSLATIONS[language];
+
+  const count = useMemo(
+    () => filterTransactions(transactions, { from, to, accountIds }).length,
+    [transactions, from, to, accountIds]
+  );
+
+  const toggleAccount = (id: string) => {
+    setAccountIds(accountIds.includes(id) ? accountIds.filter(a => a !== id) : [...accountIds, id]);
+  };
+
+  const handleExport = () => {
+    const file = exportTransactions(transactions, accounts, { format, from: from || undefined, to: to || undefined, accountIds }, rates);
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in">
+      <div className="bg-white rounded-3xl w-full max-w-md overflow-hidden shadow-2xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold">{t.exporter.title}</h2>
+            <p className="text-xs text-gray-400 font-medium mt-1">{t.exporter.subtitle}</p>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.exporter.format}</label>
+            <div className="grid grid-cols-4 gap-2">
+              {EXPORT_FORMATS.map(f => (
+                <button
+                  key={f}
+                  type="button"
+                  onClick={() => setFormat(f)}
+                  className={`py-2 rounded-xl text-sm font-bold border-2 transition-all ${format === f ? 'border-black bg-black text-white' : 'border-gray-100 text-gray-500 hover:border-gray-300'}`}
+                >
+                  {f}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-400 mt-2">{t.exporter.formatHints[format]}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.exporter.from}</label>
+              <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-medium outline-none focus:border-black text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.exporter.to}</label>
+              <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-medium outline-none focus:border-black text-sm" />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.account}</label>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => setAccountIds([])}
+                className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${accountIds.length === 0 ? 'bg-black text-white border-black' : 'bg-white text-gray-500 border-gray-200'}`}
+              >
+                {t.exporter.allAccounts}
+              </button>
+              {accounts.map(a => (
+                <button
+                  key={a.id}
+                  type="button"
+                  onClick={() => toggleAccount(a.id)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${accountIds.includes(a.id) ? 'bg-black text-white border-black' : 'bg-white text-gray-500 border-gray-200'}`}
+                >
+                  {a.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={count === 0}
+            className="w-full bg-black text-white py-4 rounded-xl font-bold hover:bg-gray-800 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Download size={18} /> {t.exporter.download.replace('{n}', String(count))}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
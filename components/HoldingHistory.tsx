@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, TooltipValueType } from 'recharts';
+import { Account, HoldingSnapshot } from '../types';
+import { X, Pencil, Trash2 } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { getAccountSnapshots, getHistoryHoldingNames, getHoldingHistory, updateHoldingSnapshot } from '../services/holdingHistoryService';
+
+interface HoldingHistoryProps {
+  account: Account;
+  snapshots: HoldingSnapshot[];
+  onSave: (snapshot: HoldingSnapshot) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+// Chart the whole account unless a holding is picked
+const ACCOUNT_SERIES = '';
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatAxis = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+const formatTooltip = (value?: TooltipValueType) => typeof value === 'number' ? formatAmount(value) : value;
+
+export const HoldingHistory: React.FC<HoldingHistoryProps> = ({ account, snapshots, onSave, onDelete, onClose, language }) => {
+  const [series, setSeries] = useState(ACCOUNT_SERIES);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [amounts, setAmounts] = useState<string[]>([]);
+
+  const t = TRANSLATIONS[language];
+
+  const names = useMemo(() => getHistoryHoldingNames(snapshots, account.id), [snapshots, account.id]);
+  const rows = useMemo(() => getAccountSnapshots(snapshots, account.id).reverse(), [snapshots, account.id]);
+  const chartData = useMemo(
+    () => getHoldingHistory(snapshots, account.id)
+      .filter(p => series === ACCOUNT_SERIES || p.byHolding[series] !== undefined)
+      .map(p => ({ date: p.date, value: series === ACCOUNT_SERIES ? p.balance : p.byHolding[series] })),
+    [snapshots, account.id, series]
+  );
+
+  const first = chartData[0];
+  const last = chartData[chartData.length - 1];
+  const change = first && last ? last.value - first.value : 0;
+
+  const startEdit = (snapshot: HoldingSnapshot) => {
+    setEditingId(snapshot.id);
+    setAmounts(snapshot.holdings.map(h => String(h.amount)));
+  };
+
+  const saveEdit = (snapshot: HoldingSnapshot) => {
+    onSave(updateHoldingSnapshot(snapshot, snapshot.holdings.map((h, i) => ({ ...h, amount: parseFloat(amounts[i]) || 0 }))));
+    setEditingId(null);
+  };
+
+  const handleDelete = (snapshot: HoldingSnapshot) => {
+    if (!confirm(t.holdingHistory.confirmDelete.replace('{date}', new Date(snapshot.date).toLocaleDateString()))) return;
+    onDelete(snapshot.id);
+    if (editingId === snapshot.id) setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in">
+      <div className="bg-white rounded-3xl w-full max-w-2xl overflow-hidden shadow-2xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold">{account.name} · {t.holdingHistory.title}</h2>
+            <p className="text-xs text-gray-400 font-medium mt-1">{t.holdingHistory.subtitle.replace('{currency}', account.currency)}</p>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          {rows.length === 0 ? (
+            <p className="p-6 text-center text-sm text-gray-400 italic">{t.holdingHistory.empty}</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap justify-between items-end gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.holdingHistory.show}</label>
+                  <select value={series} onChange={(e) => setSeries(e.target.value)} className="border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black bg-white text-sm">
+                    <option value={ACCOUNT_SERIES}>{t.holdingHistory.wholeAccount}</option>
+                    {names.map(name => <option key={name} value={name}>{name}</option>)}
+                  </select>
+                </div>
+                {first && last && first !== last && (
+                  <div className="text-right">
+                    <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider">{t.holdingHistory.change.replace('{date}', new Date(first.date).toLocaleDateString())}</span>
+                    <span className={`text-xl font-bold ${change >= 0 ? 'text-emerald-600' : 'text-rose-500'}`}>
+                      {change >= 0 ? '+' : '-'}{formatAmount(Math.abs(change))}
+                      {first.value !== 0 && <span className="ml-1 text-xs font-medium">({(change / Math.abs(first.value) * 100).toFixed(1)}%)</span>}
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              {chartData.length < 2 ? (
+                <p className="text-gray-400 text-sm italic py-12 text-center">{t.holdingHistory.notEnough}</p>
+              ) : (
+                <ResponsiveContainer width="100%" height={240}>
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F3F4F6" />
+                    <XAxis dataKey="date" tick={{ fontSize: 11 }} minTickGap={24} />
+                    <YAxis tickFormatter={formatAxis} tick={{ fontSize: 11 }} width={60} domain={['auto', 'auto']} />
+                    <Tooltip formatter={formatTooltip} />
+                    <Line type="monotone" dataKey="value" name={series || account.name} stroke={account.color} strokeWidth={2.5} dot={chartData.length <= 31} />
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+
+              <div className="border border-gray-100 rounded-xl divide-y divide-gray-100">
+                {rows.map(s => (
+                  <div key={s.id} className={`px-4 py-3 ${editingId === s.id ? 'bg-gray-50' : ''}`}>
+                    <div className="flex items-center gap-3">
+                      <span className="font-bold text-sm text-gray-800 flex-1">{new Date(s.date).toLocaleDateString()}</span>
+                      <span className="font-bold text-sm tabular-nums">{account.currency} {formatAmount(s.balance)}</span>
+                      <button onClick={() => editingId === s.id ? setEditingId(null) : startEdit(s)} title={t.common.edit} className="text-gray-300 hover:text-black transition-colors"><Pencil size={14} /></button>
+                      <button onClick={() => handleDelete(s)} title={t.holdingHistory.delete} className="text-gray-300 hover:text-rose-500 transition-colors"><Trash2 size={14} /></button>
+                    </div>
+                    {editingId === s.id ? (
+                      <div className="mt-3 space-y-2">
+                        {s.holdings.map((h, i) => (
+                          <div key={i} className="flex items-center gap-2">
+                            <span className="flex-1 text-xs font-medium text-gray-600 truncate">{h.name}</span>
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={amounts[i] ?? ''}
+                              onChange={(e) => setAmounts(amounts.map((a, j) => j === i ? e.target.value : a))}
+                              className="w-32 border-2 border-gray-100 rounded-xl px-3 py-1.5 font-bold outline-none focus:border-black text-sm bg-white text-right tabular-nums"
+                            />
+                          </div>
+                        ))}
+                        <div className="flex justify-end gap-2 pt-1">
+                          <button onClick={() => setEditingId(null)} className="px-4 py-2 rounded-xl font-bold text-sm text-gray-500 hover:bg-gray-100">{t.holdingHistory.cancel}</button>
+                          <button onClick={() => saveEdit(s)} className="bg-black text-white px-4 py-2 rounded-xl font-bold hover:bg-gray-800 transition-colors text-sm">{t.common.save}</button>
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-gray-400 mt-1 truncate">
+                        {s.holdings.map(h => `${h.name} ${formatAxis(h.amount)}`).join(' · ')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
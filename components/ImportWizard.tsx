@@ -0,0 +1,335 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Account, Currency, Transaction, TransactionType } from '../types';
+import { X, Upload, ChevronLeft, Save, TriangleAlert } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import {
+  AmountSign,
+  BUILT_IN_PRESETS,
+  DateOrder,
+  ImportPreset,
+  ParsedCsv,
+  decodeFile,
+  detectPreset,
+  mapRows,
+  parseCsv
+} from '../services/importService';
+
+interface ImportWizardProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  presets: ImportPreset[]; // User-saved presets
+  onSavePreset: (preset: ImportPreset) => void;
+  onImport: (transactions: Omit<Transaction, 'id'>[]) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+const OPTIONAL_COLUMNS = ['counterpartyColumn', 'categoryColumn', 'currencyColumn', 'directionColumn'] as const;
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ accounts, transactions, presets, onSavePreset, onImport, onClose, language }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [text, setText] = useState('');
+  const [accountId, setAccountId] = useState(accounts[0]?.id ?? '');
+  const [mapping, setMapping] = useState<ImportPreset>(BUILT_IN_PRESETS[0]);
+  const [presetName, setPresetName] = useState('');
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const t = TRANSLATIONS[language];
+  const allPresets = useMemo(() => [...BUILT_IN_PRESETS, ...presets], [presets]);
+  const account = accounts.find(a => a.id === accountId);
+
+  const parsed: ParsedCsv = useMemo(() => (text ? parseCsv(text, mapping) : { headers: [], rows: [] }), [text, mapping]);
+
+  const rows = useMemo(
+    () => (account ? mapRows(parsed, mapping, account.id, account.currency, transactions) : []),
+    [parsed, mapping, account, transactions]
+  );
+  const validRows = rows.filter(r => r.transaction);
+  const selectedRows = validRows.filter(r => !excluded.has(r.line));
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const content = decodeFile(await file.arrayBuffer());
+    setFileName(file.name);
+    setText(content);
+
+    const detected = detectPreset(parseCsv(content).headers, allPresets)
+      || allPresets.find(p => detectPreset(parseCsv(content, p).headers, [p]));
+    if (detected) setMapping(detected);
+    setStep('mapping');
+  };
+
+  const handlePresetChange = (id: string) => {
+    const preset = allPresets.find(p => p.id === id);
+    if (preset) setMapping(preset);
+  };
+
+  const updateMapping = (patch: Partial<ImportPreset>) => setMapping({ ...mapping, ...patch });
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    const preset = { ...mapping, id: `custom_${Date.now()}`, name: presetName.trim(), builtIn: false };
+    onSavePreset(preset);
+    setMapping(preset);
+    setPresetName('');
+  };
+
+  const goToPreview = () => {
+    // Pre-exclude rows that look like something already recorded
+    setExcluded(new Set(rows.filter(r => r.isDuplicate).map(r => r.line)));
+    setStep('preview');
+  };
+
+  const toggleRow = (line: number) => {
+    const next = new Set(excluded);
+    if (next.has(line)) next.delete(line); else next.add(line);
+    setExcluded(next);
+  };
+
+  const handleImport = () => {
+    onImport(selectedRows.map(r => r.transaction!));
+    onClose();
+  };
+
+  const columnSelect = (field: keyof ImportPreset, optional: boolean) => (
+    <select
+      value={(mapping[field] as string) || ''}
+      onChange={(e) => updateMapping({ [field]: e.target.value || undefined })}
+      className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 bg-white font-medium focus:border-black outline-none text-gray-700 text-sm"
+    >
+      {optional && <option value="">—</option>}
+      {!parsed.headers.includes(mapping[field] as string) && mapping[field] && <option value={mapping[field] as string}>{mapping[field] as string} ✕</option>}
+      {parsed.headers.map(h => <option key={h} value={h}>{h}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in">
+      <div className="bg-white rounded-3xl w-full max-w-4xl overflow-hidden shadow-2xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div className="flex items-center gap-2">
+            {step !== 'upload' && (
+              <button onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')} className="p-2 -ml-2 hover:bg-gray-100 rounded-full transition-colors">
+                <ChevronLeft size={20} />
+              </button>
+            )}
+            <div>
+              <h2 className="text-xl font-bold">{t.importer.title}</h2>
+              <p className="text-xs text-gray-400 font-medium mt-1">{t.importer.steps[step]}{fileName && ` • ${fileName}`}</p>
+            </div>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 max-h-[75vh] overflow-y-auto">
+          {step === 'upload' && (
+            <div className="space-y-5">
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.importer.targetAccount}</label>
+                <select
+                  value={accountId}
+                  onChange={(e) => setAccountId(e.target.value)}
+                  className="w-full border-2 border-gray-100 rounded-xl px-4 py-3 bg-white font-medium focus:border-black outline-none text-gray-700"
+                >
+                  {accounts.map(a => <option key={a.id} value={a.id}>{a.name} ({a.currency})</option>)}
+                </select>
+              </div>
+              <input type="file" accept=".csv,.txt,text/csv" className="hidden" ref={fileInputRef} onChange={handleFileChange} />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full border-2 border-dashed border-gray-200 rounded-2xl p-10 flex flex-col items-center justify-center text-gray-400 hover:border-black hover:text-black transition-all"
+              >
+                <Upload size={32} strokeWidth={1.5} className="mb-2" />
+                <span className="font-bold text-sm">{t.importer.chooseFile}</span>
+                <span className="text-xs mt-1">{t.importer.supported}</span>
+              </button>
+            </div>
+          )}
+
+          {step === 'mapping' && (
+            <div className="space-y-5">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.importer.preset}</label>
+                  <select
+                    value={allPresets.some(p => p.id === mapping.id) ? mapping.id : ''}
+                    onChange={(e) => handlePresetChange(e.target.value)}
+                    className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 bg-white font-bold focus:border-black outline-none text-sm"
+                  >
+                    {allPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.importer.targetAccount}</label>
+                  <select
+                    value={accountId}
+                    onChange={(e) => setAccountId(e.target.value)}
+                    className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 bg-white font-medium focus:border-black outline-none text-sm"
+                  >
+                    {accounts.map(a => <option key={a.id} value={a.id}>{a.name} ({a.currency})</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.date}</label>
+                  {columnSelect('dateColumn', false)}
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.amount}</label>
+                  {columnSelect('amountColumn', false)}
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.note}</label>
+                  {columnSelect('descriptionColumn', false)}
+                </div>
+                {OPTIONAL_COLUMNS.map(field => (
+                  <div key={field}>
+                    <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.importer.columns[field]}</label>
+                    {columnSelect(field, true)}
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.importer.amountSign}</label>
+                  <select
+                    value={mapping.amountSign}
+                    onChange={(e) => updateMapping({ amountSign: e.target.value as AmountSign })}
+                    className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 bg-white font-medium focus:border-black outline-none text-sm"
+                  >
+                    {(['SIGNED', 'POSITIVE_IS_EXPENSE', 'DIRECTION_COLUMN'] as AmountSign[]).map(v => <option key={v} value={v}>{t.importer.signs[v]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.importer.dateOrder}</label>
+                  <select
+                    value={mapping.dateOrder}
+                    onChange={(e) => updateMapping({ dateOrder: e.target.value as DateOrder })}
+                    className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 bg-white font-medium focus:border-black outline-none text-sm"
+                  >
+                    <option value="YMD">YYYY-MM-DD</option>
+                    <option value="MDY">MM/DD/YYYY</option>
+                    <option value="DMY">DD/MM/YYYY</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.currency}</label>
+                  <select
+                    value={mapping.defaultCurrency || ''}
+                    onChange={(e) => updateMapping({ defaultCurrency: (e.target.value as Currency) || undefined })}
+                    className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 bg-white font-medium focus:border-black outline-none text-sm"
+                  >
+                    <option value="">{t.importer.accountCurrency}</option>
+                    {Object.values(Currency).map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+                {mapping.amountSign === 'DIRECTION_COLUMN' && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.importer.incomeValues}</label>
+                      <input
+                        value={(mapping.incomeValues || []).join(', ')}
+                        onChange={(e) => updateMapping({ incomeValues: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                        className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-medium focus:border-black outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.importer.expenseValues}</label>
+                      <input
+                        value={(mapping.expenseValues || []).join(', ')}
+                        onChange={(e) => updateMapping({ expenseValues: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                        className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-medium focus:border-black outline-none text-sm"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div className="flex gap-2 items-center bg-gray-50 p-3 rounded-xl border border-gray-100">
+                <input
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder={t.importer.presetName}
+                  className="flex-1 border-2 border-gray-100 rounded-xl px-3 py-2 font-medium focus:border-black outline-none text-sm bg-white"
+                />
+                <button onClick={handleSavePreset} disabled={!presetName.trim()} className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 text-gray-600 text-sm font-bold disabled:opacity-50">
+                  <Save size={14} /> {t.importer.savePreset}
+                </button>
+              </div>
+
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-500 font-medium">{t.importer.rowSummary.replace('{valid}', String(validRows.length)).replace('{total}', String(rows.length))}</span>
+                <button
+                  onClick={goToPreview}
+                  disabled={validRows.length === 0}
+                  className="bg-black text-white px-6 py-3 rounded-xl font-bold hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  {t.importer.preview}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="border border-gray-100 rounded-xl overflow-hidden">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-gray-50 text-gray-500 text-xs uppercase font-bold tracking-wider">
+                    <tr>
+                      <th className="px-3 py-3"></th>
+                      <th className="px-3 py-3">{t.form.date}</th>
+                      <th className="px-3 py-3">{t.form.category}</th>
+                      <th className="px-3 py-3">{t.form.note}</th>
+                      <th className="px-3 py-3 text-right">{t.form.amount}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.map(r => r.transaction ? (
+                      <tr key={r.line} className={excluded.has(r.line) ? 'opacity-40' : ''}>
+                        <td className="px-3 py-2">
+                          <input type="checkbox" checked={!excluded.has(r.line)} onChange={() => toggleRow(r.line)} />
+                        </td>
+                        <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                          {new Date(r.transaction.date).toLocaleDateString()}
+                          {r.isDuplicate && <span className="block text-[10px] font-bold text-orange-500">{t.importer.duplicate}</span>}
+                        </td>
+                        <td className="px-3 py-2 font-bold text-gray-800">{r.transaction.category}</td>
+                        <td className="px-3 py-2 text-gray-500 max-w-[240px] truncate">{r.transaction.note}</td>
+                        <td className={`px-3 py-2 text-right font-bold tabular-nums ${r.transaction.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-gray-900'}`}>
+                          {r.transaction.type === TransactionType.INCOME ? '+' : '-'}{r.transaction.amount.toFixed(2)} <span className="text-xs text-gray-400">{r.transaction.currency}</span>
+                        </td>
+                      </tr>
+                    ) : (
+                      <tr key={r.line} className="bg-orange-50/40">
+                        <td className="px-3 py-2"><TriangleAlert size={14} className="text-orange-400" /></td>
+                        <td colSpan={4} className="px-3 py-2 text-xs text-orange-600 font-medium">#{r.line} {r.error}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-500 font-medium">{account?.name} • {t.importer.selected.replace('{n}', String(selectedRows.length))}</span>
+                <button
+                  onClick={handleImport}
+                  disabled={selectedRows.length === 0}
+                  className="bg-black text-white px-6 py-3 rounded-xl font-bold hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  {t.importer.import}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 import React, { useState, useRef } from 'react';
-import { Account, Currency, InvestmentHolding } from '../types';
-import { processInvestmentChat } from '../services/geminiService';
-import { Send, Image, Loader2, ArrowUpRight, ArrowDownRight, TrendingUp } from 'lucide-react';
+import { Account, CostBasisMethod, Currency, InvestmentHolding, InvestmentLot } from '../types';
+import { ChatTrade, processInvestmentChat } from '../services/geminiService';
+import { DEFAULT_COST_METHOD, addLot, findHolding, getHoldingPerformance, getPortfolioSummary, isOversell, mergeHoldings } from '../services/investmentService';
+import { Send, Image, Loader2, ArrowUpRight, ArrowDownRight, TrendingUp, ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
 import { TRANSLATIONS, Language } from '../translations';
 
 interface InvestmentChatProps {
@@ -12,6 +13,17 @@ interface InvestmentChatProps {
     language: Language;
 }
 
+const COST_METHODS: CostBasisMethod[] = ['FIFO', 'AVERAGE'];
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${formatAmount(value)}`;
+const formatRate = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+const gainClass = (value: number) => value > 0 ? 'text-emerald-500' : value < 0 ? 'text-rose-500' : 'text-gray-500';
+
+const isValidTrade = (trade: ChatTrade) =>
+    !!trade?.name && (trade.side === 'BUY' || trade.side === 'SELL') &&
+    trade.quantity > 0 && trade.price >= 0 && !isNaN(Date.parse(trade.date));
+
 export const InvestmentChat: React.FC<InvestmentChatProps> = ({ account, onUpdateAccount, onClose, baseCurrency, language }) => {
     const [messages, setMessages] = useState<{ role: 'user' | 'ai', content: string, image?: string }[]>([
         { role: 'ai', content: language === 'zh' ? `欢迎来到 ${account.name} 理财助手！我可以帮您更新持仓或分析理财产品。您可以发文字告诉我买了什么，或者直接上传理财软件的截图。` : `Welcome to ${account.name} Assistant! I can help track your portfolio. Tell me what you bought or upload a screenshot.` }
@@ -19,6 +31,25 @@ export const InvestmentChat: React.FC<InvestmentChatProps> = ({ account, onUpdat
     const [inputValue, setInputValue] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+    const [lotSide, setLotSide] = useState<InvestmentLot['side']>('BUY');
+    const [lotDate, setLotDate] = useState(new Date().toISOString().split('T')[0]);
+    const [lotQuantity, setLotQuantity] = useState('');
+    const [lotPrice, setLotPrice] = useState('');
+    const [lotFees, setLotFees] = useState('');
+    const [lotError, setLotError] = useState(false);
+
+    const t = TRANSLATIONS[language];
+
+    const saveHoldings = (holdings: InvestmentHolding[], isCheckIn = false) => {
+        onUpdateAccount({
+            ...account,
+            holdings,
+            // Calculate new balance based on holdings sum
+            balance: holdings.reduce((sum, h) => sum + h.amount, 0),
+            ...(isCheckIn && { lastCheckIn: new Date().toISOString() })
+        });
+    };
 
     const handleSendMessage = async (text: string, imageBase64: string | null) => {
         if (!text && !imageBase64) return;
@@ -40,15 +71,46 @@ export const InvestmentChat: React.FC<InvestmentChatProps> = ({ account, onUpdat
         setMessages(prev => [...prev, { role: 'ai', content: result.text }]);
 
         if (result.updatedHoldings) {
-            // Calculate new balance based on holdings sum
-            const newBalance = result.updatedHoldings.reduce((sum, h) => sum + h.amount, 0);
-            onUpdateAccount({
-                ...account,
-                holdings: result.updatedHoldings,
-                balance: newBalance,
-                lastCheckIn: new Date().toISOString()
-            });
+            // Trades mentioned in the chat become lots of the holding they name; sells of more than is held are dropped
+            const updated = result.trades.filter(isValidTrade).reduce((list, { name, ...trade }) => {
+                const holding = findHolding(list, { name, amount: 0 }) ?? { name, amount: trade.quantity * trade.price };
+                const lot: InvestmentLot = {
+                    ...trade,
+                    id: Math.random().toString(36).substr(2, 9),
+                    date: trade.date.split('T')[0],
+                    fees: Number(trade.fees) || 0,
+                };
+                return isOversell(holding, lot) ? list : addLot(list, holding, lot);
+            }, mergeHoldings(account.holdings || [], result.updatedHoldings));
+            saveHoldings(updated, true);
+        }
+    };
+
+    const updateHolding = (index: number, changes: Partial<InvestmentHolding>) =>
+        saveHoldings(holdings.map((h, i) => i === index ? { ...h, ...changes } : h));
+
+    const handleAddLot = (e: React.FormEvent, index: number) => {
+        e.preventDefault();
+        const quantity = parseFloat(lotQuantity);
+        const price = parseFloat(lotPrice);
+        if (!(quantity > 0) || !(price >= 0)) return;
+        const lot: InvestmentLot = {
+            id: Math.random().toString(36).substr(2, 9),
+            side: lotSide,
+            date: lotDate,
+            quantity,
+            price,
+            fees: Math.max(0, parseFloat(lotFees) || 0),
+        };
+        if (isOversell(holdings[index], lot)) {
+            setLotError(true);
+            return;
         }
+        setLotError(false);
+        saveHoldings(addLot(holdings, holdings[index], lot));
+        setLotQuantity('');
+        setLotPrice('');
+        setLotFees('');
     };
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -63,6 +125,7 @@ export const InvestmentChat: React.FC<InvestmentChatProps> = ({ account, onUpdat
     };
 
     const holdings = account.holdings || [];
+    const portfolio = getPortfolioSummary(holdings);
 
     return (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -79,6 +142,30 @@ export const InvestmentChat: React.FC<InvestmentChatProps> = ({ account, onUpdat
                         </div>
                     </div>
 
+                    {portfolio.tracked > 0 && (
+                        <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm mb-3 grid grid-cols-2 gap-3">
+                            <div>
+                                <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">{t.investments.costBasis}</span>
+                                <span className="text-sm font-bold">{formatAmount(portfolio.costBasis)}</span>
+                            </div>
+                            <div>
+                                <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">{t.investments.totalReturn}</span>
+                                <span className={`text-sm font-bold ${gainClass(portfolio.totalReturn)}`}>{formatSigned(portfolio.totalReturn)} · {formatRate(portfolio.returnRate)}</span>
+                            </div>
+                            <div>
+                                <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">{t.investments.unrealized}</span>
+                                <span className={`text-sm font-bold ${gainClass(portfolio.unrealized)}`}>{formatSigned(portfolio.unrealized)}</span>
+                            </div>
+                            <div>
+                                <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">{t.investments.realized}</span>
+                                <span className={`text-sm font-bold ${gainClass(portfolio.realized)}`}>{formatSigned(portfolio.realized)}</span>
+                            </div>
+                            {portfolio.tracked < holdings.length && (
+                                <p className="col-span-2 text-[10px] font-medium text-gray-400">{t.investments.untracked.replace('{count}', String(holdings.length - portfolio.tracked))}</p>
+                            )}
+                        </div>
+                    )}
+
                     <div className="flex-1 overflow-y-auto space-y-3 pr-2">
                         {holdings.length === 0 ? (
                             <div className="text-center text-gray-400 mt-10">
@@ -87,12 +174,18 @@ export const InvestmentChat: React.FC<InvestmentChatProps> = ({ account, onUpdat
                                 <p className="text-xs">Tell the AI what you bought!</p>
                             </div>
                         ) : (
-                            holdings.map((h, idx) => (
+                            holdings.map((h, idx) => {
+                                const performance = getHoldingPerformance(h);
+                                const isExpanded = expandedIndex === idx;
+                                return (
                                 <div key={idx} className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
-                                    <div className="flex justify-between items-start mb-1">
+                                    <button onClick={() => { setExpandedIndex(isExpanded ? null : idx); setLotError(false); }} className="w-full flex justify-between items-start mb-1 text-left">
                                         <span className="font-bold text-gray-800 text-sm line-clamp-1">{h.name}</span>
-                                        {h.quantity && <span className="text-xs text-gray-400">{h.quantity} units</span>}
-                                    </div>
+                                        <span className="flex items-center gap-1 text-xs text-gray-400 whitespace-nowrap">
+                                            {(performance?.quantity ?? h.quantity) ? `${performance?.quantity ?? h.quantity} units` : ''}
+                                            {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                                        </span>
+                                    </button>
                                     <div className="flex justify-between items-end">
                                         <span className="text-lg font-bold text-gray-900">{h.amount.toLocaleString()}</span>
                                         {h.dailyChange !== undefined && (
@@ -102,8 +195,68 @@ export const InvestmentChat: React.FC<InvestmentChatProps> = ({ account, onUpdat
                                             </div>
                                         )}
                                     </div>
+                                    {performance && (
+                                        <div className="flex justify-between text-[11px] font-medium text-gray-500 mt-1">
+                                            <span>{t.investments.averageCost} <span className="font-bold text-gray-700">{formatAmount(performance.averageCost)}</span></span>
+                                            <span className={`font-bold ${gainClass(performance.unrealized)}`}>{formatSigned(performance.unrealized)}</span>
+                                        </div>
+                                    )}
+
+                                    {isExpanded && (
+                                        <div className="mt-3 pt-3 border-t border-gray-100 space-y-3">
+                                            <div className="flex justify-between items-center">
+                                                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{t.investments.costMethod}</span>
+                                                <div className="flex bg-gray-100 p-0.5 rounded-lg">
+                                                    {COST_METHODS.map(m => (
+                                                        <button key={m} onClick={() => updateHolding(idx, { costMethod: m })} className={`px-2 py-0.5 text-[11px] font-bold rounded-md transition-all ${(h.costMethod ?? DEFAULT_COST_METHOD) === m ? 'bg-white shadow-sm text-black' : 'text-gray-400'}`}>
+                                                            {t.investments.methods[m]}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                            {performance && (
+                                                <div className="grid grid-cols-2 gap-2 text-[11px] font-medium text-gray-500">
+                                                    <span>{t.investments.costBasis} <span className="font-bold text-gray-700">{formatAmount(performance.costBasis)}</span></span>
+                                                    <span>{t.investments.realized} <span className={`font-bold ${gainClass(performance.realized)}`}>{formatSigned(performance.realized)}</span></span>
+                                                    <span className="col-span-2">{t.investments.totalReturn} <span className={`font-bold ${gainClass(performance.totalReturn)}`}>{formatSigned(performance.totalReturn)} · {formatRate(performance.returnRate)}</span></span>
+                                                </div>
+                                            )}
+                                            <div className="divide-y divide-gray-50">
+                                                {(h.lots ?? []).map(lot => (
+                                                    <div key={lot.id} className="flex items-center gap-2 py-1.5 text-[11px]">
+                                                        <span className={`font-bold uppercase px-1.5 rounded ${lot.side === 'BUY' ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>{t.investments.sides[lot.side]}</span>
+                                                        <span className="text-gray-400">{new Date(lot.date).toLocaleDateString()}</span>
+                                                        <span className="flex-1 text-right font-bold text-gray-700 tabular-nums">{lot.quantity} × {formatAmount(lot.price)}</span>
+                                                        {lot.fees > 0 && <span className="text-gray-400 tabular-nums">+{formatAmount(lot.fees)}</span>}
+                                                        <button onClick={() => updateHolding(idx, { lots: h.lots!.filter(l => l.id !== lot.id) })} className="text-gray-300 hover:text-rose-500 transition-colors"><X size={12} /></button>
+                                                    </div>
+                                                ))}
+                                                {!h.lots?.length && <p className="text-[11px] text-gray-400 italic py-1">{t.investments.noLots}</p>}
+                                            </div>
+                                            <form onSubmit={(e) => handleAddLot(e, idx)} className="bg-gray-50 rounded-lg p-2 space-y-2">
+                                                <div className="flex gap-2">
+                                                    <select value={lotSide} onChange={(e) => setLotSide(e.target.value as InvestmentLot['side'])} className="border-2 border-gray-100 rounded-lg px-1 py-1 bg-white font-bold outline-none focus:border-black text-xs">
+                                                        <option value="BUY">{t.investments.sides.BUY}</option>
+                                                        <option value="SELL">{t.investments.sides.SELL}</option>
+                                                    </select>
+                                                    <input type="date" required value={lotDate} onChange={(e) => setLotDate(e.target.value)} className="flex-1 min-w-0 border-2 border-gray-100 rounded-lg px-2 py-1 bg-white outline-none focus:border-black text-xs" />
+                                                </div>
+                                                <div className="flex gap-2">
+                                                    <input type="number" min="0" step="any" required value={lotQuantity} onChange={(e) => setLotQuantity(e.target.value)} placeholder={t.investments.quantity} className="w-full min-w-0 border-2 border-gray-100 rounded-lg px-2 py-1 bg-white outline-none focus:border-black text-xs" />
+                                                    <input type="number" min="0" step="any" required value={lotPrice} onChange={(e) => setLotPrice(e.target.value)} placeholder={t.investments.price} className="w-full min-w-0 border-2 border-gray-100 rounded-lg px-2 py-1 bg-white outline-none focus:border-black text-xs" />
+                                                    <input type="number" min="0" step="any" value={lotFees} onChange={(e) => setLotFees(e.target.value)} placeholder={t.investments.fees} className="w-full min-w-0 border-2 border-gray-100 rounded-lg px-2 py-1 bg-white outline-none focus:border-black text-xs" />
+                                                    <button type="submit" className="px-2 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors"><Plus size={14} /></button>
+                                                </div>
+                                                {lotError && <p className="text-[11px] font-bold text-rose-500">{t.investments.oversell}</p>}
+                                            </form>
+                                            {!!performance?.oversold && (
+                                                <p className="text-[11px] font-bold text-orange-500">{t.investments.oversold.replace('{quantity}', String(performance.oversold))}</p>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
-                            ))
+                                );
+                            })
                         )}
                     </div>
                 </div>
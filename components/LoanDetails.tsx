@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { Account, LoanTerms, RepaymentMethod } from '../types';
+import { X } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { PrepaymentMode, comparePrepayment, getLoanSummary } from '../services/loanService';
+
+interface LoanDetailsProps {
+  account: Account;
+  onSaveTerms: (terms: LoanTerms) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+const METHODS: RepaymentMethod[] = ['EQUAL_INSTALLMENT', 'EQUAL_PRINCIPAL'];
+const PREPAYMENT_MODES: PrepaymentMode[] = ['SHORTEN_TERM', 'REDUCE_PAYMENT'];
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const LoanDetails: React.FC<LoanDetailsProps> = ({ account, onSaveTerms, onClose, language }) => {
+  const [principal, setPrincipal] = useState(account.loan ? String(account.loan.principal) : String(Math.abs(account.balance) || ''));
+  const [annualRate, setAnnualRate] = useState(String(account.loan?.annualRate ?? ''));
+  const [termYears, setTermYears] = useState(account.loan ? String(account.loan.termMonths / 12) : '30');
+  const [method, setMethod] = useState<RepaymentMethod>(account.loan?.method ?? 'EQUAL_INSTALLMENT');
+  const [startDate, setStartDate] = useState(account.loan?.startDate ?? new Date().toISOString().split('T')[0]);
+  const [prepayAmount, setPrepayAmount] = useState('');
+  const [prepayPeriod, setPrepayPeriod] = useState('');
+  const [prepayMode, setPrepayMode] = useState<PrepaymentMode>('SHORTEN_TERM');
+
+  const t = TRANSLATIONS[language];
+  const terms = account.loan;
+
+  const summary = useMemo(() => terms && getLoanSummary(terms), [terms]);
+
+  const comparison = useMemo(() => {
+    const amount = parseFloat(prepayAmount);
+    if (!terms || !summary || !(amount > 0)) return null;
+    // Defaults to right after the next payment
+    const afterPeriod = Math.max(1, parseInt(prepayPeriod) || summary.paidPeriods + 1);
+    const result = comparePrepayment(terms, [{ afterPeriod, amount, mode: prepayMode }]);
+    return { ...result, newPayment: result.scenario.schedule[afterPeriod]?.payment ?? 0 };
+  }, [terms, summary, prepayAmount, prepayPeriod, prepayMode]);
+
+  const handleSaveTerms = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSaveTerms({
+      principal: Math.max(0, parseFloat(principal) || 0),
+      annualRate: Math.max(0, parseFloat(annualRate) || 0),
+      termMonths: Math.max(1, Math.round((parseFloat(termYears) || 0) * 12)),
+      method,
+      startDate,
+    });
+  };
+
+  const renderStat = (label: string, value: string, hint?: string, className = '') => (
+    <div>
+      <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider">{label}</span>
+      <span className={`text-xl font-bold ${className}`}>{value}</span>
+      {hint && <span className="block text-[10px] font-bold text-gray-400">{hint}</span>}
+    </div>
+  );
+
+  const paymentRange = summary && summary.schedule.length > 0
+    ? terms?.method === 'EQUAL_PRINCIPAL'
+      ? `${formatAmount(summary.schedule[0].payment)} → ${formatAmount(summary.schedule[summary.schedule.length - 1].payment)}`
+      : formatAmount(summary.schedule[0].payment)
+    : '—';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in">
+      <div className="bg-white rounded-3xl w-full max-w-2xl overflow-hidden shadow-2xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold">{account.name} · {t.loan.title}</h2>
+            <p className="text-xs text-gray-400 font-medium mt-1">{t.loan.subtitle.replace('{currency}', account.currency)}</p>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <form onSubmit={handleSaveTerms} className="space-y-3 bg-gray-50 rounded-2xl p-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.loan.principal}</label>
+                <input type="number" min="0" step="0.01" required value={principal} onChange={(e) => setPrincipal(e.target.value)} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm bg-white" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.loan.annualRate}</label>
+                <input type="number" min="0" step="0.01" required value={annualRate} onChange={(e) => setAnnualRate(e.target.value)} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm bg-white" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.loan.termYears}</label>
+                <input type="number" min="0.5" step="0.5" required value={termYears} onChange={(e) => setTermYears(e.target.value)} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm bg-white" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.loan.startDate}</label>
+                <input type="date" required value={startDate} onChange={(e) => setStartDate(e.target.value)} className="w-full border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm bg-white" />
+              </div>
+            </div>
+            <div className="flex flex-wrap justify-between items-center gap-4">
+              <div className="flex bg-gray-100 p-1 rounded-xl">
+                {METHODS.map(m => (
+                  <button key={m} type="button" onClick={() => setMethod(m)} className={`px-4 py-1.5 text-sm font-bold rounded-lg transition-all ${method === m ? 'bg-white shadow-sm text-black' : 'text-gray-400'}`}>
+                    {t.loan.methods[m]}
+                  </button>
+                ))}
+              </div>
+              <button type="submit" className="bg-black text-white px-4 py-2 rounded-xl font-bold hover:bg-gray-800 transition-colors text-sm whitespace-nowrap">
+                {terms ? t.common.save : t.loan.setup}
+              </button>
+            </div>
+            <p className="text-xs font-medium text-gray-400">{t.loan.methodHints[method]}</p>
+          </form>
+
+          {summary && terms && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {renderStat(t.loan.remaining, formatAmount(summary.remaining), t.loan.paidPeriods.replace('{paid}', String(summary.paidPeriods)).replace('{total}', String(summary.schedule.length)), 'text-rose-500')}
+                {renderStat(t.loan.monthlyPayment, paymentRange)}
+                {renderStat(t.loan.totalInterest, formatAmount(summary.totalInterest), t.loan.totalPaid.replace('{amount}', formatAmount(summary.totalPaid)))}
+                {renderStat(t.loan.payoffDate, new Date(summary.payoffDate).toLocaleDateString())}
+              </div>
+              <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full rounded-full bg-black" style={{ width: `${terms.principal > 0 ? Math.min(100, (1 - summary.remaining / terms.principal) * 100) : 0}%` }} />
+              </div>
+
+              {summary.next && (
+                <div className="border border-gray-100 rounded-xl p-5 space-y-1">
+                  <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.loan.nextPayment}</span>
+                  <span className="block text-3xl font-bold tracking-tight">{account.currency} {formatAmount(summary.next.payment)}</span>
+                  <p className="text-xs font-medium text-gray-500">
+                    {new Date(summary.next.date).toLocaleDateString()} · {t.loan.principalPart} {formatAmount(summary.next.principal)} · {t.loan.interest} {formatAmount(summary.next.interest)}
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-3 bg-gray-50 rounded-2xl p-4">
+                <h3 className="font-bold text-sm">{t.loan.prepayment}</h3>
+                <div className="flex flex-wrap items-end gap-2">
+                  <div>
+                    <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.loan.prepayAmount}</label>
+                    <input type="number" min="0" step="0.01" value={prepayAmount} onChange={(e) => setPrepayAmount(e.target.value)} className="w-32 border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm bg-white" />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.loan.prepayAfter}</label>
+                    <select value={prepayPeriod} onChange={(e) => setPrepayPeriod(e.target.value)} className="border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black bg-white text-sm">
+                      <option value="">{t.loan.nextPeriod}</option>
+                      {summary.schedule.slice(summary.paidPeriods, -1).map(p => (
+                        <option key={p.period} value={p.period}>#{p.period} · {new Date(p.date).toLocaleDateString()}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex bg-gray-100 p-1 rounded-xl">
+                    {PREPAYMENT_MODES.map(m => (
+                      <button key={m} type="button" onClick={() => setPrepayMode(m)} className={`px-3 py-1.5 text-xs font-bold rounded-lg transition-all ${prepayMode === m ? 'bg-white shadow-sm text-black' : 'text-gray-400'}`}>
+                        {t.loan.modes[m]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {comparison ? (
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 pt-2">
+                    {renderStat(t.loan.interestSaved, formatAmount(comparison.interestSaved), undefined, 'text-emerald-600')}
+                    {renderStat(t.loan.monthsSaved, String(comparison.monthsSaved))}
+                    {renderStat(t.loan.newPayment, formatAmount(comparison.newPayment))}
+                    {renderStat(t.loan.payoffDate, new Date(comparison.scenario.payoffDate).toLocaleDateString())}
+                  </div>
+                ) : (
+                  <p className="text-xs font-medium text-gray-400">{t.loan.prepaymentHint}</p>
+                )}
+              </div>
+
+              <div className="border border-gray-100 rounded-xl overflow-hidden max-h-96 overflow-y-auto">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-gray-50 text-gray-500 text-xs uppercase font-bold tracking-wider sticky top-0">
+                    <tr>
+                      <th className="px-4 py-3">#</th>
+                      <th className="px-4 py-3">{t.loan.date}</th>
+                      <th className="px-4 py-3 text-right">{t.loan.payment}</th>
+                      <th className="px-4 py-3 text-right">{t.loan.principalPart}</th>
+                      <th className="px-4 py-3 text-right">{t.loan.interest}</th>
+                      <th className="px-4 py-3 text-right">{t.loan.balance}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {summary.schedule.map(p => (
+                      <tr key={p.period} className={p.period <= summary.paidPeriods ? 'text-gray-400' : p.period === summary.next?.period ? 'bg-gray-50' : ''}>
+                        <td className="px-4 py-2 tabular-nums">{p.period}</td>
+                        <td className="px-4 py-2">{new Date(p.date).toLocaleDateString()}</td>
+                        <td className="px-4 py-2 text-right tabular-nums font-bold">{formatAmount(p.payment)}</td>
+                        <td className="px-4 py-2 text-right tabular-nums">{formatAmount(p.principal)}</td>
+                        <td className="px-4 py-2 text-right tabular-nums">{formatAmount(p.interest)}</td>
+                        <td className="px-4 py-2 text-right tabular-nums">{formatAmount(p.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, TooltipValueType, Legend } from 'recharts';
+import { AccountType, Currency, ExchangeRate, NetWorthSnapshot } from '../types';
+import { Card } from './ui/Card';
+import { TRANSLATIONS, Language } from '../translations';
+import { NetWorthChange, getNetWorthDeltas, getNetWorthHistory } from '../services/netWorthService';
+import { toDateKey } from '../services/exchangeRateService';
+
+interface NetWorthHistoryProps {
+  snapshots: NetWorthSnapshot[];
+  baseCurrency: Currency;
+  rates: ExchangeRate[];
+  language: Language;
+}
+
+type HistoryRange = '3M' | '1Y' | 'ALL';
+
+const RANGE_MONTHS: Record<HistoryRange, number | null> = { '3M': 3, '1Y': 12, 'ALL': null };
+
+const TYPE_COLORS: Record<AccountType, string> = {
+  [AccountType.SAVINGS]: '#10B981',
+  [AccountType.INVESTMENT]: '#3B82F6',
+  [AccountType.CREDIT]: '#F59E0B',
+  [AccountType.LOAN]: '#EF4444',
+};
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+const formatTooltip = (value?: TooltipValueType) => typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value;
+
+export const NetWorthHistory: React.FC<NetWorthHistoryProps> = ({ snapshots, baseCurrency, rates, language }) => {
+  const [range, setRange] = useState<HistoryRange>('1Y');
+
+  const t = TRANSLATIONS[language];
+
+  const history = useMemo(() => {
+    const months = RANGE_MONTHS[range];
+    const now = new Date();
+    const from = months === null ? undefined : toDateKey(new Date(now.getFullYear(), now.getMonth() - months, now.getDate()));
+    return getNetWorthHistory(snapshots, baseCurrency, rates, from).map(p => ({ date: p.date, total: p.total, ...p.byType }));
+  }, [snapshots, baseCurrency, rates, range]);
+
+  const deltas = useMemo(() => getNetWorthDeltas(snapshots, baseCurrency, rates), [snapshots, baseCurrency, rates]);
+
+  // Only types that held something in the range get a line
+  const types = Object.values(AccountType).filter(type => history.some(p => p[type] !== 0));
+
+  const renderDelta = (label: string, delta: NetWorthChange | null) => (
+    <div>
+      <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider">{label}</span>
+      {delta ? (
+        <span className={`text-sm font-bold ${delta.change >= 0 ? 'text-emerald-600' : 'text-rose-500'}`}>
+          {delta.change >= 0 ? '+' : '-'}{baseCurrency} {formatAmount(Math.abs(delta.change))}
+          {delta.ratio !== null && <span className="ml-1 text-xs font-medium">({(delta.ratio * 100).toFixed(1)}%)</span>}
+        </span>
+      ) : (
+        <span className="text-sm font-bold text-gray-300">—</span>
+      )}
+    </div>
+  );
+
+  return (
+    <Card
+      title={t.netWorthHistory.title}
+      className="lg:col-span-2"
+      action={
+        <div className="flex bg-gray-100 rounded-lg p-0.5">
+          {(Object.keys(RANGE_MONTHS) as HistoryRange[]).map(r => (
+            <button key={r} onClick={() => setRange(r)} className={`px-2.5 py-1 text-xs font-bold rounded-md ${range === r ? 'bg-white shadow-sm text-black' : 'text-gray-400'}`}>
+              {t.netWorthHistory.ranges[r]}
+            </button>
+          ))}
+        </div>
+      }
+    >
+      <div className="flex gap-8 mb-4">
+        {renderDelta(t.netWorthHistory.monthOverMonth, deltas.monthOverMonth)}
+        {renderDelta(t.netWorthHistory.yearOverYear, deltas.yearOverYear)}
+      </div>
+      {history.length < 2 ? (
+        <p className="text-gray-400 text-sm italic py-16 text-center">{t.netWorthHistory.empty}</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={280}>
+          <LineChart data={history}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F3F4F6" />
+            <XAxis dataKey="date" tick={{ fontSize: 11 }} minTickGap={24} />
+            <YAxis tickFormatter={formatAmount} tick={{ fontSize: 11 }} width={60} />
+            <Tooltip formatter={formatTooltip} />
+            <Legend />
+            <Line type="monotone" dataKey="total" name={t.common.netWorth} stroke="#111827" strokeWidth={2.5} dot={false} />
+            {types.map(type => (
+              <Line key={type} type="monotone" dataKey={type} name={t.accountType[type]} stroke={TYPE_COLORS[type]} strokeWidth={1.5} dot={false} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </Card>
+  );
+};
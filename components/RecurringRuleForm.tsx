@@ -0,0 +1,279 @@
+import React, { useState, useMemo } from 'react';
+import { Account, CategoryDefinition, CategoryType, Currency, RecurringFrequency, RecurringRule, TransactionType } from '../types';
+import { X, Calendar, Clock, Repeat } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { alignNextDueDate, getUpcomingOccurrences } from '../services/recurringService';
+import { getCategoryLabel, getCategoryOptions } from '../services/categoryService';
+
+interface RecurringRuleFormProps {
+  accounts: Account[];
+  rule?: RecurringRule | null; // When set, the form edits this rule
+  categories: CategoryDefinition[];
+  baseCurrency: Currency;
+  onSave: (data: Omit<RecurringRule, 'id'>) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+const FREQUENCIES: RecurringFrequency[] = ['WEEKLY', 'BIWEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY', 'CUSTOM'];
+
+const toDateInput = (iso?: string) => (iso ? iso.split('T')[0] : '');
+
+export const RecurringRuleForm: React.FC<RecurringRuleFormProps> = ({ accounts, rule, categories: definitions, baseCurrency, onSave, onClose, language }) => {
+  const [type, setType] = useState<CategoryType>(rule?.type === TransactionType.INCOME ? TransactionType.INCOME : TransactionType.EXPENSE);
+  const [name, setName] = useState(rule?.name ?? '');
+  const [amount, setAmount] = useState<string>(rule ? String(rule.amount) : '');
+  const [currency, setCurrency] = useState<Currency>(rule?.currency ?? baseCurrency);
+  const [category, setCategory] = useState(rule?.category ?? getCategoryOptions(definitions, TransactionType.EXPENSE)[0]?.category.name ?? '');
+  const [accountId, setAccountId] = useState(rule?.accountId ?? accounts.find(a => a.currency === (rule?.currency ?? baseCurrency))?.id ?? accounts[0]?.id ?? '');
+  const [frequency, setFrequency] = useState<RecurringFrequency>(rule?.frequency ?? 'MONTHLY');
+  const [intervalDays, setIntervalDays] = useState<number>(rule?.intervalDays ?? 30);
+  const [startDate, setStartDate] = useState(toDateInput(rule?.startDate || rule?.nextDueDate) || toDateInput(new Date().toISOString()));
+  const [endDate, setEndDate] = useState(toDateInput(rule?.endDate));
+  const [createAsPending, setCreateAsPending] = useState(!!rule?.createAsPending);
+
+  const t = TRANSLATIONS[language];
+  const categories = getCategoryOptions(definitions, type, rule?.category).map(o => o.category.name);
+
+  const handleTypeChange = (val: CategoryType) => {
+    if (val === type) return;
+    setType(val);
+    setCategory(getCategoryOptions(definitions, val)[0]?.category.name ?? '');
+  };
+
+  // The rule as it would be saved, including where its schedule continues from
+  const draft = useMemo((): Omit<RecurringRule, 'id'> => {
+    const startIso = new Date(startDate || Date.now()).toISOString();
+    const base = {
+      name: name.trim(),
+      amount: parseFloat(amount) || 0,
+      currency,
+      category,
+      type,
+      frequency,
+      intervalDays: frequency === 'CUSTOM' ? Math.max(1, intervalDays) : undefined,
+      startDate: startIso,
+      endDate: endDate ? new Date(endDate).toISOString() : undefined,
+      createAsPending,
+      isPaused: rule?.isPaused,
+      lastRunDate: rule?.lastRunDate,
+      accountId,
+      nextDueDate: startIso,
+    };
+    if (!rule) return base;
+
+    const scheduleChanged = rule.frequency !== base.frequency
+      || rule.intervalDays !== base.intervalDays
+      || toDateInput(rule.startDate || rule.nextDueDate) !== startDate;
+    // Keep the schedule position; a changed schedule continues from the old due date without backfilling
+    return { ...base, nextDueDate: scheduleChanged ? alignNextDueDate({ ...base, id: rule.id }, rule.nextDueDate) : rule.nextDueDate };
+  }, [name, amount, currency, category, type, frequency, intervalDays, startDate, endDate, createAsPending, accountId, rule]);
+
+  const upcoming = useMemo(() => (startDate ? getUpcomingOccurrences({ ...draft, id: rule?.id ?? '' }, 5) : []), [draft, startDate]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name || !draft.accountId) return;
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 transition-all">
+      <div className="bg-white rounded-3xl w-full max-w-lg overflow-hidden shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <h2 className="text-2xl font-bold text-gray-800">{rule ? t.recurring.editRule : t.recurring.newRule}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full text-gray-500 hover:text-gray-700 hover:bg-gray-200 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5 max-h-[80vh] overflow-y-auto">
+          {/* Type Toggle */}
+          <div className="grid grid-cols-2 gap-2 bg-gray-50 p-1.5 rounded-xl border border-gray-100">
+            {([TransactionType.EXPENSE, TransactionType.INCOME] as CategoryType[]).map((val) => (
+              <button
+                key={val}
+                type="button"
+                className={`py-2.5 text-sm font-bold rounded-lg transition-all ${
+                  type === val
+                    ? 'bg-white shadow-sm text-black ring-1 ring-black/5'
+                    : 'text-gray-400 hover:text-gray-600'
+                }`}
+                onClick={() => handleTypeChange(val)}
+              >
+                {t.type[val]}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.recurring.name}</label>
+            <input
+              required
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full border-2 border-gray-100 rounded-xl px-4 py-3 font-bold focus:border-black outline-none text-gray-800"
+              placeholder={t.recurring.namePlaceholder}
+            />
+          </div>
+
+          {/* Amount & Currency */}
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.amount}</label>
+              <input
+                type="number"
+                required
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full border-2 border-gray-100 rounded-xl px-4 py-3 text-xl font-bold focus:border-black outline-none text-gray-800 placeholder-gray-200"
+                placeholder="0.00"
+                step="0.01"
+              />
+            </div>
+            <div className="w-1/3">
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.currency}</label>
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value as Currency)}
+                className="w-full border-2 border-gray-100 rounded-xl px-3 py-3.5 bg-white font-semibold focus:border-black outline-none text-gray-800"
+              >
+                {Object.values(Currency).map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Account & Category */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.account}</label>
+              <select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="w-full border-2 border-gray-100 rounded-xl px-3 py-3 bg-white font-medium focus:border-black outline-none text-gray-700 text-sm"
+              >
+                {accounts.map((a) => (
+                  <option key={a.id} value={a.id}>{a.name} ({a.currency})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.category}</label>
+              <input
+                required
+                list="recurring-categories"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="w-full border-2 border-gray-100 rounded-xl px-3 py-3 bg-white font-medium focus:border-black outline-none text-gray-700 text-sm"
+              />
+              <datalist id="recurring-categories">
+                {categories.map((c) => <option key={c} value={c}>{getCategoryLabel(definitions, c, language, type)}</option>)}
+              </datalist>
+            </div>
+          </div>
+
+          {/* Frequency */}
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.recurring.frequency}</label>
+            <div className="grid grid-cols-3 gap-2">
+              {FREQUENCIES.map((f) => (
+                <button
+                  key={f}
+                  type="button"
+                  onClick={() => setFrequency(f)}
+                  className={`py-2 text-xs font-bold rounded-lg border-2 transition-all ${frequency === f ? 'border-black bg-black text-white' : 'border-gray-100 text-gray-500 hover:border-gray-300'}`}
+                >
+                  {t.frequency[f]}
+                </button>
+              ))}
+            </div>
+            {frequency === 'CUSTOM' && (
+              <div className="flex items-center gap-3 mt-3 animate-in fade-in">
+                <Repeat size={16} className="text-gray-400" />
+                <span className="text-sm font-medium text-gray-600">{t.recurring.intervalDays}</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={intervalDays}
+                  onChange={(e) => setIntervalDays(parseInt(e.target.value) || 1)}
+                  className="w-24 border-2 border-gray-100 rounded-xl px-3 py-2 font-bold focus:border-black outline-none text-gray-800"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Dates */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.recurring.startDate}</label>
+              <div className="relative">
+                <Calendar className="absolute left-4 top-3.5 text-gray-400" size={18} />
+                <input
+                  type="date"
+                  required
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="w-full border-2 border-gray-100 rounded-xl pl-10 pr-2 py-3 bg-white font-medium focus:border-black outline-none text-gray-700 text-sm"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.recurring.endDate}</label>
+              <div className="relative">
+                <Calendar className="absolute left-4 top-3.5 text-gray-400" size={18} />
+                <input
+                  type="date"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="w-full border-2 border-gray-100 rounded-xl pl-10 pr-2 py-3 bg-white font-medium focus:border-black outline-none text-gray-700 text-sm"
+                />
+              </div>
+              {!endDate && <p className="text-[10px] text-gray-400 mt-1">{t.recurring.noEndDate}</p>}
+            </div>
+          </div>
+
+          {/* Review as Pending */}
+          <div className="bg-gray-50 rounded-xl p-3 border border-gray-100">
+            <div className="flex items-center justify-between cursor-pointer" onClick={() => setCreateAsPending(!createAsPending)}>
+              <div className="flex items-center gap-2">
+                <Clock size={16} className={createAsPending ? "text-orange-500" : "text-gray-400"} />
+                <label className={`text-sm font-bold cursor-pointer ${createAsPending ? "text-orange-800" : "text-gray-600"}`}>
+                  {t.common.reviewAsPending}
+                </label>
+              </div>
+              <div className={`w-10 h-6 rounded-full p-1 transition-colors ${createAsPending ? 'bg-orange-400' : 'bg-gray-300'}`}>
+                <div className={`bg-white w-4 h-4 rounded-full shadow-sm transform transition-transform ${createAsPending ? 'translate-x-4' : ''}`}></div>
+              </div>
+            </div>
+            <p className="text-[10px] text-gray-500 mt-2 pl-6">{t.recurring.pendingHint}</p>
+          </div>
+
+          {/* Upcoming Occurrences */}
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.recurring.upcoming}</label>
+            <div className="flex flex-wrap gap-2">
+              {upcoming.length === 0 ? <span className="text-sm text-gray-400 italic">{t.recurring.noUpcoming}</span> :
+                upcoming.map(d => (
+                  <span key={d} className="text-xs font-bold bg-gray-100 text-gray-600 px-2 py-1 rounded-lg">
+                    {new Date(d).toLocaleDateString()}
+                  </span>
+                ))
+              }
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            className="w-full bg-black text-white py-4 rounded-xl font-bold hover:bg-gray-800 transition-all shadow-lg active:scale-[0.98]"
+          >
+            {t.common.save}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
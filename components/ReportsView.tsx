@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  PieChart,
+  Pie,
+  Cell,
+  Treemap,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  TooltipValueType,
+  Legend
+} from 'recharts';
+import { Account, CategoryDefinition, Currency, ExchangeRate, NetWorthSnapshot, Transaction, TransactionType } from '../types';
+import { Card } from './ui/Card';
+import { NetWorthHistory } from './NetWorthHistory';
+import { TRANSLATIONS, Language } from '../translations';
+import {
+  ReportFilter,
+  getBalanceHistory,
+  getCategoryTotals,
+  getDefaultReportFilter,
+  getMonthlyFlows,
+  getTagTotals
+} from '../services/reportService';
+import { findCategory, getCategoryLabel } from '../services/categoryService';
+
+interface ReportsViewProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  snapshots: NetWorthSnapshot[];
+  categories: CategoryDefinition[];
+  baseCurrency: Currency;
+  rates: ExchangeRate[];
+  language: Language;
+}
+
+export const CHART_COLORS = ['#111827', '#10B981', '#3B82F6', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#6B7280', '#84CC16'];
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+const formatTooltip = (value?: TooltipValueType) => typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value;
+
+export const ReportsView: React.FC<ReportsViewProps> = ({ accounts, transactions, snapshots, categories, baseCurrency, rates, language }) => {
+  const [filter, setFilter] = useState<ReportFilter>(() => getDefaultReportFilter());
+  const [categoryChart, setCategoryChart] = useState<'pie' | 'treemap'>('pie');
+
+  const t = TRANSLATIONS[language];
+
+  const update = (changes: Partial<ReportFilter>) => setFilter({ ...filter, ...changes });
+
+  const toggleAccount = (id: string) =>
+    update({ accountIds: filter.accountIds.includes(id) ? filter.accountIds.filter(a => a !== id) : [...filter.accountIds, id] });
+
+  const flows = useMemo(() => getMonthlyFlows(transactions, filter, baseCurrency, rates), [transactions, filter, baseCurrency, rates]);
+  // Labelled in the current language and colored like the category
+  const categoryTotals = useMemo(
+    () => getCategoryTotals(transactions, filter, baseCurrency, rates, TransactionType.EXPENSE, categories).map((c, i) => ({
+      ...c,
+      name: getCategoryLabel(categories, c.name, language, TransactionType.EXPENSE),
+      fill: findCategory(categories, c.name, TransactionType.EXPENSE)?.color ?? CHART_COLORS[i % CHART_COLORS.length],
+    })),
+    [transactions, filter, baseCurrency, rates, categories, language]
+  );
+  const tags = useMemo(() => getTagTotals(transactions, filter, baseCurrency, rates).slice(0, 12), [transactions, filter, baseCurrency, rates]);
+  const balances = useMemo(() => getBalanceHistory(accounts, transactions, filter, baseCurrency, rates), [accounts, transactions, filter, baseCurrency, rates]);
+
+  const chartAccounts = accounts.filter(a =>
+    (filter.accountIds.length === 0 || filter.accountIds.includes(a.id)) &&
+    (filter.currency === 'ALL' || a.currency === filter.currency));
+  const totals = flows.reduce((sum, f) => ({ income: sum.income + f.income, expense: sum.expense + f.expense }), { income: 0, expense: 0 });
+
+  const empty = <p className="text-gray-400 text-sm italic py-16 text-center">{t.reports.noData}</p>;
+
+  return (
+    <div className="space-y-6 animate-in fade-in">
+      <div className="flex justify-between items-end flex-wrap gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">{t.nav.reports}</h2>
+          <p className="text-xs text-gray-400 font-medium mt-1">{t.reports.subtitle.replace('{currency}', baseCurrency)}</p>
+        </div>
+        <div className="flex gap-4 text-sm font-bold">
+          <span className="text-emerald-600">+{formatAmount(totals.income)}</span>
+          <span className="text-gray-900">-{formatAmount(totals.expense)}</span>
+          <span className={totals.income - totals.expense >= 0 ? 'text-emerald-600' : 'text-rose-500'}>= {formatAmount(totals.income - totals.expense)} {baseCurrency}</span>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 space-y-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">{t.reports.from}</label>
+            <input type="month" value={filter.from} max={filter.to} onChange={(e) => e.target.value && update({ from: e.target.value })} className="border-2 border-gray-100 rounded-xl px-3 py-1.5 font-medium outline-none focus:border-black text-sm" />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">{t.reports.to}</label>
+            <input type="month" value={filter.to} min={filter.from} onChange={(e) => e.target.value && update({ to: e.target.value })} className="border-2 border-gray-100 rounded-xl px-3 py-1.5 font-medium outline-none focus:border-black text-sm" />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">{t.form.currency}</label>
+            <select value={filter.currency} onChange={(e) => update({ currency: e.target.value as ReportFilter['currency'] })} className="border-2 border-gray-100 rounded-xl px-3 py-1.5 font-bold outline-none focus:border-black bg-white text-sm">
+              <option value="ALL">{t.reports.allCurrencies}</option>
+              {Object.values(Currency).map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer pb-2">
+            <input type="checkbox" checked={filter.includePending} onChange={(e) => update({ includePending: e.target.checked })} className="w-4 h-4 accent-black" />
+            {t.reports.includePending}
+          </label>
+          <label className="flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer pb-2">
+            <input type="checkbox" checked={filter.spreadAmortized} onChange={(e) => update({ spreadAmortized: e.target.checked })} className="w-4 h-4 accent-black" />
+            {t.reports.spreadAmortized}
+          </label>
+          <label className="flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer pb-2">
+            <input type="checkbox" checked={filter.rollupCategories} onChange={(e) => update({ rollupCategories: e.target.checked })} className="w-4 h-4 accent-black" />
+            {t.categories.rollup}
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => update({ accountIds: [] })}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${filter.accountIds.length === 0 ? 'bg-black text-white border-black' : 'bg-white text-gray-500 border-gray-200'}`}
+          >
+            {t.exporter.allAccounts}
+          </button>
+          {accounts.map(a => (
+            <button
+              key={a.id}
+              onClick={() => toggleAccount(a.id)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${filter.accountIds.includes(a.id) ? 'bg-black text-white border-black' : 'bg-white text-gray-500 border-gray-200'}`}
+            >
+              {a.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <NetWorthHistory snapshots={snapshots} baseCurrency={baseCurrency} rates={rates} language={language} />
+
+        {/* Income vs expense */}
+        <Card title={t.reports.incomeVsExpense} className="lg:col-span-2">
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={flows}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F3F4F6" />
+              <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+              <YAxis tickFormatter={formatAmount} tick={{ fontSize: 11 }} width={60} />
+              <Tooltip formatter={formatTooltip} />
+              <Legend />
+              <Bar dataKey="income" name={t.type.INCOME} fill="#10B981" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="expense" name={t.type.EXPENSE} fill="#111827" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </Card>
+
+        {/* Categories */}
+        <Card
+          title={t.reports.byCategory}
+          action={
+            <div className="flex bg-gray-100 rounded-lg p-0.5">
+              {(['pie', 'treemap'] as const).map(kind => (
+                <button key={kind} onClick={() => setCategoryChart(kind)} className={`px-2.5 py-1 text-xs font-bold rounded-md ${categoryChart === kind ? 'bg-white shadow-sm text-black' : 'text-gray-400'}`}>
+                  {t.reports[kind]}
+                </button>
+              ))}
+            </div>
+          }
+        >
+          {categoryTotals.length === 0 ? empty : (
+            <ResponsiveContainer width="100%" height={280}>
+              {categoryChart === 'pie' ? (
+                <PieChart>
+                  <Pie data={categoryTotals} dataKey="amount" nameKey="name" innerRadius={60} outerRadius={100} paddingAngle={2}>
+                    {categoryTotals.map(c => <Cell key={c.name} fill={c.fill} />)}
+                  </Pie>
+                  <Tooltip formatter={formatTooltip} />
+                  <Legend />
+                </PieChart>
+              ) : (
+                <Treemap data={categoryTotals} dataKey="amount" nameKey="name" stroke="#fff">
+                  <Tooltip formatter={formatTooltip} />
+                </Treemap>
+              )}
+            </ResponsiveContainer>
+          )}
+        </Card>
+
+        {/* Tags */}
+        <Card title={t.reports.byTag}>
+          {tags.length === 0 ? empty : (
+            <ResponsiveContainer width="100%" height={280}>
+              <BarChart data={tags} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#F3F4F6" />
+                <XAxis type="number" tickFormatter={formatAmount} tick={{ fontSize: 11 }} />
+                <YAxis type="category" dataKey="tag" tick={{ fontSize: 11 }} width={80} />
+                <Tooltip formatter={formatTooltip} />
+                <Legend />
+                <Bar dataKey="expense" name={t.type.EXPENSE} fill="#111827" stackId="tag" />
+                <Bar dataKey="income" name={t.type.INCOME} fill="#10B981" stackId="tag" />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </Card>
+
+        {/* Net worth */}
+        <Card title={t.reports.netWorth}>
+          <ResponsiveContainer width="100%" height={280}>
+            <LineChart data={balances}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F3F4F6" />
+              <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+              <YAxis tickFormatter={formatAmount} tick={{ fontSize: 11 }} width={60} />
+              <Tooltip formatter={formatTooltip} />
+              <Line type="monotone" dataKey="total" name={t.common.netWorth} stroke="#111827" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </Card>
+
+        {/* Account balances */}
+        <Card title={t.reports.accountBalances}>
+          {chartAccounts.length === 0 ? empty : (
+            <ResponsiveContainer width="100%" height={280}>
+              <LineChart data={balances}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F3F4F6" />
+                <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                <YAxis tickFormatter={formatAmount} tick={{ fontSize: 11 }} width={60} />
+                <Tooltip formatter={formatTooltip} />
+                <Legend />
+                {chartAccounts.map((a, i) => (
+                  <Line key={a.id} type="monotone" dataKey={a.id} name={a.name} stroke={a.color || CHART_COLORS[i % CHART_COLORS.length]} strokeWidth={2} dot={false} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
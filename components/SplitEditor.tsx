@@ -0,0 +1,114 @@
+import React from 'react';
+import { CategoryDefinition, CategoryType, Currency } from '../types';
+import { X, Plus } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { getCategoryLabel, getCategoryOptions } from '../services/categoryService';
+import { getSplitRemainder } from '../services/splitService';
+
+// A line as typed; amounts and tags are parsed when the transaction is saved
+export interface SplitLineDraft {
+  category: string;
+  amount: string;
+  tags: string;
+  note: string;
+}
+
+interface SplitEditorProps {
+  lines: SplitLineDraft[];
+  onChange: (lines: SplitLineDraft[]) => void;
+  total: number;
+  currency: Currency;
+  type: CategoryType;
+  categories: CategoryDefinition[];
+  keepCategories?: string[]; // Archived categories already on the lines stay selectable
+  language: Language;
+}
+
+export const getLinesRemainder = (total: number, lines: SplitLineDraft[]) =>
+  getSplitRemainder(total || 0, lines.map(line => ({ amount: parseFloat(line.amount) || 0 })));
+
+export const SplitEditor: React.FC<SplitEditorProps> = ({ lines, onChange, total, currency, type, categories, keepCategories = [], language }) => {
+  const t = TRANSLATIONS[language];
+  const remainder = getLinesRemainder(total, lines);
+
+  const options = getCategoryOptions(
+    categories.map(c => keepCategories.includes(c.name) ? { ...c, archived: false } : c),
+    type
+  );
+
+  const updateLine = (index: number, changes: Partial<SplitLineDraft>) =>
+    onChange(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+
+  const addLine = () =>
+    onChange([...lines, { category: options[0]?.category.name ?? '', amount: remainder > 0 ? String(remainder) : '', tags: '', note: '' }]);
+
+  const fillRemaining = () => {
+    const last = lines.length - 1;
+    updateLine(last, { amount: String(Math.round(((parseFloat(lines[last].amount) || 0) + remainder) * 100) / 100) });
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, i) => (
+        <div key={i} className="bg-gray-50 rounded-xl p-2 space-y-2 border border-gray-100">
+          <div className="flex gap-2">
+            <select
+              value={line.category}
+              onChange={(e) => updateLine(i, { category: e.target.value })}
+              className="flex-1 min-w-0 border-2 border-gray-100 rounded-lg px-2 py-2 bg-white font-medium focus:border-black outline-none text-sm text-gray-700"
+            >
+              {!options.some(o => o.category.name === line.category) && <option value={line.category}>{line.category}</option>}
+              {options.map(({ category: c, depth }) => (
+                <option key={c.id} value={c.name}>{depth > 0 ? '\u00A0\u00A0\u00A0' : ''}{c.icon ? `${c.icon} ` : ''}{getCategoryLabel(categories, c.name, language, c.type)}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="0.01"
+              required
+              value={line.amount}
+              onChange={(e) => updateLine(i, { amount: e.target.value })}
+              placeholder="0.00"
+              className="w-28 border-2 border-gray-100 rounded-lg px-2 py-2 bg-white font-bold focus:border-black outline-none text-sm text-right tabular-nums"
+            />
+            <button
+              type="button"
+              disabled={lines.length <= 2}
+              onClick={() => onChange(lines.filter((_, j) => j !== i))}
+              className="px-2 text-gray-300 hover:text-rose-500 disabled:opacity-30 disabled:hover:text-gray-300 transition-colors"
+            >
+              <X size={14} />
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={line.note}
+              onChange={(e) => updateLine(i, { note: e.target.value })}
+              placeholder={t.splits.lineNote}
+              className="flex-1 min-w-0 border-2 border-gray-100 rounded-lg px-2 py-1.5 bg-white focus:border-black outline-none text-xs"
+            />
+            <input
+              value={line.tags}
+              onChange={(e) => updateLine(i, { tags: e.target.value })}
+              placeholder={t.splits.lineTags}
+              className="w-32 border-2 border-gray-100 rounded-lg px-2 py-1.5 bg-white focus:border-black outline-none text-xs"
+            />
+          </div>
+        </div>
+      ))}
+      <div className="flex justify-between items-center text-xs font-bold">
+        <button type="button" onClick={addLine} className="flex items-center gap-1 text-gray-500 hover:text-black transition-colors">
+          <Plus size={14} /> {t.splits.addLine}
+        </button>
+        {remainder === 0 ? (
+          <span className="text-emerald-600">{t.splits.balanced}</span>
+        ) : (
+          <span className={remainder > 0 ? 'text-orange-500' : 'text-rose-500'}>
+            {(remainder > 0 ? t.splits.remaining : t.splits.over).replace('{amount}', `${Math.abs(remainder).toLocaleString()} ${currency}`)}
+            <button type="button" onClick={fillRemaining} className="ml-2 underline text-gray-500 hover:text-black">{t.splits.fillRemaining}</button>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
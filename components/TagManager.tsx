@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { Currency, ExchangeRate, Transaction } from '../types';
+import { X, Trash2, Pencil, Check, Merge, ListFilter } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { getTagReport, getTagStats } from '../services/tagService';
+
+interface TagManagerProps {
+  transactions: Transaction[];
+  baseCurrency: Currency;
+  rates: ExchangeRate[];
+  // Renames `from` to `to` everywhere; several sources merge, a null target deletes
+  onRetag: (from: string[], to: string | null) => void;
+  onShowTransactions: (tag: string) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export const TagManager: React.FC<TagManagerProps> = ({ transactions, baseCurrency, rates, onRetag, onShowTransactions, onClose, language }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [reportTag, setReportTag] = useState<string | null>(null);
+
+  const t = TRANSLATIONS[language];
+
+  const stats = useMemo(() => getTagStats(transactions, baseCurrency, rates), [transactions, baseCurrency, rates]);
+  const report = useMemo(
+    () => reportTag ? getTagReport(transactions, reportTag, baseCurrency, rates) : null,
+    [transactions, reportTag, baseCurrency, rates]
+  );
+
+  const toggleSelected = (tag: string) =>
+    setSelected(selected.includes(tag) ? selected.filter(s => s !== tag) : [...selected, tag]);
+
+  const startRename = (tag: string) => {
+    setRenaming(tag);
+    setNewName(tag);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!renaming || !name || name === renaming) {
+      setRenaming(null);
+      return;
+    }
+    // Renaming onto an existing tag merges the two
+    if (stats.some(s => s.tag === name) && !confirm(t.tags.confirmMerge.replace('{tags}', renaming).replace('{target}', name))) return;
+    onRetag([renaming], name);
+    if (reportTag === renaming) setReportTag(name);
+    setSelected(selected.filter(s => s !== renaming));
+    setRenaming(null);
+  };
+
+  const handleMerge = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = mergeTarget.trim() || selected[0];
+    if (selected.length < 2 || !confirm(t.tags.confirmMerge.replace('{tags}', selected.join(', ')).replace('{target}', target))) return;
+    onRetag(selected, target);
+    if (reportTag && selected.includes(reportTag)) setReportTag(target);
+    setSelected([]);
+    setMergeTarget('');
+  };
+
+  const handleDelete = (tag: string) => {
+    if (!confirm(t.tags.confirmDelete.replace('{tag}', tag))) return;
+    onRetag([tag], null);
+    setSelected(selected.filter(s => s !== tag));
+    if (reportTag === tag) setReportTag(null);
+  };
+
+  const maxCategory = report?.categories[0]?.amount || 1;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in">
+      <div className="bg-white rounded-3xl w-full max-w-3xl overflow-hidden shadow-2xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-bold">{t.tags.title}</h2>
+            <p className="text-xs text-gray-400 font-medium mt-1">{t.tags.subtitle.replace('{currency}', baseCurrency)}</p>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          {selected.length >= 2 && (
+            <form onSubmit={handleMerge} className="flex flex-wrap items-center gap-2 bg-gray-50 rounded-xl p-3">
+              <span className="text-sm font-bold text-gray-700">{t.tags.mergeInto.replace('{n}', String(selected.length))}</span>
+              <input
+                list="tag-merge-targets"
+                value={mergeTarget}
+                onChange={(e) => setMergeTarget(e.target.value)}
+                placeholder={selected[0]}
+                className="flex-1 min-w-[140px] border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm bg-white"
+              />
+              <datalist id="tag-merge-targets">
+                {selected.map(tag => <option key={tag} value={tag} />)}
+              </datalist>
+              <button type="submit" className="bg-black text-white px-4 py-2 rounded-xl font-bold hover:bg-gray-800 transition-colors flex items-center gap-1 text-sm">
+                <Merge size={14} /> {t.tags.merge}
+              </button>
+              <button type="button" onClick={() => setSelected([])} className="px-3 py-2 rounded-xl font-bold text-sm text-gray-500 hover:bg-gray-100">{t.budgets.cancel}</button>
+            </form>
+          )}
+
+          <div className="border border-gray-100 rounded-xl overflow-hidden">
+            {stats.length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-400 italic">{t.tags.empty}</p>
+            ) : (
+              <table className="w-full text-left text-sm">
+                <thead className="bg-gray-50 text-gray-500 text-xs uppercase font-bold tracking-wider">
+                  <tr>
+                    <th className="pl-4 py-3 w-8"></th>
+                    <th className="px-4 py-3">{t.tags.tag}</th>
+                    <th className="px-4 py-3 text-right">{t.tags.uses}</th>
+                    <th className="px-4 py-3 text-right">{t.tags.spent}</th>
+                    <th className="px-4 py-3 text-right">{t.tags.received}</th>
+                    <th className="px-4 py-3">{t.tags.lastUsed}</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {stats.map(s => (
+                    <tr key={s.tag} className={reportTag === s.tag ? 'bg-gray-50' : ''}>
+                      <td className="pl-4 py-2">
+                        <input type="checkbox" checked={selected.includes(s.tag)} onChange={() => toggleSelected(s.tag)} className="w-4 h-4 accent-black" />
+                      </td>
+                      <td className="px-4 py-2 font-bold text-gray-800">
+                        {renaming === s.tag ? (
+                          <form onSubmit={handleRename} className="flex items-center gap-1">
+                            <input autoFocus value={newName} onChange={(e) => setNewName(e.target.value)} className="w-full border-2 border-gray-100 rounded-lg px-2 py-1 font-bold outline-none focus:border-black text-sm" />
+                            <button type="submit" className="text-gray-400 hover:text-black"><Check size={14} /></button>
+                          </form>
+                        ) : (
+                          <button onClick={() => setReportTag(reportTag === s.tag ? null : s.tag)} className="hover:underline text-left">#{s.tag}</button>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-right tabular-nums text-gray-500">{s.count}</td>
+                      <td className="px-4 py-2 text-right tabular-nums font-bold">{formatAmount(s.spent)}</td>
+                      <td className="px-4 py-2 text-right tabular-nums font-bold text-emerald-600">{s.received > 0 ? formatAmount(s.received) : '—'}</td>
+                      <td className="px-4 py-2 text-gray-500">{new Date(s.lastUsed).toLocaleDateString()}</td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        <button onClick={() => startRename(s.tag)} title={t.tags.rename} className="text-gray-300 hover:text-black transition-colors mr-2"><Pencil size={14} /></button>
+                        <button onClick={() => handleDelete(s.tag)} title={t.common.delete} className="text-gray-300 hover:text-rose-500 transition-colors"><Trash2 size={14} /></button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {report && (
+            <div className="border border-gray-100 rounded-xl p-5 space-y-4 animate-in fade-in">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h3 className="text-lg font-bold">#{report.tag}</h3>
+                  <p className="text-xs text-gray-400 font-medium mt-1">
+                    {new Date(report.firstUsed).toLocaleDateString()} – {new Date(report.lastUsed).toLocaleDateString()} · {t.filters.count.replace('{n}', String(report.count))}
+                  </p>
+                </div>
+                <button onClick={() => onShowTransactions(report.tag)} className="flex items-center gap-1 text-xs font-bold text-gray-500 hover:text-black transition-colors">
+                  <ListFilter size={14} /> {t.tags.showTransactions}
+                </button>
+              </div>
+              <div className="flex gap-8">
+                <div>
+                  <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider">{t.tags.spent}</span>
+                  <span className="text-xl font-bold">{baseCurrency} {formatAmount(report.spent)}</span>
+                </div>
+                {report.received > 0 && (
+                  <div>
+                    <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider">{t.tags.received}</span>
+                    <span className="text-xl font-bold text-emerald-600">{baseCurrency} {formatAmount(report.received)}</span>
+                  </div>
+                )}
+              </div>
+              {report.categories.length > 0 && (
+                <div className="space-y-2">
+                  {report.categories.map(c => (
+                    <div key={c.category} className="text-sm">
+                      <div className="flex justify-between font-medium text-gray-700 mb-1">
+                        <span>{c.category}</span>
+                        <span className="tabular-nums">{formatAmount(c.amount)}</span>
+                      </div>
+                      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-black rounded-full" style={{ width: `${(c.amount / maxCategory) * 100}%` }} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {report.months.length > 1 && (
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {report.months.map(m => (
+                    <span key={m.month} className="bg-gray-50 rounded-lg px-2.5 py-1.5 font-medium text-gray-600">
+                      {m.month} <span className="font-bold text-gray-900">{formatAmount(m.spent)}</span>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Account, Currency, TransactionStatus, TransactionType } from '../types';
+import { Search, ListFilter, BookmarkPlus, X } from 'lucide-react';
+import { TRANSLATIONS, Language } from '../translations';
+import { EMPTY_FILTER, FilterPreset, FilteredTotals, TransactionFilter, countActiveFilters } from '../services/transactionFilterService';
+
+interface TransactionFilterBarProps {
+  filter: TransactionFilter;
+  onChange: (filter: TransactionFilter) => void;
+  presets: FilterPreset[];
+  onPresetsChange: (presets: FilterPreset[]) => void;
+  accounts: Account[];
+  categories: string[]; // Categories in use
+  tags: string[]; // Tags in use
+  totals: FilteredTotals;
+  baseCurrency: Currency;
+  language: Language;
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${active ? 'bg-black text-white border-black' : 'bg-white text-gray-500 border-gray-200'}`;
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const TransactionFilterBar: React.FC<TransactionFilterBarProps> = ({
+  filter, onChange, presets, onPresetsChange, accounts, categories, tags, totals, baseCurrency, language
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [presetName, setPresetName] = useState('');
+
+  const t = TRANSLATIONS[language];
+  const activeCount = countActiveFilters(filter);
+  const activePreset = presets.find(p => JSON.stringify(p.filter) === JSON.stringify(filter));
+
+  const update = (changes: Partial<TransactionFilter>) => onChange({ ...filter, ...changes });
+
+  const toggle = <K extends 'types' | 'categories' | 'tags' | 'accountIds' | 'statuses' | 'currencies'>(key: K, value: TransactionFilter[K][number]) => {
+    const list = filter[key] as TransactionFilter[K][number][];
+    update({ [key]: list.includes(value) ? list.filter(v => v !== value) : [...list, value] } as Partial<TransactionFilter>);
+  };
+
+  const parseAmount = (value: string) => value === '' || isNaN(parseFloat(value)) ? undefined : parseFloat(value);
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = presetName.trim();
+    if (!name) return;
+    // Saving under an existing name updates that preset
+    const existing = presets.find(p => p.name === name);
+    const preset: FilterPreset = { id: existing?.id ?? Math.random().toString(36).substr(2, 9), name, filter };
+    onPresetsChange(existing ? presets.map(p => p.id === existing.id ? preset : p) : [...presets, preset]);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = (id: string) => {
+    if (!confirm(t.filters.confirmDeletePreset)) return;
+    onPresetsChange(presets.filter(p => p.id !== id));
+  };
+
+  const renderChips = <T extends string>(label: string, values: T[], selected: T[], onToggle: (value: T) => void, getLabel: (value: T) => string = v => v) => (
+    values.length > 0 && (
+      <div>
+        <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{label}</label>
+        <div className="flex flex-wrap gap-2">
+          {values.map(v => (
+            <button key={v} type="button" onClick={() => onToggle(v)} className={chipClass(selected.includes(v))}>{getLabel(v)}</button>
+          ))}
+        </div>
+      </div>
+    )
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex-1 min-w-[200px] relative">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            value={filter.text}
+            onChange={(e) => update({ text: e.target.value })}
+            placeholder={t.filters.searchNotes}
+            className="w-full border-2 border-gray-100 rounded-xl pl-9 pr-3 py-2 font-medium outline-none focus:border-black text-sm"
+          />
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className={`flex items-center gap-2 px-4 py-2 border rounded-xl text-sm font-medium shadow-sm transition-all ${isExpanded ? 'bg-black text-white border-black' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+        >
+          <ListFilter size={16} /> {t.common.filter}
+          {activeCount > 0 && <span className={`text-xs font-bold px-1.5 rounded ${isExpanded ? 'bg-white text-black' : 'bg-black text-white'}`}>{activeCount}</span>}
+        </button>
+        {activeCount > 0 && (
+          <button onClick={() => onChange(EMPTY_FILTER)} className="px-3 py-2 rounded-xl font-bold text-sm text-gray-500 hover:bg-gray-100">{t.filters.clear}</button>
+        )}
+      </div>
+
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {presets.map(p => (
+            <span key={p.id} className={`${chipClass(activePreset?.id === p.id)} flex items-center gap-1.5`}>
+              <button onClick={() => onChange(p.filter)}>{p.name}</button>
+              <button onClick={() => handleDeletePreset(p.id)} className="opacity-50 hover:opacity-100"><X size={12} /></button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {isExpanded && (
+        <div className="space-y-4 pt-4 border-t border-gray-100 animate-in fade-in">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.filters.from}</label>
+              <input type="date" value={filter.from} onChange={(e) => update({ from: e.target.value })} className="border-2 border-gray-100 rounded-xl px-3 py-1.5 font-medium outline-none focus:border-black text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.filters.to}</label>
+              <input type="date" value={filter.to} onChange={(e) => update({ to: e.target.value })} className="border-2 border-gray-100 rounded-xl px-3 py-1.5 font-medium outline-none focus:border-black text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.filters.minAmount}</label>
+              <input type="number" step="0.01" value={filter.minAmount ?? ''} onChange={(e) => update({ minAmount: parseAmount(e.target.value) })} placeholder="0.00" className="w-28 border-2 border-gray-100 rounded-xl px-3 py-1.5 font-bold outline-none focus:border-black text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.filters.maxAmount}</label>
+              <input type="number" step="0.01" value={filter.maxAmount ?? ''} onChange={(e) => update({ maxAmount: parseAmount(e.target.value) })} placeholder="∞" className="w-28 border-2 border-gray-100 rounded-xl px-3 py-1.5 font-bold outline-none focus:border-black text-sm" />
+            </div>
+          </div>
+
+          {renderChips(t.filters.type, Object.values(TransactionType), filter.types, v => toggle('types', v), v => t.type[v])}
+          {renderChips(t.filters.status, Object.values(TransactionStatus), filter.statuses, v => toggle('statuses', v), v => t.status[v])}
+          {renderChips(t.form.currency, Object.values(Currency), filter.currencies, v => toggle('currencies', v))}
+          {renderChips(t.form.account, accounts.map(a => a.id), filter.accountIds, v => toggle('accountIds', v), id => accounts.find(a => a.id === id)?.name || id)}
+          {renderChips(t.form.category, categories, filter.categories, v => toggle('categories', v))}
+          {renderChips(t.filters.tags, tags, filter.tags, v => toggle('tags', v))}
+
+          <form onSubmit={handleSavePreset} className="flex items-center gap-2 pt-2">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder={t.filters.presetName}
+              className="flex-1 max-w-xs border-2 border-gray-100 rounded-xl px-3 py-2 font-bold outline-none focus:border-black text-sm"
+            />
+            <button type="submit" disabled={!presetName.trim() || activeCount === 0} className="bg-black text-white px-4 py-2 rounded-xl font-bold hover:bg-gray-800 transition-colors disabled:opacity-50 flex items-center gap-1 text-sm">
+              <BookmarkPlus size={14} /> {t.filters.savePreset}
+            </button>
+          </form>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4 text-xs font-bold text-gray-500 pt-1">
+        <span>{t.filters.count.replace('{n}', String(totals.count))}</span>
+        <span className="text-emerald-600">{t.type[TransactionType.INCOME]} +{formatAmount(totals.income)}</span>
+        <span className="text-gray-900">{t.type[TransactionType.EXPENSE]} -{formatAmount(totals.expense)}</span>
+        <span className={totals.net >= 0 ? 'text-emerald-600' : 'text-rose-500'}>{t.filters.net} {totals.net >= 0 ? '+' : '-'}{formatAmount(Math.abs(totals.net))} {baseCurrency}</span>
+      </div>
+    </div>
+  );
+};
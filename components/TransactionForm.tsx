@@ -1,50 +1,92 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Account, Currency, TransactionType, TransactionStatus, EXPENSE_CATEGORIES, INCOME_CATEGORIES } from '../types';
-import { X, Calendar, Check, Clock, Tag } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Account, Budget, CategoryDefinition, CategoryType, Currency, ExchangeRate, Transaction, TransactionType, TransactionStatus } from '../types';
+import { X, Calendar, Check, Clock, Tag, ArrowRightLeft, TriangleAlert } from 'lucide-react';
 import { TRANSLATIONS, Language } from '../translations';
+import { getRate } from '../services/exchangeRateService';
+import { getBudgetWarning } from '../services/budgetService';
+import { completeTag, getTagSuggestions, parseTags } from '../services/tagService';
+import { getCategoryLabel, getCategoryOptions, isCategoryType } from '../services/categoryService';
+import { SplitEditor, SplitLineDraft, getLinesRemainder } from './SplitEditor';
 
 interface TransactionFormProps {
   accounts: Account[];
   onSave: (data: any) => void;
   onClose: () => void;
   language: Language;
+  transaction?: Transaction | null; // When set, the form edits this transaction
+  template?: Partial<Transaction>; // Prefills a new transaction, e.g. a card payment
+  rates?: ExchangeRate[];
+  // For the overspend warning; `transactions` should leave out the one being edited
+  budgets?: Budget[];
+  transactions?: Transaction[];
+  baseCurrency?: Currency;
+  knownTags?: string[]; // For autocomplete, most used first
+  categories?: CategoryDefinition[];
 }
 
-export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, onSave, onClose, language }) => {
-  const [type, setType] = useState<TransactionType>(TransactionType.EXPENSE);
-  const [amount, setAmount] = useState<string>('');
-  const [currency, setCurrency] = useState<Currency>(Currency.CNY);
+export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, onSave, onClose, language, transaction, template, rates = [], budgets = [], transactions = [], baseCurrency = Currency.CNY, knownTags = [], categories = [] }) => {
+  // Active categories of a type, parents followed by their children; keeps the edited one even if archived
+  const getCategories = (type: TransactionType) => isCategoryType(type)
+    ? getCategoryOptions(categories, type, transaction?.category).map(o => o.category.name)
+    : [];
+
+  const initialType = transaction?.type ?? template?.type ?? TransactionType.EXPENSE;
+  const initialIsCustom = !!transaction && initialType !== TransactionType.TRANSFER && !getCategories(initialType).includes(transaction.category);
+
+  const [type, setType] = useState<TransactionType>(initialType);
+  const [amount, setAmount] = useState<string>(transaction ? String(transaction.amount) : template?.amount ? String(template.amount) : '');
+  const [currency, setCurrency] = useState<Currency>(transaction?.currency ?? template?.currency ?? Currency.CNY);
   
   // Category State
-  const [category, setCategory] = useState<string>('');
-  const [customCategory, setCustomCategory] = useState<string>('');
-  const [isCustomCategory, setIsCustomCategory] = useState(false);
-  const [tags, setTags] = useState<string>('');
+  const [category, setCategory] = useState<string>(transaction && !initialIsCustom ? transaction.category : getCategories(initialType)[0] ?? '');
+  const [customCategory, setCustomCategory] = useState<string>(initialIsCustom ? transaction!.category : '');
+  const [isCustomCategory, setIsCustomCategory] = useState(initialIsCustom);
+  // Lines of a split transaction; empty when not split
+  const [splitLines, setSplitLines] = useState<SplitLineDraft[]>(
+    transaction?.splits?.map(line => ({ category: line.category, amount: String(line.amount), tags: line.tags.join(', '), note: line.note })) ?? []
+  );
+  const [tags, setTags] = useState<string>(transaction ? transaction.tags.join(', ') : '');
+  const [isTagInputFocused, setIsTagInputFocused] = useState(false);
+
+  const [accountId, setAccountId] = useState<string>(transaction?.accountId ?? template?.accountId ?? '');
+  const [toAccountId, setToAccountId] = useState<string>(transaction?.toAccountId ?? template?.toAccountId ?? '');
 
-  const [accountId, setAccountId] = useState<string>('');
-  const [toAccountId, setToAccountId] = useState<string>('');
+  // Cross-currency transfer: what the bank actually credited, or its rate, plus its fee.
+  // A typed amount is always saved with its rate; one without was filled in from the
+  // rate table, so it is left out and the credit is recomputed when the edit is saved
+  const [receivedAmount, setReceivedAmount] = useState<string>(transaction?.receivedAmount !== undefined && transaction.fxRate ? String(transaction.receivedAmount) : '');
+  const [fxRate, setFxRate] = useState<string>(transaction?.fxRate ? String(transaction.fxRate) : '');
+  const [fxInput, setFxInput] = useState<'received' | 'rate'>('received');
+  const [fee, setFee] = useState<string>(transaction?.fee ? String(transaction.fee) : '');
   
   // Dates
-  const [date, setDate] = useState<string>(new Date().toISOString().split('T')[0]); // Transaction/Earning Date
-  const [expectedDate, setExpectedDate] = useState<string>(''); // Arrival/Settlement Date
+  const [date, setDate] = useState<string>((transaction?.date ?? new Date().toISOString()).split('T')[0]); // Transaction/Earning Date
+  const [expectedDate, setExpectedDate] = useState<string>(transaction?.expectedDate ? transaction.expectedDate.split('T')[0] : ''); // Arrival/Settlement Date
 
-  const [note, setNote] = useState<string>('');
-  const [status, setStatus] = useState<TransactionStatus>(TransactionStatus.COMPLETED);
+  const [note, setNote] = useState<string>(transaction?.note ?? template?.note ?? '');
+  const [status, setStatus] = useState<TransactionStatus>(transaction?.status ?? TransactionStatus.COMPLETED);
   
   // Amortization (Long-term)
-  const [isAmortized, setIsAmortized] = useState(false);
-  const [amortizationMonths, setAmortizationMonths] = useState<number>(12);
+  const [isAmortized, setIsAmortized] = useState(transaction?.isAmortized ?? false);
+  const [amortizationMonths, setAmortizationMonths] = useState<number>(transaction?.isAmortized ? transaction.amortizationMonths : 12);
 
   const t = TRANSLATIONS[language];
 
+  const tagSuggestions = getTagSuggestions(tags, knownTags);
+
   // Auto-select Account based on Currency Logic
   useEffect(() => {
+    // Keep the current account (e.g. when editing) if it already matches the currency
+    const current = accounts.find(a => a.id === accountId);
+    if (current && current.currency === currency) return;
+
     // Find the first account that matches the selected currency
     // Prioritize accounts that are NOT investment or loan for default transaction usage
     const match = accounts.find(a => 
         a.currency === currency && 
         a.type !== 'INVESTMENT' && 
-        a.type !== 'LOAN'
+        a.type !== 'LOAN' &&
+        a.id !== toAccountId
     ) || accounts.find(a => a.currency === currency);
 
     if (match) {
@@ -52,48 +94,114 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, onSa
     }
   }, [currency, accounts]);
 
-  // Set default category when type changes
-  useMemo(() => {
-    if (type === TransactionType.EXPENSE) {
-      setCategory(EXPENSE_CATEGORIES[0]);
-      setIsCustomCategory(false);
-    } else if (type === TransactionType.INCOME) {
-      setCategory(INCOME_CATEGORIES[0]);
+  // Reset to the default category when type changes
+  const handleTypeChange = (val: TransactionType) => {
+    if (val === type) return;
+    setType(val);
+    setSplitLines([]);
+    if (val !== TransactionType.TRANSFER) {
+      setCategory(getCategories(val)[0] ?? '');
       setIsCustomCategory(false);
     }
-  }, [type]);
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    const finalCategory = isCustomCategory ? customCategory : category;
-    const finalTags = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  const toAccount = accounts.find(a => a.id === toAccountId);
+  const isCrossCurrency = type === TransactionType.TRANSFER && !!toAccount && toAccount.currency !== currency;
+  const marketRate = toAccount ? getRate(rates, currency, toAccount.currency, date) : 1;
 
-    onSave({
+  const handleReceivedChange = (value: string) => {
+    setFxInput('received');
+    setReceivedAmount(value);
+    const amt = parseFloat(amount);
+    setFxRate(amt && parseFloat(value) ? String(+(parseFloat(value) / amt).toFixed(6)) : '');
+  };
+
+  const handleFxRateChange = (value: string) => {
+    setFxInput('rate');
+    setFxRate(value);
+    const amt = parseFloat(amount);
+    setReceivedAmount(amt && parseFloat(value) ? String(+(amt * parseFloat(value)).toFixed(2)) : '');
+  };
+
+  // Realized FX fields; the field typed last wins and the other is derived from it
+  const getFxFields = (amt: number) => {
+    if (!isCrossCurrency) return { receivedAmount: undefined, fxRate: undefined };
+    const received = parseFloat(receivedAmount);
+    const rate = parseFloat(fxRate);
+    if (fxInput === 'rate' && rate > 0) return { receivedAmount: +(amt * rate).toFixed(2), fxRate: rate };
+    if (received > 0) return { receivedAmount: received, fxRate: amt ? +(received / amt).toFixed(6) : undefined };
+    return { receivedAmount: undefined, fxRate: undefined };
+  };
+
+  const isSplitting = splitLines.length > 0 && isCategoryType(type);
+  const splitRemainder = isSplitting ? getLinesRemainder(parseFloat(amount), splitLines) : 0;
+
+  // The current category becomes the first line, holding the whole amount until others are added
+  const startSplit = () => {
+    const current = isCustomCategory ? customCategory.trim() || category : category;
+    const next = getCategories(type).find(name => name !== current) ?? current;
+    setSplitLines([
+      { category: current, amount, tags: '', note: '' },
+      { category: next, amount: '', tags: '', note: '' },
+    ]);
+  };
+
+  const stopSplit = () => {
+    const first = splitLines[0]?.category;
+    if (first && getCategories(type).includes(first)) {
+      setCategory(first);
+      setIsCustomCategory(false);
+    } else if (first) {
+      setCustomCategory(first);
+      setIsCustomCategory(true);
+    }
+    setSplitLines([]);
+  };
+
+  const buildTransaction = () => {
+    const finalAmount = parseFloat(amount);
+    const transferFee = parseFloat(fee);
+    const splits = isSplitting
+      ? splitLines.map(line => ({ category: line.category, amount: parseFloat(line.amount) || 0, tags: parseTags(line.tags, knownTags), note: line.note.trim() }))
+      : undefined;
+    return {
       type,
-      amount: parseFloat(amount),
+      amount: finalAmount,
       currency,
-      category: finalCategory,
-      tags: finalTags,
+      category: splits ? splits[0].category : isCustomCategory ? customCategory : category,
+      splits,
+      tags: parseTags(tags, knownTags),
       accountId,
       toAccountId: type === TransactionType.TRANSFER ? toAccountId : undefined,
+      ...getFxFields(finalAmount),
+      fee: type === TransactionType.TRANSFER && transferFee > 0 ? transferFee : undefined,
       date: new Date(date).toISOString(),
       expectedDate: expectedDate ? new Date(expectedDate).toISOString() : undefined,
       note,
       status,
       isAmortized,
       amortizationMonths: isAmortized ? amortizationMonths : 0
-    });
+    };
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (splitRemainder !== 0) return;
+    onSave(buildTransaction());
     onClose();
   };
 
-  const currentCategories = type === TransactionType.EXPENSE ? EXPENSE_CATEGORIES : INCOME_CATEGORIES;
+  const budgetWarning = budgets.length > 0 && amount && date
+    ? getBudgetWarning(budgets, transactions, { ...buildTransaction(), id: transaction?.id ?? '' }, baseCurrency, rates, categories)
+    : null;
+
+  const currentOptions = isCategoryType(type) ? getCategoryOptions(categories, type, transaction?.category) : [];
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 transition-all">
       <div className="bg-white rounded-3xl w-full max-w-lg overflow-hidden shadow-2xl animate-in fade-in zoom-in-95 duration-200">
         <div className="flex justify-between items-center p-6 border-b border-gray-100">
-          <h2 className="text-2xl font-bold text-gray-800">{t.form.newTransaction}</h2>
+          <h2 className="text-2xl font-bold text-gray-800">{transaction ? t.form.editTransaction : t.form.newTransaction}</h2>
           <button onClick={onClose} className="p-2 bg-gray-100 rounded-full text-gray-500 hover:text-gray-700 hover:bg-gray-200 transition-colors">
             <X size={20} />
           </button>
@@ -111,7 +219,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, onSa
                     ? 'bg-white shadow-sm text-black ring-1 ring-black/5' 
                     : 'text-gray-400 hover:text-gray-600'
                 }`}
-                onClick={() => setType(val)}
+                onClick={() => handleTypeChange(val)}
               >
                 {t.type[val]}
               </button>
@@ -174,7 +282,24 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, onSa
           {/* Category */}
           {type !== TransactionType.TRANSFER && (
             <div>
-              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.category}</label>
+              <div className="flex justify-between items-center mb-2">
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider">{t.form.category}</label>
+                <button type="button" onClick={isSplitting ? stopSplit : startSplit} className="text-xs font-bold text-gray-400 hover:text-black transition-colors">
+                  {isSplitting ? t.splits.removeSplit : t.splits.split}
+                </button>
+              </div>
+              {isSplitting ? (
+                <SplitEditor
+                  lines={splitLines}
+                  onChange={setSplitLines}
+                  total={parseFloat(amount)}
+                  currency={currency}
+                  type={type as CategoryType}
+                  categories={categories}
+                  keepCategories={transaction?.splits?.map(line => line.category)}
+                  language={language}
+                />
+              ) : (
               <div className="flex gap-2">
                   <div className="relative flex-1">
                     {!isCustomCategory ? (
@@ -189,8 +314,8 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, onSa
                             }}
                             className="w-full border-2 border-gray-100 rounded-xl px-4 py-3 bg-white font-medium focus:border-black outline-none appearance-none text-gray-700"
                         >
-                            {currentCategories.map((c) => (
-                                <option key={c} value={c}>{c}</option>
+                            {currentOptions.map(({ category: c, depth }) => (
+                                <option key={c.id} value={c.name}>{depth > 0 ? '\u00A0\u00A0\u00A0' : ''}{c.icon ? `${c.icon} ` : ''}{getCategoryLabel(categories, c.name, language, c.type)}</option>
                             ))}
                             <option value="CUSTOM">+ {t.form.customCategory}</option>
                         </select>
@@ -215,6 +340,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, onSa
                     {!isCustomCategory && <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-gray-400">▼</div>}
                   </div>
               </div>
+              )}
             </div>
           )}
           
@@ -227,10 +353,27 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, onSa
                     type="text"
                     value={tags}
                     onChange={(e) => setTags(e.target.value)}
+                    onFocus={() => setIsTagInputFocused(true)}
+                    onBlur={() => setIsTagInputFocused(false)}
                     placeholder="e.g. Travel, Gift, 2024"
                     className="w-full border-2 border-gray-100 rounded-xl pl-10 pr-4 py-3 bg-white font-medium focus:border-black outline-none text-gray-700"
                  />
              </div>
+             {isTagInputFocused && tagSuggestions.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                    {tagSuggestions.map(tag => (
+                        <button
+                            key={tag}
+                            type="button"
+                            // Keeps focus in the input so the list stays open for the next tag
+                            onMouseDown={(e) => { e.preventDefault(); setTags(completeTag(tags, tag)); }}
+                            className="text-xs font-bold px-2.5 py-1 rounded-lg bg-gray-100 text-gray-600 hover:bg-black hover:text-white transition-colors"
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+             )}
           </div>
 
           {/* Accounts */}
@@ -276,6 +419,59 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, onSa
            </div>
           )}
 
+          {/* Realized FX & Fee */}
+          {type === TransactionType.TRANSFER && (
+            <div className="bg-gray-50 rounded-xl p-4 border border-gray-100 space-y-3">
+              {isCrossCurrency && toAccount && (
+                <>
+                  <div className="flex items-center gap-2 text-xs font-bold text-gray-500">
+                    <ArrowRightLeft size={14} />
+                    {t.form.marketRate}: 1 {currency} = {marketRate.toPrecision(5)} {toAccount.currency}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.receivedAmount} ({toAccount.currency})</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={receivedAmount}
+                        onChange={(e) => handleReceivedChange(e.target.value)}
+                        placeholder={amount ? (parseFloat(amount) * marketRate).toFixed(2) : '0.00'}
+                        className="w-full border-2 border-gray-100 rounded-xl px-3 py-2.5 bg-white font-bold focus:border-black outline-none text-gray-800"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.fxRate}</label>
+                      <input
+                        type="number"
+                        step="any"
+                        min="0"
+                        value={fxRate}
+                        onChange={(e) => handleFxRateChange(e.target.value)}
+                        placeholder={marketRate.toPrecision(5)}
+                        className="w-full border-2 border-gray-100 rounded-xl px-3 py-2.5 bg-white font-bold focus:border-black outline-none text-gray-800"
+                      />
+                    </div>
+                  </div>
+                </>
+              )}
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.form.transferFee} ({currency})</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={fee}
+                  onChange={(e) => setFee(e.target.value)}
+                  placeholder="0.00"
+                  className="w-full border-2 border-gray-100 rounded-xl px-3 py-2.5 bg-white font-bold focus:border-black outline-none text-gray-800"
+                />
+                <p className="text-[10px] text-gray-400 mt-1">{t.form.transferFeeHint}</p>
+              </div>
+            </div>
+          )}
+
           {/* Date Logic */}
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -356,9 +552,27 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, onSa
             ></textarea>
           </div>
 
+          {budgetWarning && (
+            <div className="flex gap-3 bg-rose-50 border border-rose-100 rounded-xl p-3">
+              <TriangleAlert size={18} className="text-rose-500 shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-bold text-rose-600">{t.budgets.warningTitle}</p>
+                <p className="text-xs text-rose-500 mt-0.5">
+                  {t.budgets.warning
+                    .replace('{category}', getCategoryLabel(categories, budgetWarning.progress.budget.category, language, TransactionType.EXPENSE))
+                    .replace('{projected}', budgetWarning.projected.toLocaleString())
+                    .replace('{available}', budgetWarning.progress.available.toLocaleString())
+                    .replace('{currency}', baseCurrency)
+                    .replace('{over}', budgetWarning.overBy.toLocaleString())}
+                </p>
+              </div>
+            </div>
+          )}
+
           <button
             type="submit"
-            className="w-full bg-black text-white py-4 rounded-xl font-bold hover:bg-gray-800 transition-all shadow-lg active:scale-[0.98]"
+            disabled={splitRemainder !== 0}
+            className="w-full bg-black text-white py-4 rounded-xl font-bold hover:bg-gray-800 transition-all shadow-lg active:scale-[0.98] disabled:opacity-50"
           >
             {t.form.saveButton}
           </button>
@@ -0,0 +1,161 @@
+/**
+ * Reference sync server for Little Treasury. No dependencies; run with
+ * `npm run sync-server` and point the app at it with SYNC_URL.
+ *
+ * Every record a client pushes gets a version: the value of a per-user counter
+ * at the time of the write. A push must name the version it was based on; if
+ * the record moved on in the meantime the write is refused and the current
+ * copy is returned so the client can merge and retry. Deletes are kept as
+ * tombstones so other devices see them on their next pull.
+ *
+ *   GET  /health
+ *   GET  /users/:userId/changes?since=<version>
+ *   POST /users/:userId/push   { deviceId, changes: [{ collection, key, record, baseVersion, updatedAt }] }
+ *
+ * Environment: PORT (8787), SYNC_DATA_DIR (./sync-data), SYNC_TOKEN (optional
+ * bearer token), SYNC_ALLOWED_ORIGIN (*).
+ */
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = path.resolve(process.env.SYNC_DATA_DIR || './sync-data');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN || '*';
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const COLLECTIONS = ['accounts', 'transactions', 'recurringRules', 'exchangeRates', 'importPresets', 'budgets', 'netWorthSnapshots', 'filterPresets', 'categories', 'holdingSnapshots', 'settings'];
+
+const users = new Map(); // userId -> { seq, records: { 'collection|key': entry } }
+
+const userFile = (userId) => path.join(DATA_DIR, `${encodeURIComponent(userId)}.json`);
+
+const loadUser = (userId) => {
+  if (!users.has(userId)) {
+    const file = userFile(userId);
+    users.set(userId, fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : { seq: 0, records: {} });
+  }
+  return users.get(userId);
+};
+
+// Write to a temp file and rename so a crash never leaves half a file
+const saveUser = (userId, store) => {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  const file = userFile(userId);
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(store));
+  fs.renameSync(`${file}.tmp`, file);
+};
+
+const getChanges = (store, since) =>
+  Object.values(store.records)
+    .filter(entry => entry.version > since)
+    .sort((a, b) => a.version - b.version);
+
+const applyPush = (store, deviceId, changes) => {
+  const accepted = [];
+  const conflicts = [];
+
+  changes.forEach(change => {
+    const id = `${change.collection}|${change.key}`;
+    const current = store.records[id];
+    if ((current?.version ?? 0) !== change.baseVersion) {
+      conflicts.push(current ?? { collection: change.collection, key: change.key, record: null, version: 0, updatedAt: null });
+      return;
+    }
+    const entry = {
+      collection: change.collection,
+      key: change.key,
+      record: change.record ?? null,
+      version: ++store.seq,
+      updatedAt: change.updatedAt || new Date().toISOString(),
+      deviceId,
+    };
+    store.records[id] = entry;
+    accepted.push({ collection: entry.collection, key: entry.key, version: entry.version });
+  });
+
+  return { seq: store.seq, accepted, conflicts };
+};
+
+const isValidChange = (change) =>
+  change &&
+  COLLECTIONS.includes(change.collection) &&
+  typeof change.key === 'string' && change.key !== '' &&
+  Number.isInteger(change.baseVersion) && change.baseVersion >= 0;
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new Error('Invalid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  if (url.pathname === '/health') return send(res, 200, { ok: true });
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return send(res, 401, { error: 'Unauthorized' });
+  }
+
+  const match = url.pathname.match(/^\/users\/([^/]+)\/(changes|push)$/);
+  if (!match) return send(res, 404, { error: 'Not found' });
+  const userId = decodeURIComponent(match[1]);
+
+  try {
+    if (match[2] === 'changes' && req.method === 'GET') {
+      const since = Number(url.searchParams.get('since')) || 0;
+      const store = loadUser(userId);
+      return send(res, 200, { seq: store.seq, changes: getChanges(store, since) });
+    }
+
+    if (match[2] === 'push' && req.method === 'POST') {
+      const body = await readBody(req);
+      if (typeof body.deviceId !== 'string' || !Array.isArray(body.changes) || !body.changes.every(isValidChange)) {
+        return send(res, 400, { error: 'Invalid push' });
+      }
+      const store = loadUser(userId);
+      const result = applyPush(store, body.deviceId, body.changes);
+      if (result.accepted.length) saveUser(userId, store);
+      return send(res, 200, result);
+    }
+
+    return send(res, 405, { error: 'Method not allowed' });
+  } catch (error) {
+    console.error(error);
+    return send(res, 500, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Little Treasury sync server on http://localhost:${PORT} (data in ${DATA_DIR})`);
+});
@@ -0,0 +1,80 @@
+import { Transaction, TransactionType } from "../types";
+
+/**
+ * Spreads long-term (amortized) purchases across the months they cover.
+ * Amounts stay in the transaction's own currency; callers convert.
+ */
+
+export interface AmortizationEntry {
+  month: string; // YYYY-MM
+  amount: number;
+}
+
+export interface AmortizationStatus {
+  transaction: Transaction;
+  monthlyAmount: number;
+  monthsElapsed: number;
+  recognized: number;
+  remaining: number;
+  endMonth: string;
+}
+
+export const toMonthKey = (date: string | Date): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const addMonths = (date: string | Date, months: number): Date => {
+  const d = new Date(date);
+  return new Date(d.getFullYear(), d.getMonth() + months, 1);
+};
+
+export const isAmortizedExpense = (tx: Transaction): boolean =>
+  tx.type === TransactionType.EXPENSE && tx.isAmortized && tx.amortizationMonths > 1;
+
+/**
+ * Monthly slices of an expense, starting in the purchase month. Slices are rounded
+ * to cents and the last one absorbs the remainder so they sum to the full amount.
+ */
+export const getAmortizationSchedule = (tx: Transaction): AmortizationEntry[] => {
+  if (!isAmortizedExpense(tx)) return [{ month: toMonthKey(tx.date), amount: tx.amount }];
+
+  const months = tx.amortizationMonths;
+  const slice = Math.round((tx.amount / months) * 100) / 100;
+  return Array.from({ length: months }, (_, i) => ({
+    month: toMonthKey(addMonths(tx.date, i)),
+    amount: i === months - 1 ? Math.round((tx.amount - slice * (months - 1)) * 100) / 100 : slice,
+  }));
+};
+
+// Portion of the expense that belongs to the given month
+export const getRecognizedAmount = (tx: Transaction, month: Date): number => {
+  const key = toMonthKey(month);
+  return getAmortizationSchedule(tx)
+    .filter(entry => entry.month === key)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+};
+
+export const getAmortizationStatus = (tx: Transaction, now: Date = new Date()): AmortizationStatus => {
+  const schedule = getAmortizationSchedule(tx);
+  const current = toMonthKey(now);
+  const elapsed = schedule.filter(entry => entry.month <= current);
+  const recognized = elapsed.reduce((sum, entry) => sum + entry.amount, 0);
+
+  return {
+    transaction: tx,
+    monthlyAmount: schedule[0].amount,
+    monthsElapsed: elapsed.length,
+    recognized,
+    remaining: Math.max(0, Math.round((tx.amount - recognized) * 100) / 100),
+    endMonth: schedule[schedule.length - 1].month,
+  };
+};
+
+// Long-term purchases that still have unrecognized cost, newest first
+export const getActiveAmortizations = (transactions: Transaction[], now: Date = new Date()): AmortizationStatus[] =>
+  transactions
+    .filter(isAmortizedExpense)
+    .map(tx => getAmortizationStatus(tx, now))
+    .filter(status => status.remaining > 0)
+    .sort((a, b) => b.transaction.date.localeCompare(a.transaction.date));
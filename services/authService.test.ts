@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// The shared provider is created on import with the browser's localStorage
+vi.hoisted(() => {
+  const values = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => { values.set(key, value); },
+    removeItem: (key: string) => { values.delete(key); },
+  } as Storage;
+});
+
+import { createLocalAuthProvider, isSessionExpired, loadSession, saveSession } from './authService';
+
+const createStore = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => { values.set(key, value); },
+    removeItem: (key: string) => { values.delete(key); },
+  };
+};
+
+// Password hashing uses the real PBKDF2 iteration count
+const SLOW = 30000;
+
+describe('createLocalAuthProvider', () => {
+  it('registers a user and logs them in with the same password', async () => {
+    const auth = createLocalAuthProvider(createStore());
+    const session = await auth.register({ email: 'Ann@Example.com', password: 'correct horse', name: 'Ann' });
+    expect(session.user).toEqual({ id: 'Ann_Example_com', email: 'Ann@Example.com', username: 'Ann' });
+    expect(isSessionExpired(session)).toBe(false);
+
+    const login = await auth.login('ann@example.com ', 'correct horse');
+    expect(login.user.id).toBe(session.user.id);
+  }, SLOW);
+
+  it('rejects weak passwords, taken emails and wrong passwords', async () => {
+    const auth = createLocalAuthProvider(createStore());
+    await expect(auth.register({ email: 'a@b.c', password: 'short' })).rejects.toThrow('WEAK_PASSWORD');
+    await auth.register({ email: 'a@b.c', password: 'long enough' });
+    await expect(auth.register({ email: 'A@B.C', password: 'long enough' })).rejects.toThrow('EMAIL_TAKEN');
+    await expect(auth.login('a@b.c', 'not the password')).rejects.toThrow('INVALID_CREDENTIALS');
+    await expect(auth.login('nobody@b.c', 'long enough')).rejects.toThrow('INVALID_CREDENTIALS');
+  }, SLOW);
+
+  it('keeps no plaintext password in the store', async () => {
+    const store = createStore();
+    await createLocalAuthProvider(store).register({ email: 'a@b.c', password: 'long enough' });
+    expect(store.getItem('lt_credentials')).not.toContain('long enough');
+  }, SLOW);
+
+  it('changes the password only with the current one', async () => {
+    const auth = createLocalAuthProvider(createStore());
+    const { user } = await auth.register({ email: 'a@b.c', password: 'long enough' });
+    await expect(auth.changePassword(user, 'wrong password', 'new password')).rejects.toThrow('INVALID_CREDENTIALS');
+    await auth.changePassword(user, 'long enough', 'new password');
+    await expect(auth.login('a@b.c', 'long enough')).rejects.toThrow('INVALID_CREDENTIALS');
+    expect((await auth.login('a@b.c', 'new password')).user).toEqual(user);
+  }, SLOW);
+});
+
+describe('sessions', () => {
+  it('drops expired sessions when loading', () => {
+    const store = createStore();
+    const user = { id: 'u', email: 'u@x.y', username: 'u' };
+    saveSession({ user, expiresAt: new Date(Date.now() + 60000).toISOString() }, store);
+    expect(loadSession(store)?.user).toEqual(user);
+
+    saveSession({ user, expiresAt: new Date(Date.now() - 1).toISOString() }, store);
+    expect(loadSession(store)).toBeNull();
+    expect(store.getItem('lt_session')).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { User } from "../types";
+import { PBKDF2_ITERATIONS, fromBase64, toBase64 } from "./encryptionService";
+
+/**
+ * Authentication behind a provider interface so the app can later point at a
+ * backend. The local provider keeps salted PBKDF2 hashes in localStorage and
+ * stands in for a server in the meantime.
+ */
+
+export interface Session {
+  user: User;
+  expiresAt: string;
+}
+
+export interface RegisterInput {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+export interface AuthProvider {
+  register: (input: RegisterInput) => Promise<Session>;
+  login: (email: string, password: string) => Promise<Session>;
+  changePassword: (user: User, currentPassword: string, newPassword: string) => Promise<void>;
+}
+
+// Thrown as Error messages so the UI can translate them
+export type AuthErrorCode = 'EMAIL_TAKEN' | 'INVALID_CREDENTIALS' | 'WEAK_PASSWORD';
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const SESSION_KEY = 'lt_session';
+const LEGACY_USER_KEY = 'lt_current_user';
+const CREDENTIALS_KEY = 'lt_credentials';
+
+interface StoredCredential {
+  userId: string;
+  email: string;
+  username: string;
+  salt: string; // Base64
+  hash: string; // Base64
+  iterations: number;
+  createdAt: string;
+  passwordChangedAt?: string;
+}
+
+type KeyValueStore = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// Same derivation as before passwords existed, so registering keeps any data already stored for the email
+export const getUserId = (email: string) => email.trim().replace(/[^a-zA-Z0-9]/g, '_');
+
+const hashPassword = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+  return new Uint8Array(bits);
+};
+
+// Compares every byte so timing does not reveal how much of the hash matched
+const isSameHash = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+const createCredential = async (user: User, password: string, now: Date): Promise<StoredCredential> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await hashPassword(password, salt, PBKDF2_ITERATIONS);
+  return {
+    userId: user.id,
+    email: user.email,
+    username: user.username,
+    salt: toBase64(salt),
+    hash: toBase64(hash),
+    iterations: PBKDF2_ITERATIONS,
+    createdAt: now.toISOString(),
+  };
+};
+
+const verifyPassword = async (credential: StoredCredential, password: string) =>
+  isSameHash(await hashPassword(password, fromBase64(credential.salt), credential.iterations), fromBase64(credential.hash));
+
+const createSession = (user: User, now = new Date()): Session => ({
+  user,
+  expiresAt: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+});
+
+export const createLocalAuthProvider = (store: KeyValueStore = localStorage): AuthProvider => {
+  const readCredentials = (): Record<string, StoredCredential> => JSON.parse(store.getItem(CREDENTIALS_KEY) || '{}');
+  const writeCredentials = (credentials: Record<string, StoredCredential>) =>
+    store.setItem(CREDENTIALS_KEY, JSON.stringify(credentials));
+
+  return {
+    register: async ({ email, password, name }) => {
+      if (password.length < MIN_PASSWORD_LENGTH) throw new Error('WEAK_PASSWORD');
+      const key = email.trim().toLowerCase();
+      const credentials = readCredentials();
+      if (credentials[key]) throw new Error('EMAIL_TAKEN');
+
+      const user: User = { id: getUserId(email), email: email.trim(), username: name?.trim() || key.split('@')[0] };
+      credentials[key] = await createCredential(user, password, new Date());
+      writeCredentials(credentials);
+      return createSession(user);
+    },
+
+    login: async (email, password) => {
+      const credential = readCredentials()[email.trim().toLowerCase()];
+      // Unknown emails and wrong passwords get the same answer
+      if (!credential || !(await verifyPassword(credential, password))) throw new Error('INVALID_CREDENTIALS');
+      return createSession({ id: credential.userId, email: credential.email, username: credential.username });
+    },
+
+    changePassword: async (user, currentPassword, newPassword) => {
+      if (newPassword.length < MIN_PASSWORD_LENGTH) throw new Error('WEAK_PASSWORD');
+      const key = user.email.trim().toLowerCase();
+      const credentials = readCredentials();
+      const credential = credentials[key];
+      if (!credential || !(await verifyPassword(credential, currentPassword))) throw new Error('INVALID_CREDENTIALS');
+
+      const now = new Date();
+      credentials[key] = { ...(await createCredential(user, newPassword, now)), createdAt: credential.createdAt, passwordChangedAt: now.toISOString() };
+      writeCredentials(credentials);
+    },
+  };
+};
+
+// Swap for a backend-backed provider here
+export const authProvider: AuthProvider = createLocalAuthProvider();
+
+export const isSessionExpired = (session: Session, now = new Date()) => new Date(session.expiresAt) <= now;
+
+export const loadSession = (store: KeyValueStore = localStorage): Session | null => {
+  // Sessions from before passwords were checked are not trusted
+  store.removeItem(LEGACY_USER_KEY);
+  try {
+    const session: Session | null = JSON.parse(store.getItem(SESSION_KEY) || 'null');
+    if (session && !isSessionExpired(session)) return session;
+  } catch (error) {
+    console.error("Corrupt session:", error);
+  }
+  store.removeItem(SESSION_KEY);
+  return null;
+};
+
+export const saveSession = (session: Session, store: KeyValueStore = localStorage) =>
+  store.setItem(SESSION_KEY, JSON.stringify(session));
+
+export const clearSession = (store: KeyValueStore = localStorage) => store.removeItem(SESSION_KEY);
@@ -0,0 +1,264 @@
+import { AccountType, Currency, TransactionStatus, TransactionType } from "../types";
+import {
+  COLLECTION_KEYS,
+  CollectionKey,
+  CollectionRecord,
+  PERSISTED_KEYS,
+  PersistedData,
+  RawData,
+  SCHEMA_VERSION,
+  getRecordKey,
+  isRecord,
+  migrate,
+  toPersistedData,
+  withoutEmptyKeys
+} from "./storageService";
+import { SealedValue, isEncryptedValue, openWithPassphrase, sealWithPassphrase } from "./encryptionService";
+import { getSplitRemainder } from "./splitService";
+
+/**
+ * Full backups: a single file with everything in PersistedData, stamped with the
+ * schema version it was written with. Restoring validates the file, runs it
+ * through the same migrations as stored data, and reports what would change.
+ * An encrypted backup wraps the whole file, sealed with a passphrase.
+ */
+
+export const BACKUP_APP_ID = 'little-treasury';
+
+export interface BackupFile {
+  app: typeof BACKUP_APP_ID;
+  kind: 'backup';
+  schemaVersion: number;
+  createdAt: string;
+  data: PersistedData;
+}
+
+export interface EncryptedBackupFile {
+  app: typeof BACKUP_APP_ID;
+  kind: 'encrypted-backup';
+  createdAt: string;
+  payload: SealedValue; // The backup file's JSON text
+}
+
+export interface BackupValidation {
+  data: PersistedData | null; // Null when the file cannot be restored
+  schemaVersion: number;
+  createdAt?: string;
+  errors: string[];
+}
+
+export interface CollectionDiff {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+}
+
+export interface BackupDiff {
+  collections: Record<CollectionKey, CollectionDiff>;
+  settings: { key: 'baseCurrency' | 'language'; from: string; to: string }[];
+}
+
+// Stop listing problems after this many; the file is rejected either way
+const MAX_ERRORS = 10;
+
+const isOneOf = (values: object, value: unknown) => (Object.values(values) as unknown[]).includes(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value !== '';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isDate = (value: unknown): value is string => typeof value === 'string' && !isNaN(Date.parse(value));
+
+// Entries that are not objects read as empty, so every check on them fails
+const fieldsOf = (value: unknown): RawData => isRecord(value) ? value : {};
+const entriesOf = (value: unknown): RawData[] => Array.isArray(value) ? value.map(fieldsOf) : [];
+
+const isComplete = (data: Partial<PersistedData>): data is PersistedData =>
+  PERSISTED_KEYS.every(key => data[key] !== undefined);
+
+export const createBackup = (data: PersistedData, now = new Date()): string => {
+  const file: BackupFile = {
+    app: BACKUP_APP_ID,
+    kind: 'backup',
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: now.toISOString(),
+    data,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const createEncryptedBackup = async (data: PersistedData, passphrase: string, now = new Date()): Promise<string> => {
+  const file: EncryptedBackupFile = {
+    app: BACKUP_APP_ID,
+    kind: 'encrypted-backup',
+    createdAt: now.toISOString(),
+    payload: await sealWithPassphrase(createBackup(data, now), passphrase),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const getBackupFilename = (now = new Date(), isEncrypted = false) =>
+  `little-treasury-backup_${now.toISOString().split('T')[0]}${isEncrypted ? '.encrypted' : ''}.json`;
+
+export const isEncryptedBackup = (text: string): boolean => {
+  try {
+    const file = JSON.parse(text);
+    return file?.app === BACKUP_APP_ID && file?.kind === 'encrypted-backup';
+  } catch {
+    return false;
+  }
+};
+
+// Returns the plain backup text for parseBackup; throws WRONG_PASSPHRASE
+export const decryptBackup = async (text: string, passphrase: string): Promise<string> => {
+  const file: EncryptedBackupFile = JSON.parse(text);
+  if (!isEncryptedValue(file.payload) || typeof file.payload.salt !== 'string') {
+    throw new Error('Not a Little Treasury backup file');
+  }
+  const backup = await openWithPassphrase(file.payload, passphrase);
+  if (typeof backup !== 'string') throw new Error('Not a Little Treasury backup file');
+  return backup;
+};
+
+const validateData = (data: RawData): string[] => {
+  const errors: string[] = [];
+  const check = (ok: boolean, message: string) => { if (!ok) errors.push(message); };
+
+  COLLECTION_KEYS.forEach(key =>
+    check(Array.isArray(data[key]), `"${key}" must be a list`)
+  );
+  if (errors.length) return errors;
+
+  const accounts = entriesOf(data.accounts);
+  accounts.forEach((a, i) => {
+    check(isText(a.id) && isText(a.name), `Account #${i + 1}: missing id or name`);
+    check(isOneOf(AccountType, a.type), `Account #${i + 1}: unknown type "${a.type}"`);
+    check(isOneOf(Currency, a.currency), `Account #${i + 1}: unknown currency "${a.currency}"`);
+    check(isNumber(a.balance), `Account #${i + 1}: invalid balance`);
+  });
+
+  const accountIds = new Set(accounts.map(a => a.id));
+  entriesOf(data.transactions).forEach((tx, i) => {
+    const label = `Transaction #${i + 1}`;
+    check(isText(tx.id), `${label}: missing id`);
+    check(isDate(tx.date), `${label}: invalid date "${tx.date}"`);
+    check(isNumber(tx.amount), `${label}: invalid amount`);
+    check(isOneOf(Currency, tx.currency), `${label}: unknown currency "${tx.currency}"`);
+    check(isOneOf(TransactionType, tx.type), `${label}: unknown type "${tx.type}"`);
+    check(isOneOf(TransactionStatus, tx.status), `${label}: unknown status "${tx.status}"`);
+    check(Array.isArray(tx.tags), `${label}: tags must be a list`);
+    check(accountIds.has(tx.accountId), `${label}: unknown account "${tx.accountId}"`);
+    if (tx.splits !== undefined) {
+      const lines = entriesOf(tx.splits);
+      const valid = lines.length > 0 && lines.every(l => isText(l.category) && isNumber(l.amount) && Array.isArray(l.tags));
+      check(valid, `${label}: invalid split lines`);
+      if (valid && isNumber(tx.amount)) {
+        const amounts = lines.map(l => ({ amount: isNumber(l.amount) ? l.amount : 0 }));
+        check(getSplitRemainder(tx.amount, amounts) === 0, `${label}: split lines do not add up to the amount`);
+      }
+    }
+  });
+
+  entriesOf(data.recurringRules).forEach((r, i) => {
+    check(isText(r.id) && isNumber(r.amount), `Recurring rule #${i + 1}: missing id or amount`);
+    check(isDate(r.nextDueDate), `Recurring rule #${i + 1}: invalid next due date`);
+  });
+
+  entriesOf(data.exchangeRates).forEach((r, i) => {
+    check(isOneOf(Currency, r.from) && isOneOf(Currency, r.to) && isNumber(r.rate) && r.rate > 0, `Exchange rate #${i + 1}: invalid pair or rate`);
+  });
+
+  entriesOf(data.budgets).forEach((b, i) => {
+    check(isText(b.id) && isText(b.category), `Budget #${i + 1}: missing id or category`);
+    check(isNumber(b.amount) && isOneOf(Currency, b.currency), `Budget #${i + 1}: invalid amount or currency`);
+    check(typeof b.startMonth === 'string' && /^\d{4}-\d{2}$/.test(b.startMonth), `Budget #${i + 1}: invalid start month`);
+  });
+
+  entriesOf(data.netWorthSnapshots).forEach((s, i) => {
+    check(isText(s.id) && isDate(s.date), `Net worth snapshot #${i + 1}: missing id or date`);
+    check(Array.isArray(s.balances) && entriesOf(s.balances).every(b =>
+      isOneOf(AccountType, b.type) && isOneOf(Currency, b.currency) && isNumber(b.amount)
+    ), `Net worth snapshot #${i + 1}: invalid balances`);
+  });
+
+  entriesOf(data.filterPresets).forEach((p, i) => {
+    check(isText(p.id) && isText(p.name) && isRecord(p.filter), `Filter preset #${i + 1}: missing id, name or filter`);
+  });
+
+  entriesOf(data.categories).forEach((c, i) => {
+    check(isText(c.id) && isText(c.name), `Category #${i + 1}: missing id or name`);
+    check(c.type === TransactionType.EXPENSE || c.type === TransactionType.INCOME, `Category #${i + 1}: unknown type "${c.type}"`);
+  });
+
+  entriesOf(data.holdingSnapshots).forEach((s, i) => {
+    check(isText(s.id) && accountIds.has(s.accountId) && isDate(s.date), `Holding snapshot #${i + 1}: missing id, account or date`);
+    check(isNumber(s.balance) && Array.isArray(s.holdings) && entriesOf(s.holdings).every(h =>
+      isText(h.name) && isNumber(h.amount)
+    ), `Holding snapshot #${i + 1}: invalid balance or holdings`);
+  });
+
+  check(isOneOf(Currency, data.baseCurrency), `Unknown base currency "${data.baseCurrency}"`);
+  check(data.language === 'en' || data.language === 'zh', `Unknown language "${data.language}"`);
+  return errors;
+};
+
+/**
+ * Parses a backup file and migrates it to the current schema. Files from a newer
+ * version of the app are rejected rather than guessed at.
+ */
+export const parseBackup = (text: string): BackupValidation => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { data: null, schemaVersion: 0, errors: ['Not a valid JSON file'] };
+  }
+
+  if (!isRecord(file) || file.app !== BACKUP_APP_ID || file.kind !== 'backup' || !isRecord(file.data)) {
+    return { data: null, schemaVersion: 0, errors: ['Not a Little Treasury backup file'] };
+  }
+
+  const schemaVersion = Number(file.schemaVersion);
+  const createdAt = typeof file.createdAt === 'string' ? file.createdAt : undefined;
+  if (!Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    return { data: null, schemaVersion: 0, errors: ['Missing schema version'] };
+  }
+  if (schemaVersion > SCHEMA_VERSION) {
+    return { data: null, schemaVersion, createdAt, errors: [`Backup is from a newer version (schema ${schemaVersion}); update the app first`] };
+  }
+
+  const fileData = file.data;
+  const known = Object.fromEntries(PERSISTED_KEYS.map(key => [key, fileData[key]]));
+  const migrated = withoutEmptyKeys(migrate(known, schemaVersion));
+  const errors = validateData(migrated);
+  const data = toPersistedData(migrated);
+  if (errors.length || !isComplete(data)) {
+    const extra = errors.length > MAX_ERRORS ? [`…and ${errors.length - MAX_ERRORS} more`] : [];
+    return { data: null, schemaVersion, createdAt, errors: [...errors.slice(0, MAX_ERRORS), ...extra] };
+  }
+  return { data, schemaVersion, createdAt, errors: [] };
+};
+
+const diffCollection = <K extends CollectionKey>(key: K, current: CollectionRecord<K>[], incoming: CollectionRecord<K>[]): CollectionDiff => {
+  const existing = new Map(current.map(r => [getRecordKey(key, r), JSON.stringify(r)]));
+  const diff: CollectionDiff = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  const seen = new Set<string>();
+
+  incoming.forEach(r => {
+    const id = getRecordKey(key, r);
+    seen.add(id);
+    if (!existing.has(id)) diff.added++;
+    else if (existing.get(id) === JSON.stringify(r)) diff.unchanged++;
+    else diff.changed++;
+  });
+  diff.removed = [...existing.keys()].filter(id => !seen.has(id)).length;
+  return diff;
+};
+
+// What replacing `current` with `incoming` would do
+export const diffBackup = (current: PersistedData, incoming: PersistedData): BackupDiff => ({
+  collections: Object.fromEntries(
+    COLLECTION_KEYS.map(key => [key, diffCollection(key, current[key], incoming[key])])
+  ) as Record<CollectionKey, CollectionDiff>,
+  settings: (['baseCurrency', 'language'] as const)
+    .filter(key => current[key] !== incoming[key])
+    .map(key => ({ key, from: current[key], to: incoming[key] })),
+});
@@ -0,0 +1,142 @@
+import { Budget, CategoryDefinition, Currency, ExchangeRate, Transaction, TransactionType } from "../types";
+import { getRecognizedAmount, toMonthKey } from "./amortizationService";
+import { convertAmount, getCategoryBreakdown } from "./ledgerService";
+import { createCategoryRollup, getCategoryFamily } from "./categoryService";
+import { getSplitLines } from "./splitService";
+
+/**
+ * Monthly category budgets. Spending is measured the same way as the dashboard's
+ * monthly expenses (amortized purchases count their monthly slice), and
+ * everything is converted to baseCurrency. A rollover budget carries what was
+ * left unused in earlier months; an overspent month carries nothing. A budget
+ * on a parent category also counts its subcategories.
+ */
+
+export interface BudgetProgress {
+  budget: Budget;
+  limit: number; // This month's limit in baseCurrency
+  carried: number; // Unused amount rolled over from earlier months, in baseCurrency
+  available: number; // limit + carried
+  spent: number; // In baseCurrency
+  remaining: number; // Negative when overspent
+  ratio: number; // spent / available
+}
+
+export interface BudgetWarning {
+  progress: BudgetProgress;
+  projected: number; // Spending this month including the new transaction
+  overBy: number;
+}
+
+// Share of the budget at which progress is shown as nearly used up
+export const BUDGET_WARNING_RATIO = 0.8;
+
+const monthStart = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(year, m - 1, 1);
+};
+
+const nextMonth = (month: string) => {
+  const d = monthStart(month);
+  return toMonthKey(new Date(d.getFullYear(), d.getMonth() + 1, 1));
+};
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export const createBudgetProgress = (
+  budgets: Budget[],
+  transactions: Transaction[],
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = [],
+  categories: CategoryDefinition[] = []
+) => {
+  // Category totals per month, computed once for every budget that needs them
+  const spending = new Map<string, Record<string, number>>();
+  const getSpent = (category: string, month: string) => {
+    if (!spending.has(month)) {
+      const totals = getCategoryBreakdown(transactions, baseCurrency, monthStart(month), rates);
+      spending.set(month, Object.fromEntries(totals.map(c => [c.category, c.amount])));
+    }
+    const totals = spending.get(month)!;
+    return getCategoryFamily(categories, category).reduce((sum, name) => sum + (totals[name] || 0), 0);
+  };
+
+  return (budget: Budget, month: Date = new Date()): BudgetProgress => {
+    const key = toMonthKey(month);
+    const limitIn = (m: string) => convertAmount(budget.amount, budget.currency, baseCurrency, rates, monthStart(m));
+
+    let carried = 0;
+    if (budget.rollover) {
+      for (let m = budget.startMonth; m < key; m = nextMonth(m)) {
+        carried = Math.max(0, carried + limitIn(m) - getSpent(budget.category, m));
+      }
+    }
+
+    const limit = limitIn(key);
+    const available = limit + carried;
+    const spent = getSpent(budget.category, key);
+    return {
+      budget,
+      limit: round(limit),
+      carried: round(carried),
+      available: round(available),
+      spent: round(spent),
+      remaining: round(available - spent),
+      ratio: available > 0 ? spent / available : spent > 0 ? Infinity : 0,
+    };
+  };
+};
+
+// Progress of every budget for the month, most used first
+export const getBudgetProgress = (
+  budgets: Budget[],
+  transactions: Transaction[],
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = [],
+  month: Date = new Date(),
+  categories: CategoryDefinition[] = []
+): BudgetProgress[] => {
+  const getProgress = createBudgetProgress(budgets, transactions, baseCurrency, rates, categories);
+  return budgets
+    .filter(b => b.startMonth <= toMonthKey(month))
+    .map(b => getProgress(b, month))
+    .sort((a, b) => b.ratio - a.ratio);
+};
+
+/**
+ * Whether saving `draft` would take its category over budget in the month it is
+ * recognized. `transactions` should not include the draft (or the version of it
+ * being edited). A subcategory without its own budget falls under its parent's,
+ * and each line of a split draft counts toward its own category's budget.
+ */
+export const getBudgetWarning = (
+  budgets: Budget[],
+  transactions: Transaction[],
+  draft: Transaction,
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = [],
+  categories: CategoryDefinition[] = []
+): BudgetWarning | null => {
+  if (draft.type !== TransactionType.EXPENSE || !(draft.amount > 0)) return null;
+  const month = new Date(draft.date);
+  const isActive = (b: Budget) => b.startMonth <= toMonthKey(month);
+  const rollup = createCategoryRollup(categories);
+
+  // Amount each budget would gain, summing lines that land on the same one
+  const added = new Map<Budget, number>();
+  getSplitLines(draft).forEach(line => {
+    const budget = budgets.find(b => b.category === line.category && isActive(b))
+      ?? budgets.find(b => b.category === rollup(line.category) && isActive(b));
+    if (!budget) return;
+    const amount = convertAmount(getRecognizedAmount(line, month), line.currency, baseCurrency, rates, line.date);
+    added.set(budget, (added.get(budget) || 0) + amount);
+  });
+
+  const getProgress = createBudgetProgress(budgets, transactions, baseCurrency, rates, categories);
+  for (const [budget, amount] of added) {
+    const progress = getProgress(budget, month);
+    const projected = round(progress.spent + amount);
+    if (projected > progress.available) return { progress, projected, overBy: round(projected - progress.available) };
+  }
+  return null;
+};
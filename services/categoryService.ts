@@ -0,0 +1,117 @@
+import { CategoryDefinition, CategoryType, EXPENSE_CATEGORIES, INCOME_CATEGORIES, Transaction, TransactionType } from "../types";
+import { TRANSLATIONS, Language } from "../translations";
+import { mapSplitLines } from "./splitService";
+
+/**
+ * User-managed categories. Transactions, rules and budgets keep storing the
+ * category name, so the definitions add structure on top: a parent for one
+ * level of nesting, a color and icon, per-language labels and an archived
+ * flag. Reports and budgets count a subcategory toward its parent.
+ */
+
+export const CATEGORY_COLORS = ['#111827', '#10B981', '#3B82F6', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#6B7280', '#84CC16'];
+
+const BUILT_IN_ICONS: Record<string, string> = {
+  Food: '🍜', Transport: '🚇', Housing: '🏠', Shopping: '🛍️', Entertainment: '🎬', Health: '💊',
+  Insurance: '🛡️', Family: '👪', Other: '📦', Salary: '💼', Bonus: '🎁', 'Part-time': '⏱️',
+  Investment: '📈', Gift: '🧧',
+};
+
+export const isCategoryType = (type: TransactionType): type is CategoryType =>
+  type === TransactionType.EXPENSE || type === TransactionType.INCOME;
+
+const newCategoryId = () => Math.random().toString(36).substr(2, 9);
+
+// Built-ins first, then custom names already used on transactions so they are remembered
+export const getDefaultCategories = (transactions: Transaction[] = []): CategoryDefinition[] => {
+  const categories: CategoryDefinition[] = [];
+  // Ids derive from the name so devices seeding separately agree when they sync
+  const add = (name: string, type: CategoryType) => {
+    if (categories.some(c => c.name === name && c.type === type)) return;
+    const id = `${type.toLowerCase()}-${name}`;
+    categories.push({ id, name, type, color: CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length], icon: BUILT_IN_ICONS[name] });
+  };
+  EXPENSE_CATEGORIES.forEach(name => add(name, TransactionType.EXPENSE));
+  INCOME_CATEGORIES.forEach(name => add(name, TransactionType.INCOME));
+  transactions.forEach(tx => {
+    if (isCategoryType(tx.type) && tx.category) add(tx.category, tx.type);
+  });
+  return categories;
+};
+
+export const findCategory = (categories: CategoryDefinition[], name: string, type?: CategoryType) =>
+  categories.find(c => c.name === name && (!type || c.type === type));
+
+export const getCategoryLabel = (categories: CategoryDefinition[], name: string, language: Language, type?: CategoryType): string => {
+  const category = findCategory(categories, name, type);
+  const builtIn = TRANSLATIONS[language].categoryNames as Record<string, string>;
+  return category?.labels?.[language] || builtIn[name] || name;
+};
+
+// Maps a category name to its parent's name; top-level and unknown names map to themselves
+export const createCategoryRollup = (categories: CategoryDefinition[], type: CategoryType = TransactionType.EXPENSE) => {
+  const byId = new Map(categories.map(c => [c.id, c]));
+  const parents = new Map(categories
+    .filter(c => c.type === type && c.parentId && byId.has(c.parentId))
+    .map(c => [c.name, byId.get(c.parentId!)!.name]));
+  return (name: string) => parents.get(name) ?? name;
+};
+
+// The category and its subcategories, for totals that include children
+export const getCategoryFamily = (categories: CategoryDefinition[], name: string, type: CategoryType = TransactionType.EXPENSE): string[] => {
+  const category = findCategory(categories, name, type);
+  if (!category) return [name];
+  return [name, ...categories.filter(c => c.parentId === category.id).map(c => c.name)];
+};
+
+/**
+ * Picker entries for a type: each parent followed by its children. Archived
+ * categories are left out unless `keep` names one, e.g. the category of a
+ * transaction being edited.
+ */
+export const getCategoryOptions = (categories: CategoryDefinition[], type: CategoryType, keep?: string) => {
+  const visible = categories.filter(c => c.type === type && (!c.archived || c.name === keep));
+  const isTopLevel = (c: CategoryDefinition) => !c.parentId || !visible.some(p => p.id === c.parentId);
+  return visible.filter(isTopLevel).flatMap(parent => [
+    { category: parent, depth: 0 },
+    ...visible.filter(c => c.parentId === parent.id).map(category => ({ category, depth: 1 })),
+  ]);
+};
+
+// Adds a category typed into a form so it is offered next time
+export const ensureCategory = (categories: CategoryDefinition[], name: string, type: TransactionType): CategoryDefinition[] => {
+  const trimmed = name.trim();
+  if (!trimmed || !isCategoryType(type) || findCategory(categories, trimmed, type)) return categories;
+  return [...categories, { id: newCategoryId(), name: trimmed, type, color: CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length] }];
+};
+
+/**
+ * Moves records from one category name to another. Used both to rename a
+ * category and to merge it into another. Records without a type (budgets, and
+ * rules saved before income rules existed) are expenses. Records of the other
+ * type, and untouched records, are returned as they were.
+ */
+export const recategorize = <T extends { category: string; type?: TransactionType }>(
+  items: T[],
+  from: string,
+  to: string,
+  type: CategoryType
+): T[] =>
+  items.map(item => item.category === from && (item.type ?? TransactionType.EXPENSE) === type ? { ...item, category: to } : item);
+
+// Same as `recategorize`, also moving the lines of split transactions
+export const recategorizeTransactions = (transactions: Transaction[], from: string, to: string, type: CategoryType): Transaction[] =>
+  recategorize(transactions, from, to, type).map(tx => tx.type !== type ? tx : mapSplitLines(tx, line =>
+    line.category === from ? { ...line, category: to } : line));
+
+/**
+ * Removes `source` after its records have been moved to `target`. Its
+ * subcategories move under the target, or become top-level when the target is
+ * itself a subcategory, so nesting stays one level deep.
+ */
+export const mergeCategoryDefinitions = (categories: CategoryDefinition[], sourceId: string, targetId: string): CategoryDefinition[] => {
+  const target = categories.find(c => c.id === targetId);
+  return categories
+    .filter(c => c.id !== sourceId)
+    .map(c => c.parentId === sourceId ? { ...c, parentId: target?.parentId ? undefined : targetId } : c);
+};
@@ -0,0 +1,173 @@
+import { Account, AccountType, CreditTerms, ExchangeRate, Transaction } from "../types";
+import { getPostings } from "./ledgerService";
+import { toDateKey } from "./exchangeRateService";
+
+/**
+ * Statement cycles of credit accounts. Nothing is stored besides the account's
+ * terms: statements are rebuilt from the postings in each cycle, and one counts
+ * as paid once payments (transfers or refunds into the account) made after it
+ * closed cover its balance. History starts when the terms were set or at the
+ * account's first posting, whichever is earlier. Whatever was owed before that
+ * is carried in: payments pay it down first, but it is never billed on a
+ * statement. Amounts are in the account's currency; a balance owed is positive
+ * here although the account balance is negative.
+ */
+
+export type StatementStatus = 'PAID' | 'DUE' | 'PARTIAL' | 'OVERDUE';
+
+export interface CreditStatement {
+  startDate: string; // YYYY-MM-DD, first day of the cycle
+  closingDate: string; // YYYY-MM-DD, last day of the cycle
+  dueDate: string;
+  balance: number; // Owed at closing, carried balance included; 0 when in credit
+  charges: number; // Spending posted in the cycle
+  credits: number; // Payments and refunds posted in the cycle
+  minimumPayment: number;
+  paid: number; // Paid after closing, until the next statement closed
+  status: StatementStatus; // PARTIAL: past due with at least the minimum paid
+}
+
+export interface CreditSummary {
+  owed: number; // Current balance owed
+  availableCredit: number;
+  utilization: number; // owed / limit
+  unbilled: number; // Charges since the last statement closed
+  carriedIn: number; // Owed from before the history started, not paid off yet
+  statements: CreditStatement[]; // Newest first, cycles without activity left out
+}
+
+export interface CreditReminder {
+  account: Account;
+  statement: CreditStatement;
+  daysLeft: number; // Negative once overdue
+}
+
+export const DEFAULT_MINIMUM_PAYMENT_RATE = 0.1;
+export const DUE_REMINDER_DAYS = 7;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// The given day of a month as YYYY-MM-DD, clamped to the month's last day
+const dayOfMonth = (year: number, monthIndex: number, day: number) => {
+  const first = new Date(Date.UTC(year, monthIndex, 1));
+  const last = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  return `${first.getUTCFullYear()}-${pad(first.getUTCMonth() + 1)}-${pad(Math.min(day, last))}`;
+};
+
+const addDays = (day: string, days: number) => {
+  const d = new Date(`${day}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toDateKey(d);
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00.000Z`) - Date.parse(`${from}T00:00:00.000Z`)) / 86400000);
+
+export const hasCreditTerms = (account: Account): account is Account & { credit: CreditTerms } =>
+  account.type === AccountType.CREDIT && !!account.credit;
+
+// Due on the first due day after closing: later the same month, otherwise the next
+export const getDueDate = (terms: CreditTerms, closingDate: string): string => {
+  const [year, month] = closingDate.split('-').map(Number);
+  const sameMonth = dayOfMonth(year, month - 1, terms.dueDay);
+  return sameMonth > closingDate ? sameMonth : dayOfMonth(year, month, terms.dueDay);
+};
+
+// Closing dates of the last `count` statements on or before `today`, newest first
+export const getClosingDates = (terms: CreditTerms, today: string, count: number): string[] => {
+  const [year, month] = today.split('-').map(Number);
+  const start = dayOfMonth(year, month - 1, terms.closingDay) <= today ? month - 1 : month - 2;
+  return Array.from({ length: count }, (_, i) => dayOfMonth(year, start - i, terms.closingDay));
+};
+
+export const getCreditSummary = (
+  account: Account,
+  transactions: Transaction[],
+  accounts: Account[],
+  rates: ExchangeRate[] = [],
+  now: Date = new Date(),
+  count = 12
+): CreditSummary | null => {
+  if (!hasCreditTerms(account)) return null;
+  const terms = account.credit;
+  const today = toDateKey(now);
+  const postings = transactions
+    .flatMap(tx => getPostings(tx, accounts, rates))
+    .filter(p => p.accountId === account.id)
+    .map(p => ({ day: toDateKey(p.date), amount: p.amount }));
+  const firstPosting = postings.reduce<string | undefined>((first, p) => !first || p.day < first ? p.day : first, undefined);
+  const start = [terms.since, firstPosting].filter((d): d is string => !!d).sort()[0] ?? today;
+  const sum = (from: string, to: string, sign: 1 | -1) => round(postings
+    .filter(p => p.day > from && p.day <= to && Math.sign(p.amount) === sign)
+    .reduce((total, p) => total + Math.abs(p.amount), 0));
+  // The live balance with everything posted after `day` undone
+  const balanceAt = (day: string) => postings.filter(p => p.day > day).reduce((b, p) => b - p.amount, account.balance);
+  const opening = addDays(start, -1);
+  const openingOwed = Math.max(0, -balanceAt(opening));
+  // The carried-in balance left on `day` once payments since the start went to it
+  const carriedAt = (day: string) => Math.max(0, openingOwed - sum(opening, day, 1));
+
+  // One extra closing date so the oldest statement knows where its cycle starts
+  const closings = getClosingDates(terms, today, count + 1);
+  // Cycles that closed before the history started have nothing to bill
+  const statements = closings.slice(0, count).filter(closingDate => closingDate >= start).map((closingDate, i): CreditStatement => {
+    const previous = closings[i + 1];
+    const next = i === 0 ? today : closings[i - 1];
+    const dueDate = getDueDate(terms, closingDate);
+    const balance = round(Math.max(0, -balanceAt(closingDate) - carriedAt(closingDate)));
+    const paid = sum(closingDate, next, 1);
+    const minimumPayment = round(balance * (terms.minimumPaymentRate ?? DEFAULT_MINIMUM_PAYMENT_RATE));
+    const status: StatementStatus = paid >= balance ? 'PAID'
+      : today <= dueDate ? 'DUE'
+      : paid >= minimumPayment ? 'PARTIAL'
+      : 'OVERDUE';
+    return {
+      startDate: addDays(previous, 1),
+      closingDate,
+      dueDate,
+      balance,
+      charges: sum(previous, closingDate, -1),
+      credits: sum(previous, closingDate, 1),
+      minimumPayment,
+      paid,
+      status,
+    };
+  });
+
+  const owed = round(Math.max(0, -account.balance));
+  return {
+    owed,
+    availableCredit: round(terms.limit + account.balance),
+    utilization: terms.limit > 0 ? owed / terms.limit : 0,
+    unbilled: sum(closings[0] < start ? opening : closings[0], today, -1),
+    carriedIn: round(carriedAt(today)),
+    statements: statements.filter((s, i) => i === 0 || s.balance > 0 || s.charges > 0 || s.credits > 0),
+  };
+};
+
+// What is still to pay on a statement
+export const getStatementRemaining = (statement: CreditStatement): number =>
+  round(Math.max(0, statement.balance - statement.paid));
+
+/**
+ * Latest statements that are unpaid and due within `withinDays`, or overdue.
+ * Older statements are not listed: what is left of them is carried into the
+ * latest balance.
+ */
+export const getCreditReminders = (
+  accounts: Account[],
+  transactions: Transaction[],
+  rates: ExchangeRate[] = [],
+  now: Date = new Date(),
+  withinDays = DUE_REMINDER_DAYS
+): CreditReminder[] => {
+  const today = toDateKey(now);
+  return accounts.flatMap(account => {
+    const statement = getCreditSummary(account, transactions, accounts, rates, now, 1)?.statements[0];
+    if (!statement || (statement.status !== 'DUE' && statement.status !== 'OVERDUE')) return [];
+    const daysLeft = daysBetween(today, statement.dueDate);
+    return daysLeft <= withinDays ? [{ account, statement, daysLeft }] : [];
+  }).sort((a, b) => a.daysLeft - b.daysLeft);
+};
@@ -0,0 +1,175 @@
+import { DataCipher, getStorageKey } from "./storageService";
+
+/**
+ * Encryption at rest with WebCrypto. Each user has a random AES-GCM data key
+ * that encrypts their records; the data key is stored wrapped by a key derived
+ * from their passphrase (PBKDF2), so it only ever exists unwrapped in memory.
+ * Changing the passphrase re-wraps the data key instead of re-encrypting every
+ * record. Backups are sealed with a key derived from their own passphrase.
+ */
+
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600000;
+
+// Thrown as Error messages so the UI can translate them
+export type EncryptionErrorCode = 'WRONG_PASSPHRASE' | 'DECRYPTION_FAILED';
+
+export interface EncryptedValue {
+  enc: 1;
+  iv: string; // Base64
+  data: string; // Base64 ciphertext of the JSON value
+}
+
+// Encrypted with a key derived from a passphrase rather than with a data key
+export interface SealedValue extends EncryptedValue {
+  salt: string;
+  iterations: number;
+}
+
+export interface KeyEnvelope {
+  version: 1;
+  salt: string;
+  iterations: number;
+  iv: string;
+  wrappedKey: string;
+  createdAt: string;
+  rotatedAt?: string;
+  encryptedAt?: string; // Set once data stored before encryption existed has been rewritten
+}
+
+// btoa takes a string of char codes; spreading large arrays would overflow the stack
+const CHUNK_SIZE = 0x8000;
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export const isEncryptedValue = (value: unknown): value is EncryptedValue =>
+  !!value && typeof value === 'object' &&
+  (value as EncryptedValue).enc === 1 &&
+  typeof (value as EncryptedValue).iv === 'string' &&
+  typeof (value as EncryptedValue).data === 'string';
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+  );
+};
+
+export const encryptValue = async (key: CryptoKey, value: unknown): Promise<EncryptedValue> => {
+  const iv = randomBytes(12);
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { enc: 1, iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+// AES-GCM authenticates the ciphertext, so a wrong key or tampered data fails here
+export const decryptValue = async (key: CryptoKey, value: EncryptedValue): Promise<unknown> => {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data));
+  } catch {
+    throw new Error('DECRYPTION_FAILED');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+export const createCipher = (key: CryptoKey): DataCipher => ({
+  encrypt: value => encryptValue(key, value),
+  // Data written before encryption was enabled is passed through as is
+  decrypt: async value => isEncryptedValue(value) ? decryptValue(key, value) : value,
+});
+
+export const sealWithPassphrase = async (value: unknown, passphrase: string): Promise<SealedValue> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return { ...(await encryptValue(key, value)), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+};
+
+export const openWithPassphrase = async (sealed: SealedValue, passphrase: string): Promise<unknown> => {
+  const key = await deriveKey(passphrase, fromBase64(sealed.salt), sealed.iterations);
+  try {
+    return await decryptValue(key, sealed);
+  } catch {
+    throw new Error('WRONG_PASSPHRASE');
+  }
+};
+
+// --- Per-user data key ---
+
+export const loadKeyEnvelope = (userId: string): KeyEnvelope | null => {
+  const saved = localStorage.getItem(getStorageKey(userId, 'encryption'));
+  return saved ? JSON.parse(saved) : null;
+};
+
+const saveKeyEnvelope = (userId: string, envelope: KeyEnvelope) =>
+  localStorage.setItem(getStorageKey(userId, 'encryption'), JSON.stringify(envelope));
+
+const wrapDataKey = async (dataKey: CryptoKey, passphrase: string) => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const wrappingKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, iv: toBase64(iv), wrappedKey: toBase64(new Uint8Array(wrapped)) };
+};
+
+/**
+ * Unwraps the user's data key with their passphrase, creating the key on first
+ * use. The key is extractable only so it can be re-wrapped when the passphrase
+ * changes; it is never written anywhere unwrapped.
+ */
+export const unlockDataKey = async (userId: string, passphrase: string, now = new Date()): Promise<CryptoKey> => {
+  const envelope = loadKeyEnvelope(userId);
+  if (!envelope) {
+    const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    saveKeyEnvelope(userId, { version: 1, ...(await wrapDataKey(dataKey, passphrase)), createdAt: now.toISOString() });
+    return dataKey;
+  }
+
+  const wrappingKey = await deriveKey(passphrase, fromBase64(envelope.salt), envelope.iterations);
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      fromBase64(envelope.wrappedKey),
+      wrappingKey,
+      { name: 'AES-GCM', iv: fromBase64(envelope.iv) },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    throw new Error('WRONG_PASSPHRASE');
+  }
+};
+
+/**
+ * Re-wraps the data key under a new passphrase. The slow key derivation happens
+ * up front; the returned commit is a single synchronous write, so it can run
+ * right after the password change without leaving a window where the two differ.
+ */
+export const prepareKeyRotation = async (userId: string, dataKey: CryptoKey, newPassphrase: string): Promise<(now?: Date) => void> => {
+  const envelope = loadKeyEnvelope(userId);
+  if (!envelope) throw new Error('No encryption key to rotate');
+  const wrapped = await wrapDataKey(dataKey, newPassphrase);
+  return (now = new Date()) => saveKeyEnvelope(userId, { ...envelope, ...wrapped, rotatedAt: now.toISOString() });
+};
+
+export const isDataEncrypted = (userId: string) => !!loadKeyEnvelope(userId)?.encryptedAt;
+
+export const markDataEncrypted = (userId: string, now = new Date()) => {
+  const envelope = loadKeyEnvelope(userId);
+  if (envelope) saveKeyEnvelope(userId, { ...envelope, encryptedAt: now.toISOString() });
+};
@@ -0,0 +1,111 @@
+import { Currency, EXCHANGE_RATES, ExchangeRate } from "../types";
+
+/**
+ * Dated exchange-rate store. Lookups return the rate in effect on a given day,
+ * falling back to the static EXCHANGE_RATES when the table has no data for a pair.
+ */
+
+export const RATE_FEED_URL = '/exchange-rates.json';
+
+// Shape of the local file standing in for a live rate feed
+export interface RateFeed {
+  date: string;
+  base: Currency;
+  rates: Partial<Record<Currency, number>>; // 1 unit of the key = value units of base
+}
+
+export interface RateImportResult {
+  rates: ExchangeRate[];
+  errors: string[];
+}
+
+const PIVOT = Currency.CNY;
+
+export const toDateKey = (date: string | Date = new Date()): string =>
+  (typeof date === 'string' ? date : date.toISOString()).split('T')[0];
+
+const isCurrency = (value: string): value is Currency =>
+  (Object.values(Currency) as string[]).includes(value);
+
+const rateKey = (r: Pick<ExchangeRate, 'date' | 'from' | 'to'>) => `${r.date}|${r.from}|${r.to}`;
+
+/**
+ * Rate for the pair as quoted in the table (either direction), preferring the latest
+ * entry on or before `day`. Before the first entry, the earliest one is used.
+ */
+const findTableRate = (rates: ExchangeRate[], from: Currency, to: Currency, day: string): number | null => {
+  const quotes = rates
+    .filter(r => (r.from === from && r.to === to) || (r.from === to && r.to === from))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (quotes.length === 0) return null;
+
+  const effective = [...quotes].reverse().find(r => r.date <= day) || quotes[0];
+  return effective.from === from ? effective.rate : 1 / effective.rate;
+};
+
+const getPivotRate = (rates: ExchangeRate[], currency: Currency, day: string): number =>
+  currency === PIVOT ? 1 : findTableRate(rates, currency, PIVOT, day) ?? EXCHANGE_RATES[currency];
+
+export const getRate = (rates: ExchangeRate[], from: Currency, to: Currency, date?: string | Date): number => {
+  if (from === to) return 1;
+  const day = toDateKey(date);
+  const direct = findTableRate(rates, from, to, day);
+  if (direct !== null) return direct;
+  // Cross through CNY, which the static table is quoted in
+  return getPivotRate(rates, from, day) / getPivotRate(rates, to, day);
+};
+
+// Incoming rates replace existing ones for the same day and pair
+export const mergeRates = (existing: ExchangeRate[], incoming: ExchangeRate[]): ExchangeRate[] => {
+  const byKey = new Map(existing.map(r => [rateKey(r), r]));
+  incoming.forEach(r => byKey.set(rateKey(r), r));
+  return Array.from(byKey.values()).sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from));
+};
+
+export const removeRate = (rates: ExchangeRate[], rate: ExchangeRate): ExchangeRate[] =>
+  rates.filter(r => rateKey(r) !== rateKey(rate));
+
+/**
+ * Parses CSV rows of `date,from,to,rate` (e.g. `2024-03-01,USD,CNY,7.19`).
+ * A header row is skipped; invalid rows are reported by line number.
+ */
+export const parseRatesCsv = (csv: string): RateImportResult => {
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+
+  csv.split(/\r?\n/).forEach((line, index) => {
+    const cells = line.split(',').map(c => c.trim().replace(/^"|"$/g, ''));
+    if (cells.every(c => c === '')) return;
+    if (index === 0 && isNaN(Date.parse(cells[0]))) return; // Header
+
+    const [date, fromCode = '', toCode = '', rate] = cells;
+    const from = fromCode.toUpperCase();
+    const to = toCode.toUpperCase();
+    const value = parseFloat(rate);
+    if (isNaN(Date.parse(date)) || !isCurrency(from) || !isCurrency(to) || from === to || !(value > 0)) {
+      errors.push(`Line ${index + 1}: ${line}`);
+      return;
+    }
+    const day = /^\d{4}-\d{2}-\d{2}/.test(date) ? date.slice(0, 10) : toDateKey(new Date(date));
+    rates.push({ date: day, from, to, rate: value, source: 'CSV' });
+  });
+
+  return { rates, errors };
+};
+
+export const parseRateFeed = (feed: RateFeed): ExchangeRate[] =>
+  Object.entries(feed.rates)
+    .filter(([currency, rate]) => isCurrency(currency) && currency !== feed.base && typeof rate === 'number' && rate > 0)
+    .map(([currency, rate]) => ({
+      date: toDateKey(feed.date),
+      from: currency as Currency,
+      to: feed.base,
+      rate: rate as number,
+      source: 'FEED' as const,
+    }));
+
+export const fetchRateFeed = async (url: string = RATE_FEED_URL): Promise<ExchangeRate[]> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Rate feed unavailable (${response.status})`);
+  return parseRateFeed(await response.json());
+};
@@ -0,0 +1,262 @@
+import { Account, AccountType, ExchangeRate, Transaction, TransactionStatus, TransactionType } from "../types";
+import { TRANSFER_FEE_CATEGORY, getPostings } from "./ledgerService";
+import { toDateKey } from "./exchangeRateService";
+import { getSplitLines, isSplit } from "./splitService";
+
+/**
+ * Ledger export for accountants and spreadsheet tools. CSV and JSON carry every
+ * field; OFX and QIF are per-account statements with the extra fields (tags,
+ * status, expected date, amortization) folded into the memo.
+ */
+
+export type ExportFormat = 'CSV' | 'JSON' | 'OFX' | 'QIF';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['CSV', 'JSON', 'OFX', 'QIF'];
+
+// Bump when the shape of the JSON export changes
+export const EXPORT_JSON_VERSION = 1;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  accountIds?: string[]; // Empty or missing means all accounts
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  CSV: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  JSON: { extension: 'json', mimeType: 'application/json' },
+  OFX: { extension: 'ofx', mimeType: 'application/x-ofx' },
+  QIF: { extension: 'qif', mimeType: 'application/qif' },
+};
+
+const CSV_COLUMNS = [
+  'id', 'date', 'expectedDate', 'type', 'status', 'amount', 'currency', 'category', 'tags',
+  'account', 'toAccount', 'receivedAmount', 'fxRate', 'fee', 'note',
+  'isAmortized', 'amortizationMonths', 'isRecurring', 'recurringRuleId',
+] as const;
+
+const isSelected = (accountId: string | undefined, accountIds?: string[]) =>
+  !accountIds || accountIds.length === 0 || (!!accountId && accountIds.includes(accountId));
+
+export const filterTransactions = (transactions: Transaction[], options: Omit<ExportOptions, 'format'>): Transaction[] =>
+  transactions
+    .filter(tx => {
+      const day = toDateKey(tx.date);
+      if (options.from && day < options.from) return false;
+      if (options.to && day > options.to) return false;
+      return isSelected(tx.accountId, options.accountIds) || isSelected(tx.toAccountId, options.accountIds);
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+const escapeCsv = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (transactions: Transaction[], accounts: Account[]): string => {
+  const accountName = (id?: string) => accounts.find(a => a.id === id)?.name ?? id ?? '';
+  const lines = transactions.map(tx => {
+    const row: Partial<Record<typeof CSV_COLUMNS[number], unknown>> = {
+      ...tx,
+      tags: tx.tags.join(';'),
+      account: accountName(tx.accountId),
+      toAccount: tx.toAccountId ? accountName(tx.toAccountId) : '',
+    };
+    return CSV_COLUMNS.map(c => escapeCsv(row[c])).join(',');
+  });
+  // BOM so Excel opens Chinese text as UTF-8
+  return '\uFEFF' + [CSV_COLUMNS.join(','), ...lines].join('\r\n');
+};
+
+export const toJson = (transactions: Transaction[], accounts: Account[], options: Omit<ExportOptions, 'format'>, now = new Date()): string => {
+  const usedIds = new Set(transactions.flatMap(tx => [tx.accountId, tx.toAccountId]));
+  return JSON.stringify({
+    app: 'little-treasury',
+    version: EXPORT_JSON_VERSION,
+    exportedAt: now.toISOString(),
+    range: { from: options.from ?? null, to: options.to ?? null },
+    accounts: accounts.filter(a => usedIds.has(a.id) && isSelected(a.id, options.accountIds)),
+    transactions,
+  }, null, 2);
+};
+
+// Extra fields that OFX and QIF have no slot for
+const describeExtras = (tx: Transaction): string => {
+  const parts = [tx.note];
+  if (tx.tags.length) parts.push(tx.tags.map(tag => `#${tag}`).join(' '));
+  if (tx.status === TransactionStatus.PENDING) parts.push(`[${tx.status}]`);
+  if (tx.expectedDate) parts.push(`expected ${toDateKey(tx.expectedDate)}`);
+  if (tx.isAmortized && tx.amortizationMonths > 0) parts.push(`amortized over ${tx.amortizationMonths} months`);
+  return parts.filter(Boolean).join(' | ');
+};
+
+/**
+ * Signed amount the transaction moves on one account, as the ledger would post it.
+ * Pending entries are exported with the amount they will post once completed.
+ */
+const getAccountAmount = (tx: Transaction, account: Account, accounts: Account[], rates: ExchangeRate[]): number =>
+  getPostings({ ...tx, status: TransactionStatus.COMPLETED }, accounts, rates)
+    .filter(p => p.accountId === account.id)
+    .reduce((sum, p) => sum + p.amount, 0);
+
+const accountTransactions = (account: Account, transactions: Transaction[]) =>
+  transactions.filter(tx => tx.accountId === account.id || tx.toAccountId === account.id);
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toOfxDate = (date: string | Date) => toDateKey(date).replace(/-/g, '');
+
+const getOfxTrnType = (tx: Transaction, amount: number) => {
+  if (tx.type === TransactionType.TRANSFER) return 'XFER';
+  return amount < 0 ? 'DEBIT' : 'CREDIT';
+};
+
+export const toOfx = (
+  transactions: Transaction[],
+  accounts: Account[],
+  options: Omit<ExportOptions, 'format'>,
+  rates: ExchangeRate[] = [],
+  now = new Date()
+): string => {
+  const start = options.from || (transactions[0] ? toDateKey(transactions[0].date) : toDateKey(now));
+  const end = options.to || toDateKey(now);
+
+  const statement = (account: Account) => {
+    const isCard = account.type === AccountType.CREDIT;
+    const entries = accountTransactions(account, transactions).map(tx => {
+      const amount = getAccountAmount(tx, account, accounts, rates);
+      return [
+        '<STMTTRN>',
+        `<TRNTYPE>${getOfxTrnType(tx, amount)}</TRNTYPE>`,
+        `<DTPOSTED>${toOfxDate(tx.date)}</DTPOSTED>`,
+        tx.expectedDate ? `<DTAVAIL>${toOfxDate(tx.expectedDate)}</DTAVAIL>` : '',
+        `<TRNAMT>${amount.toFixed(2)}</TRNAMT>`,
+        `<FITID>${escapeXml(tx.id)}</FITID>`,
+        `<NAME>${escapeXml(tx.category.slice(0, 32))}</NAME>`,
+        `<MEMO>${escapeXml(describeExtras(tx).slice(0, 255))}</MEMO>`,
+        '</STMTTRN>',
+      ].filter(Boolean).join('');
+    });
+    const accountFrom = isCard
+      ? `<CCACCTFROM><ACCTID>${escapeXml(account.id)}</ACCTID></CCACCTFROM>`
+      : `<BANKACCTFROM><BANKID>LITTLETREASURY</BANKID><ACCTID>${escapeXml(account.id)}</ACCTID><ACCTTYPE>${account.type === AccountType.LOAN ? 'CREDITLINE' : 'SAVINGS'}</ACCTTYPE></BANKACCTFROM>`;
+    const body = [
+      `<CURDEF>${account.currency}</CURDEF>`,
+      accountFrom,
+      `<BANKTRANLIST><DTSTART>${start.replace(/-/g, '')}</DTSTART><DTEND>${end.replace(/-/g, '')}</DTEND>`,
+      ...entries,
+      '</BANKTRANLIST>',
+      `<LEDGERBAL><BALAMT>${account.balance.toFixed(2)}</BALAMT><DTASOF>${toOfxDate(now)}</DTASOF></LEDGERBAL>`,
+    ].join('\n');
+    const status = '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>';
+    return isCard
+      ? `<CCSTMTTRNRS><TRNUID>${escapeXml(account.id)}</TRNUID>${status}\n<CCSTMTRS>\n${body}\n</CCSTMTRS></CCSTMTTRNRS>`
+      : `<STMTTRNRS><TRNUID>${escapeXml(account.id)}</TRNUID>${status}\n<STMTRS>\n${body}\n</STMTRS></STMTTRNRS>`;
+  };
+
+  const selected = accounts.filter(a => isSelected(a.id, options.accountIds));
+  const banks = selected.filter(a => a.type !== AccountType.CREDIT).map(statement);
+  const cards = selected.filter(a => a.type === AccountType.CREDIT).map(statement);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    `<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS><DTSERVER>${toOfxDate(now)}</DTSERVER><LANGUAGE>ENG</LANGUAGE></SONRS></SIGNONMSGSRSV1>`,
+    banks.length ? `<BANKMSGSRSV1>\n${banks.join('\n')}\n</BANKMSGSRSV1>` : '',
+    cards.length ? `<CREDITCARDMSGSRSV1>\n${cards.join('\n')}\n</CREDITCARDMSGSRSV1>` : '',
+    '</OFX>',
+  ].filter(Boolean).join('\n');
+};
+
+const QIF_ACCOUNT_TYPES: Record<AccountType, string> = {
+  [AccountType.SAVINGS]: 'Bank',
+  [AccountType.INVESTMENT]: 'Bank', // Cash side only; holdings are not transactions here
+  [AccountType.CREDIT]: 'CCard',
+  [AccountType.LOAN]: 'Oth L',
+};
+
+const toQifDate = (date: string) => {
+  const [year, month, day] = toDateKey(date).split('-');
+  return `${month}/${day}/${year}`;
+};
+
+// QIF lines cannot contain line breaks
+const qifText = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+export const toQif = (
+  transactions: Transaction[],
+  accounts: Account[],
+  options: Omit<ExportOptions, 'format'>,
+  rates: ExchangeRate[] = []
+): string => {
+  const accountName = (id?: string) => qifText(accounts.find(a => a.id === id)?.name ?? id ?? '');
+  const lines: string[] = ['!Option:AutoSwitch'];
+
+  accounts.filter(a => isSelected(a.id, options.accountIds)).forEach(account => {
+    const type = QIF_ACCOUNT_TYPES[account.type];
+    lines.push('!Account', `N${qifText(account.name)}`, `T${type}`, '^', `!Type:${type}`);
+
+    accountTransactions(account, transactions).forEach(tx => {
+      const amount = getAccountAmount(tx, account, accounts, rates);
+      const isOutgoingTransfer = tx.type === TransactionType.TRANSFER && tx.accountId === account.id;
+      // Tags map to QIF classes: Category/tag1:tag2
+      const classes = tx.tags.length ? `/${tx.tags.map(qifText).join(':')}` : '';
+      const category = tx.type === TransactionType.TRANSFER
+        ? `[${accountName(isOutgoingTransfer ? tx.toAccountId : tx.accountId)}]`
+        : qifText(tx.category) + classes;
+
+      lines.push(
+        `D${toQifDate(tx.date)}`,
+        `T${amount.toFixed(2)}`,
+        `C${tx.status === TransactionStatus.COMPLETED ? 'X' : ''}`,
+        `P${qifText(tx.note || tx.category)}`,
+        `M${qifText(describeExtras(tx))}`,
+        `L${category}`
+      );
+      // Split the fee out of an outgoing transfer so both legs balance
+      if (isOutgoingTransfer && tx.fee) {
+        lines.push(`S${category}`, `$${(-tx.amount).toFixed(2)}`, `S${TRANSFER_FEE_CATEGORY}${classes}`, `$${(-tx.fee).toFixed(2)}`);
+      }
+      // Split transactions map to QIF splits, one per line
+      if (isSplit(tx)) {
+        const sign = tx.type === TransactionType.INCOME ? 1 : -1;
+        getSplitLines(tx).forEach(line => {
+          const lineClasses = line.tags.length ? `/${line.tags.map(qifText).join(':')}` : '';
+          lines.push(`S${qifText(line.category)}${lineClasses}`, `E${qifText(line.note)}`, `$${(sign * line.amount).toFixed(2)}`);
+        });
+      }
+      lines.push('^');
+    });
+  });
+
+  return lines.join('\r\n') + '\r\n';
+};
+
+export const exportTransactions = (
+  transactions: Transaction[],
+  accounts: Account[],
+  options: ExportOptions,
+  rates: ExchangeRate[] = [],
+  now = new Date()
+): ExportFile => {
+  const selected = filterTransactions(transactions, options);
+  let content: string;
+  switch (options.format) {
+    case 'CSV': content = toCsv(selected, accounts); break;
+    case 'JSON': content = toJson(selected, accounts, options, now); break;
+    case 'OFX': content = toOfx(selected, accounts, options, rates, now); break;
+    case 'QIF': content = toQif(selected, accounts, options, rates); break;
+  }
+  const { extension, mimeType } = FILE_TYPES[options.format];
+  const range = [options.from, options.to].filter(Boolean).join('_to_') || toDateKey(now);
+  return { filename: `little-treasury_${range}.${extension}`, mimeType, content };
+};
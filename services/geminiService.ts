@@ -1,6 +1,7 @@
 import { GoogleGenAI } from "@google/genai";
-import { Transaction, Account, Currency, EXCHANGE_RATES, TransactionStatus, TransactionType, AccountType, InvestmentHolding } from "../types";
+import { Transaction, Account, Currency, ExchangeRate, InvestmentHolding, InvestmentLot } from "../types";
 import { Language } from "../translations";
+import { buildLedger } from "./ledgerService";
 
 const getAiClient = () => {
     //const apiKey = process.env.API_KEY;
@@ -13,37 +14,37 @@ export const getFinancialAdvice = async (
   transactions: Transaction[],
   accounts: Account[],
   baseCurrency: Currency,
-  language: Language
+  language: Language,
+  rates: ExchangeRate[] = []
 ): Promise<string> => {
   try {
     const ai = getAiClient();
 
     // Prepare data summary
-    const totalAssets = accounts
-      .filter(a => a.type !== AccountType.CREDIT && a.type !== AccountType.LOAN)
-      .reduce((sum, a) => sum + (a.balance * EXCHANGE_RATES[a.currency] / EXCHANGE_RATES[baseCurrency]), 0);
-    
-    const investmentAssets = accounts
-      .filter(a => a.type === AccountType.INVESTMENT)
-      .reduce((sum, a) => sum + (a.balance * EXCHANGE_RATES[a.currency] / EXCHANGE_RATES[baseCurrency]), 0);
-
-    const totalLiabilities = accounts
-      .filter(a => a.type === AccountType.CREDIT || a.type === AccountType.LOAN)
-      .reduce((sum, a) => sum + (Math.abs(a.balance) * EXCHANGE_RATES[a.currency] / EXCHANGE_RATES[baseCurrency]), 0);
-
-    const pendingIncome = transactions
-      .filter(t => t.type === TransactionType.INCOME && t.status === TransactionStatus.PENDING)
-      .reduce((acc, t) => acc + (t.amount * (EXCHANGE_RATES[baseCurrency] / EXCHANGE_RATES[t.currency])), 0);
+    const {
+      totalAssets,
+      investmentAssets,
+      totalLiabilities,
+      pendingIncome,
+      monthlyExpenses,
+      categoryBreakdown,
+      unamortizedBalance
+    } = buildLedger(accounts, transactions, baseCurrency, rates);
 
     const recentTransactions = transactions.slice(0, 50).map(t => ({
       date: t.date.split('T')[0],
       type: t.type,
       category: t.category,
       amount: `${t.amount} ${t.currency}`,
+      // Split payments list what each part was for
+      splits: t.splits?.map(line => ({ category: line.category, amount: line.amount })),
       tags: t.tags,
       status: t.status,
+      amortizationMonths: t.isAmortized ? t.amortizationMonths : undefined,
     }));
 
+    const categorySummary = categoryBreakdown.map(c => `${c.category}: ${c.amount.toFixed(2)}`).join(', ');
+
     const prompt = `
       You are a professional financial advisor called "Little Treasury Advisor".
       Base Currency: ${baseCurrency}. Language: ${language === 'zh' ? 'Chinese' : 'English'}.
@@ -53,6 +54,9 @@ export const getFinancialAdvice = async (
       - Investment Assets: ${investmentAssets.toFixed(2)}
       - Pending Income: ${pendingIncome.toFixed(2)}
       - Liabilities: ${totalLiabilities.toFixed(2)}
+      - This Month's Expenses (long-term purchases amortized): ${monthlyExpenses.toFixed(2)}
+      - This Month by Category: ${categorySummary || 'none'}
+      - Unamortized Long-term Purchases: ${unamortizedBalance.toFixed(2)}
       
       Recent 50 Transactions JSON:
       ${JSON.stringify(recentTransactions)}
@@ -81,15 +85,19 @@ export const getFinancialAdvice = async (
 /**
  * Handles the Investment Chat logic.
  * Inputs: Current Holdings, User Message (Text), User Image (Base64)
- * Outputs: Updated Holdings (JSON) AND Advice (Text)
+ * Outputs: Updated Holdings (JSON), any Trades mentioned (JSON) AND Advice (Text)
  */
+export interface ChatTrade extends Omit<InvestmentLot, 'id'> {
+    name: string; // Holding the trade belongs to
+}
+
 export const processInvestmentChat = async (
     currentHoldings: InvestmentHolding[],
     userMessage: string,
     imageBase64: string | null,
     baseCurrency: Currency,
     language: Language
-): Promise<{ text: string; updatedHoldings: InvestmentHolding[] | null }> => {
+): Promise<{ text: string; updatedHoldings: InvestmentHolding[] | null; trades: ChatTrade[] }> => {
     try {
         const ai = getAiClient();
 
@@ -97,7 +105,7 @@ export const processInvestmentChat = async (
             You are an intelligent portfolio manager assistant.
             
             Current Portfolio (JSON):
-            ${JSON.stringify(currentHoldings)}
+            ${JSON.stringify(currentHoldings.map(({ lots, costMethod, ...h }) => h))}
 
             User Input: "${userMessage}"
             
@@ -108,13 +116,15 @@ export const processInvestmentChat = async (
                - If it's a new buy, add it. 
                - If selling, remove or decrease.
                - If no specific numbers are given (e.g., just "How is the market?"), keep the portfolio as is.
+               - If the user describes a buy or sell with a price, also list it under 'trades' (date as YYYY-MM-DD, today is ${new Date().toISOString().split('T')[0]}; fees 0 if not mentioned).
             3. Provide a brief financial commentary based on the products and current global financial news.
 
             Output Format:
             You must return a JSON object with this EXACT structure (no markdown code blocks around it if possible, or extractable):
             {
                 "response": "Your friendly advice/commentary here...",
-                "holdings": [ ... updated array of objects with name, amount, dailyChange ...]
+                "holdings": [ ... updated array of objects with name, amount, dailyChange ...],
+                "trades": [ ... objects with name, side ("BUY" or "SELL"), date, quantity, price, fees; empty if none ...]
             }
         `;
 
@@ -144,11 +154,12 @@ export const processInvestmentChat = async (
 
         return {
             text: data.response,
-            updatedHoldings: data.holdings
+            updatedHoldings: data.holdings,
+            trades: Array.isArray(data.trades) ? data.trades : []
         };
 
     } catch (error) {
         console.error("Investment Chat Error:", error);
-        return { text: "Error processing investment data. Please try again.", updatedHoldings: null };
+        return { text: "Error processing investment data. Please try again.", updatedHoldings: null, trades: [] };
     }
 }
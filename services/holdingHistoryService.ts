@@ -0,0 +1,61 @@
+import { Account, HoldingSnapshot, HoldingValue } from "../types";
+import { toDateKey } from "./exchangeRateService";
+
+/**
+ * Value history of investment accounts. Every InvestmentChat check-in stores
+ * what each holding was worth that day, keyed by account and day so a second
+ * check-in on the same day replaces the first. Snapshots are a record of past
+ * readings: fixing or deleting one leaves the account's current holdings alone.
+ * Amounts are in the account's currency.
+ */
+
+export interface HoldingHistoryPoint {
+  date: string;
+  balance: number;
+  byHolding: Record<string, number>; // Holding name -> amount; missing when not held that day
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export const getHoldingSnapshotId = (accountId: string, date: string) => `${accountId}|${date}`;
+
+export const sumHoldings = (holdings: HoldingValue[]) => round(holdings.reduce((sum, h) => sum + h.amount, 0));
+
+export const createHoldingSnapshot = (account: Account, now: Date = new Date()): HoldingSnapshot => {
+  const date = toDateKey(now);
+  const holdings = (account.holdings ?? []).map(({ code, name, amount, quantity }) => ({
+    ...(code && { code }),
+    name,
+    amount,
+    ...(quantity !== undefined && { quantity }),
+  }));
+  return { id: getHoldingSnapshotId(account.id, date), accountId: account.id, date, balance: sumHoldings(holdings), holdings };
+};
+
+// Adds the account's current holdings as today's snapshot, replacing an earlier one from today
+export const recordHoldingSnapshot = (snapshots: HoldingSnapshot[], account: Account, now: Date = new Date()): HoldingSnapshot[] => {
+  const snapshot = createHoldingSnapshot(account, now);
+  return [...snapshots.filter(s => s.id !== snapshot.id), snapshot];
+};
+
+// A corrected snapshot; the balance follows the holdings
+export const updateHoldingSnapshot = (snapshot: HoldingSnapshot, holdings: HoldingValue[]): HoldingSnapshot =>
+  ({ ...snapshot, holdings, balance: sumHoldings(holdings) });
+
+export const getAccountSnapshots = (snapshots: HoldingSnapshot[], accountId: string): HoldingSnapshot[] =>
+  snapshots.filter(s => s.accountId === accountId).sort((a, b) => a.date.localeCompare(b.date));
+
+// Oldest first, for charting
+export const getHoldingHistory = (snapshots: HoldingSnapshot[], accountId: string): HoldingHistoryPoint[] =>
+  getAccountSnapshots(snapshots, accountId).map(s => ({
+    date: s.date,
+    balance: s.balance,
+    byHolding: Object.fromEntries(s.holdings.map(h => [h.name, h.amount])),
+  }));
+
+// Every holding that appears in the account's history, most recently seen first
+export const getHistoryHoldingNames = (snapshots: HoldingSnapshot[], accountId: string): string[] => {
+  const names = new Set<string>();
+  getAccountSnapshots(snapshots, accountId).reverse().forEach(s => s.holdings.forEach(h => names.add(h.name)));
+  return [...names];
+};
@@ -0,0 +1,302 @@
+import { Currency, Transaction, TransactionStatus, TransactionType } from "../types";
+
+/**
+ * Statement import: parses CSV exports from Alipay, WeChat Pay, bank cards and
+ * US banks, and maps their rows onto our Transaction shape through a column
+ * mapping preset.
+ */
+
+export const IMPORT_TAG = 'Import';
+
+export type AmountSign =
+  | 'SIGNED'              // Negative amounts are expenses (Chase, most bank cards)
+  | 'POSITIVE_IS_EXPENSE' // Positive amounts are expenses (credit card statements)
+  | 'DIRECTION_COLUMN';   // A separate column says income or expense (Alipay, WeChat)
+
+export type DateOrder = 'YMD' | 'MDY' | 'DMY';
+
+export interface ImportPreset {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  dateColumn: string;
+  amountColumn: string;
+  descriptionColumn: string;
+  counterpartyColumn?: string;
+  categoryColumn?: string;
+  currencyColumn?: string;
+  directionColumn?: string;
+  incomeValues?: string[]; // Direction values meaning income, e.g. 收入
+  expenseValues?: string[]; // Direction values meaning expense, e.g. 支出
+  amountSign: AmountSign;
+  dateOrder: DateOrder;
+  defaultCurrency?: Currency;
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportRow {
+  line: number;
+  transaction: Omit<Transaction, 'id'> | null;
+  error?: string;
+  isDuplicate?: boolean;
+}
+
+export const BUILT_IN_PRESETS: ImportPreset[] = [
+  {
+    id: 'alipay',
+    name: 'Alipay 支付宝',
+    builtIn: true,
+    dateColumn: '交易时间',
+    amountColumn: '金额',
+    descriptionColumn: '商品说明',
+    counterpartyColumn: '交易对方',
+    categoryColumn: '交易分类',
+    directionColumn: '收/支',
+    incomeValues: ['收入'],
+    expenseValues: ['支出'],
+    amountSign: 'DIRECTION_COLUMN',
+    dateOrder: 'YMD',
+    defaultCurrency: Currency.CNY,
+  },
+  {
+    id: 'wechat',
+    name: 'WeChat Pay 微信支付',
+    builtIn: true,
+    dateColumn: '交易时间',
+    amountColumn: '金额(元)',
+    descriptionColumn: '商品',
+    counterpartyColumn: '交易对方',
+    categoryColumn: '交易类型',
+    directionColumn: '收/支',
+    incomeValues: ['收入'],
+    expenseValues: ['支出'],
+    amountSign: 'DIRECTION_COLUMN',
+    dateOrder: 'YMD',
+    defaultCurrency: Currency.CNY,
+  },
+  {
+    id: 'cn_bank',
+    name: 'Bank Card 银行卡',
+    builtIn: true,
+    dateColumn: '交易日期',
+    amountColumn: '交易金额',
+    descriptionColumn: '摘要',
+    counterpartyColumn: '对方户名',
+    currencyColumn: '币种',
+    amountSign: 'SIGNED',
+    dateOrder: 'YMD',
+    defaultCurrency: Currency.CNY,
+  },
+  {
+    id: 'chase',
+    name: 'Chase',
+    builtIn: true,
+    dateColumn: 'Posting Date',
+    amountColumn: 'Amount',
+    descriptionColumn: 'Description',
+    categoryColumn: 'Category',
+    amountSign: 'SIGNED',
+    dateOrder: 'MDY',
+    defaultCurrency: Currency.USD,
+  },
+];
+
+const CURRENCY_ALIASES: Record<string, Currency> = {
+  'CNY': Currency.CNY, 'RMB': Currency.CNY, '人民币': Currency.CNY,
+  'USD': Currency.USD, '美元': Currency.USD,
+  'EUR': Currency.EUR, '欧元': Currency.EUR,
+  'JPY': Currency.JPY, '日元': Currency.JPY,
+  'HKD': Currency.HKD, '港币': Currency.HKD, '港元': Currency.HKD,
+  'KRW': Currency.KRW, '韩元': Currency.KRW,
+};
+
+// Checked in order: HK$ must win over $
+const CURRENCY_SYMBOLS: [string, Currency][] = [
+  ['HK$', Currency.HKD], ['US$', Currency.USD], ['$', Currency.USD], ['€', Currency.EUR],
+  ['₩', Currency.KRW], ['円', Currency.JPY], ['￥', Currency.CNY], ['¥', Currency.CNY],
+];
+
+/**
+ * Splits CSV text into rows of cells, honouring quoted fields with commas,
+ * escaped quotes and line breaks. Tab-separated files are detected too.
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.split('\t').length > firstLine.split(',').length ? '\t' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else cell += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell); cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row);
+      row = []; cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row); }
+
+  return rows
+    .map(r => r.map(c => c.trim()))
+    .filter(r => r.some(c => c !== ''));
+};
+
+/**
+ * Finds the header row (exports from Alipay and WeChat start with a preamble)
+ * and returns the rows below it keyed by column name.
+ */
+export const parseCsv = (text: string, preset?: ImportPreset): ParsedCsv => {
+  const rows = parseCsvRows(text);
+  const widest = Math.max(0, ...rows.map(r => r.length));
+  let headerIndex = preset ? rows.findIndex(r => r.includes(preset.dateColumn) && r.includes(preset.amountColumn)) : -1;
+  if (headerIndex === -1) headerIndex = rows.findIndex(r => r.length === widest && r.every(c => c !== ''));
+  if (headerIndex === -1) headerIndex = 0;
+
+  const headers = (rows[headerIndex] || []).map((h, i) => h || `Column ${i + 1}`);
+  const body = rows
+    .slice(headerIndex + 1)
+    .filter(r => r.length >= Math.min(headers.length, 2)) // Drop footers like "----共10笔记录----"
+    .map(r => Object.fromEntries(headers.map((h, i) => [h, r[i] ?? ''])));
+
+  return { headers, rows: body };
+};
+
+// Exports from Chinese banks and Alipay are often GBK; fall back to it when UTF-8 fails
+export const decodeFile = (buffer: ArrayBuffer): string => {
+  const utf8 = new TextDecoder('utf-8').decode(buffer);
+  if (!utf8.includes('\uFFFD')) return utf8;
+  try {
+    return new TextDecoder('gb18030').decode(buffer);
+  } catch {
+    return utf8;
+  }
+};
+
+export const detectPreset = (headers: string[], presets: ImportPreset[]): ImportPreset | undefined =>
+  presets.find(p => [p.dateColumn, p.amountColumn, p.descriptionColumn].every(c => headers.includes(c)));
+
+export const parseDate = (value: string, order: DateOrder): string | null => {
+  const match = value.match(/(\d{1,4})[-/.年](\d{1,2})[-/.月](\d{1,4})日?(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) {
+    const compact = value.match(/^(\d{4})(\d{2})(\d{2})$/); // 20240301, common in bank exports
+    if (!compact) return null;
+    return new Date(Date.UTC(+compact[1], +compact[2] - 1, +compact[3])).toISOString();
+  }
+
+  const [, a, b, c, hh = '0', mm = '0', ss = '0'] = match;
+  let year: number, month: number, day: number;
+  if (a.length === 4 || order === 'YMD') [year, month, day] = [+a, +b, +c];
+  else if (order === 'MDY') [year, month, day] = [+c, +a, +b];
+  else [year, month, day] = [+c, +b, +a];
+  if (year < 100) year += 2000;
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  // Keep the calendar date stable: store as UTC like dates picked in TransactionForm
+  return new Date(Date.UTC(year, month - 1, day, +hh, +mm, +ss)).toISOString();
+};
+
+// Parses "¥1,234.50", "¥-12", "(12.00)", "−12" into a signed number
+export const parseAmount = (value: string): number | null => {
+  const negative = /[-−]/.test(value) || /^\s*\(.*\)\s*$/.test(value);
+  const digits = value.replace(/[^\d.]/g, '');
+  if (!digits) return null;
+  const amount = parseFloat(digits);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+export const detectCurrency = (value: string): Currency | undefined => {
+  const trimmed = value.trim().toUpperCase();
+  if (CURRENCY_ALIASES[trimmed]) return CURRENCY_ALIASES[trimmed];
+  return CURRENCY_SYMBOLS.find(([symbol]) => value.includes(symbol))?.[1];
+};
+
+const isDuplicateOf = (tx: Omit<Transaction, 'id'>, existing: Transaction[]) =>
+  existing.some(e =>
+    e.accountId === tx.accountId &&
+    e.type === tx.type &&
+    Math.abs(e.amount - tx.amount) < 0.005 &&
+    e.date.split('T')[0] === tx.date.split('T')[0]
+  );
+
+export const mapRow = (
+  row: Record<string, string>,
+  preset: ImportPreset,
+  accountId: string,
+  accountCurrency: Currency
+): Omit<Transaction, 'id'> | string => {
+  const date = parseDate(row[preset.dateColumn] || '', preset.dateOrder);
+  if (!date) return `Invalid date "${row[preset.dateColumn] || ''}"`;
+
+  const rawAmount = row[preset.amountColumn] || '';
+  const amount = parseAmount(rawAmount);
+  if (amount === null || amount === 0) return `Invalid amount "${rawAmount}"`;
+
+  let type: TransactionType;
+  if (preset.amountSign === 'DIRECTION_COLUMN') {
+    const direction = (row[preset.directionColumn || ''] || '').trim();
+    if (preset.incomeValues?.includes(direction)) type = TransactionType.INCOME;
+    else if (preset.expenseValues?.includes(direction)) type = TransactionType.EXPENSE;
+    else return `Skipped neutral entry "${direction || '-'}"`; // e.g. 不计收支 or internal moves
+  } else if (preset.amountSign === 'POSITIVE_IS_EXPENSE') {
+    type = amount > 0 ? TransactionType.EXPENSE : TransactionType.INCOME;
+  } else {
+    type = amount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME;
+  }
+
+  // The ledger posts the amount to the account as is, so it must already be in the account's currency
+  const currency = detectCurrency(row[preset.currencyColumn || ''] || '')
+    || detectCurrency(rawAmount)
+    || preset.defaultCurrency
+    || accountCurrency;
+  if (currency !== accountCurrency) return `Currency ${currency} does not match the account (${accountCurrency})`;
+
+  const description = row[preset.descriptionColumn] || '';
+  const counterparty = preset.counterpartyColumn ? row[preset.counterpartyColumn] || '' : '';
+  const note = [counterparty, description].filter(v => v && v !== '/').join(' · ');
+
+  return {
+    date,
+    amount: Math.abs(amount),
+    currency,
+    type,
+    category: (preset.categoryColumn && row[preset.categoryColumn]) || 'Other',
+    tags: [IMPORT_TAG],
+    accountId,
+    note,
+    status: TransactionStatus.COMPLETED,
+    isAmortized: false,
+    amortizationMonths: 0,
+  };
+};
+
+export const mapRows = (
+  parsed: ParsedCsv,
+  preset: ImportPreset,
+  accountId: string,
+  accountCurrency: Currency,
+  existing: Transaction[] = []
+): ImportRow[] =>
+  parsed.rows.map((row, index) => {
+    const result = mapRow(row, preset, accountId, accountCurrency);
+    if (typeof result === 'string') return { line: index + 1, transaction: null, error: result };
+    return { line: index + 1, transaction: result, isDuplicate: isDuplicateOf(result, existing) };
+  });
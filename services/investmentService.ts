@@ -0,0 +1,158 @@
+import { CostBasisMethod, InvestmentHolding, InvestmentLot } from "../types";
+
+/**
+ * Cost basis and P&L of investment holdings, derived from their buy/sell lots.
+ * Fees on a buy are part of its cost; fees on a sell reduce its proceeds. Sells
+ * are matched against the oldest remaining buys (FIFO) or against the running
+ * average cost. The market value is the holding's amount from the latest
+ * check-in. Amounts are in the account's currency.
+ */
+
+export const DEFAULT_COST_METHOD: CostBasisMethod = 'FIFO';
+
+export interface HoldingPerformance {
+  quantity: number; // Still held according to the lots
+  costBasis: number; // What the quantity still held cost, fees included
+  averageCost: number; // Per share/unit held
+  marketValue: number;
+  unrealized: number;
+  realized: number; // From sells so far
+  invested: number; // Everything spent on buys, fees included
+  totalReturn: number; // Realized + unrealized
+  returnRate: number; // Total return over what was invested
+  oversold: number; // Sold beyond what the lots held at the time; left out of realized P&L
+}
+
+export interface PortfolioSummary {
+  marketValue: number;
+  costBasis: number;
+  unrealized: number;
+  realized: number;
+  invested: number;
+  totalReturn: number;
+  returnRate: number;
+  tracked: number; // Holdings that have lots
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Quantities can be fractional fund units, so keep more precision than cents
+const roundQuantity = (quantity: number) => Math.round(quantity * 1e6) / 1e6;
+
+// Oldest first; on the same day buys go before sells so a same-day round trip has a cost
+export const sortLots = (lots: InvestmentLot[]): InvestmentLot[] =>
+  [...lots].sort((a, b) => a.date.localeCompare(b.date) || (a.side === b.side ? 0 : a.side === 'BUY' ? -1 : 1));
+
+export const hasLots = (holding: InvestmentHolding) => !!holding.lots?.length;
+
+// Null when the holding has no lots to work from
+export const getHoldingPerformance = (holding: InvestmentHolding): HoldingPerformance | null => {
+  if (!hasLots(holding)) return null;
+  const method = holding.costMethod ?? DEFAULT_COST_METHOD;
+  const open: { quantity: number; unitCost: number }[] = []; // FIFO queue of remaining buys
+  let quantity = 0;
+  let costBasis = 0;
+  let realized = 0;
+  let invested = 0;
+  let oversold = 0;
+
+  sortLots(holding.lots!).forEach(lot => {
+    if (lot.side === 'BUY') {
+      const cost = lot.quantity * lot.price + lot.fees;
+      invested += cost;
+      quantity = roundQuantity(quantity + lot.quantity);
+      costBasis += cost;
+      if (lot.quantity > 0) open.push({ quantity: lot.quantity, unitCost: cost / lot.quantity });
+      return;
+    }
+
+    // Selling more than is held only matches what is held; the rest is flagged, not counted
+    const sold = Math.min(lot.quantity, quantity);
+    oversold = roundQuantity(oversold + lot.quantity - sold);
+    if (sold <= 0) return;
+    let cost = 0;
+    if (method === 'AVERAGE') {
+      cost = quantity > 0 ? costBasis * sold / quantity : 0;
+    } else {
+      let left = sold;
+      while (left > 0 && open.length) {
+        const take = Math.min(left, open[0].quantity);
+        cost += take * open[0].unitCost;
+        open[0].quantity = roundQuantity(open[0].quantity - take);
+        left = roundQuantity(left - take);
+        if (open[0].quantity <= 0) open.shift();
+      }
+    }
+    realized += sold * lot.price - lot.fees * sold / lot.quantity - cost;
+    quantity = roundQuantity(quantity - sold);
+    costBasis = quantity > 0 ? costBasis - cost : 0;
+  });
+
+  const marketValue = holding.amount;
+  const unrealized = quantity > 0 ? marketValue - costBasis : 0;
+  const totalReturn = realized + unrealized;
+  return {
+    quantity,
+    costBasis: round(costBasis),
+    averageCost: quantity > 0 ? costBasis / quantity : 0,
+    marketValue,
+    unrealized: round(unrealized),
+    realized: round(realized),
+    invested: round(invested),
+    totalReturn: round(totalReturn),
+    returnRate: invested > 0 ? totalReturn / invested : 0,
+    oversold,
+  };
+};
+
+// Whether adding `lot` would sell more than the holding has at that point
+export const isOversell = (holding: InvestmentHolding, lot: InvestmentLot): boolean => {
+  if (lot.side !== 'SELL') return false;
+  const before = getHoldingPerformance(holding)?.oversold ?? 0;
+  const after = getHoldingPerformance({ ...holding, lots: [...(holding.lots ?? []), lot] })!.oversold;
+  return after > before;
+};
+
+// Totals over the holdings that have lots; the rest only add to the market value
+export const getPortfolioSummary = (holdings: InvestmentHolding[]): PortfolioSummary => {
+  const summary: PortfolioSummary = { marketValue: 0, costBasis: 0, unrealized: 0, realized: 0, invested: 0, totalReturn: 0, returnRate: 0, tracked: 0 };
+  holdings.forEach(h => {
+    summary.marketValue += h.amount;
+    const performance = getHoldingPerformance(h);
+    if (!performance) return;
+    summary.tracked++;
+    summary.costBasis += performance.costBasis;
+    summary.unrealized += performance.unrealized;
+    summary.realized += performance.realized;
+    summary.invested += performance.invested;
+  });
+  summary.totalReturn = summary.unrealized + summary.realized;
+  summary.returnRate = summary.invested > 0 ? summary.totalReturn / summary.invested : 0;
+  (['marketValue', 'costBasis', 'unrealized', 'realized', 'invested', 'totalReturn'] as const)
+    .forEach(key => { summary[key] = round(summary[key]); });
+  return summary;
+};
+
+const isSameHolding = (a: InvestmentHolding, b: InvestmentHolding) =>
+  a.code && b.code ? a.code === b.code : a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+
+export const findHolding = (holdings: InvestmentHolding[], holding: InvestmentHolding) =>
+  holdings.find(h => isSameHolding(h, holding));
+
+/**
+ * Check-ins replace the holdings with freshly read values; carry each holding's
+ * lots and cost method over so the trade history survives.
+ */
+export const mergeHoldings = (previous: InvestmentHolding[], updated: InvestmentHolding[]): InvestmentHolding[] =>
+  updated.map(h => {
+    const existing = findHolding(previous, h);
+    return existing ? { ...h, lots: h.lots ?? existing.lots, costMethod: h.costMethod ?? existing.costMethod } : h;
+  });
+
+// Adds a lot to the matching holding, creating the holding if there is none yet
+export const addLot = (holdings: InvestmentHolding[], holding: InvestmentHolding, lot: InvestmentLot): InvestmentHolding[] => {
+  if (!findHolding(holdings, holding)) {
+    return [...holdings, { ...holding, lots: [lot] }];
+  }
+  return holdings.map(h => isSameHolding(h, holding) ? { ...h, lots: sortLots([...(h.lots ?? []), lot]) } : h);
+};
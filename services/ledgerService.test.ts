@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { Account, AccountType, Currency, ExchangeRate, Transaction, TransactionStatus, TransactionType } from '../types';
+import { TRANSFER_FEE_CATEGORY, getCategoryBreakdown, getFxResults, getPostings, postTransaction, withPostedAmount } from './ledgerService';
+
+const accounts: Account[] = [
+  { id: 'cny', name: 'Wallet', type: AccountType.SAVINGS, currency: Currency.CNY, balance: 1000, color: '#000' },
+  { id: 'usd', name: 'Checking', type: AccountType.SAVINGS, currency: Currency.USD, balance: 100, color: '#000' },
+];
+
+const rates: ExchangeRate[] = [
+  { date: '2024-01-01', from: Currency.USD, to: Currency.CNY, rate: 7, source: 'MANUAL' },
+];
+
+const makeTransaction = (changes: Partial<Transaction>): Transaction => ({
+  id: 'tx',
+  date: '2024-03-01T12:00:00.000Z',
+  amount: 100,
+  currency: Currency.CNY,
+  type: TransactionType.EXPENSE,
+  category: 'Food',
+  tags: [],
+  accountId: 'cny',
+  note: '',
+  status: TransactionStatus.COMPLETED,
+  isAmortized: false,
+  amortizationMonths: 0,
+  ...changes,
+});
+
+const balanceOf = (list: Account[], id: string) => list.find(a => a.id === id)!.balance;
+
+describe('getPostings', () => {
+  it('debits expenses and credits income to the account', () => {
+    expect(getPostings(makeTransaction({}), accounts)).toEqual([
+      expect.objectContaining({ accountId: 'cny', amount: -100, currency: Currency.CNY }),
+    ]);
+    expect(getPostings(makeTransaction({ type: TransactionType.INCOME }), accounts)).toEqual([
+      expect.objectContaining({ accountId: 'cny', amount: 100 }),
+    ]);
+  });
+
+  it('posts nothing for pending transactions', () => {
+    expect(getPostings(makeTransaction({ status: TransactionStatus.PENDING }), accounts)).toEqual([]);
+  });
+
+  it('charges a transfer fee to the source on top of the amount sent', () => {
+    const tx = makeTransaction({ type: TransactionType.TRANSFER, toAccountId: 'usd', currency: Currency.CNY, amount: 700, fee: 5 });
+    const postings = getPostings(tx, accounts, rates);
+    expect(postings[0]).toMatchObject({ accountId: 'cny', amount: -705 });
+    expect(postings[1].accountId).toBe('usd');
+    expect(postings[1].amount).toBeCloseTo(100);
+  });
+
+  it('credits the realized amount of a cross-currency transfer over the rate table', () => {
+    const base = { type: TransactionType.TRANSFER, toAccountId: 'usd', currency: Currency.CNY, amount: 700 };
+    expect(getPostings(makeTransaction({ ...base, receivedAmount: 98 }), accounts, rates)[1].amount).toBe(98);
+    expect(getPostings(makeTransaction({ ...base, fxRate: 0.14 }), accounts, rates)[1].amount).toBeCloseTo(98);
+  });
+});
+
+describe('postTransaction', () => {
+  it('reverses exactly what it applied', () => {
+    const tx = makeTransaction({ type: TransactionType.TRANSFER, toAccountId: 'usd', amount: 700, fee: 5 });
+    const applied = postTransaction(accounts, tx, 1, rates);
+    expect(balanceOf(applied, 'cny')).toBe(295);
+    expect(balanceOf(applied, 'usd')).toBeCloseTo(200);
+
+    const reversed = postTransaction(applied, tx, -1, rates);
+    expect(balanceOf(reversed, 'cny')).toBe(1000);
+    expect(balanceOf(reversed, 'usd')).toBeCloseTo(100);
+  });
+
+  it('leaves balances alone for pending transactions', () => {
+    const tx = makeTransaction({ status: TransactionStatus.PENDING });
+    expect(postTransaction(accounts, tx, 1, rates)).toBe(accounts);
+  });
+});
+
+describe('withPostedAmount', () => {
+  const transfer = makeTransaction({ type: TransactionType.TRANSFER, toAccountId: 'usd', amount: 700 });
+
+  it('records what a cross-currency transfer credited at the table rate', () => {
+    const posted = withPostedAmount(transfer, accounts, rates);
+    expect(posted.postedAmount).toBe(100);
+    expect(posted.receivedAmount).toBeUndefined();
+  });
+
+  it('keeps reversals exact after the rate table changes', () => {
+    const recorded = withPostedAmount(transfer, accounts, rates);
+    const applied = postTransaction(accounts, recorded, 1, rates);
+    const newRates: ExchangeRate[] = [...rates, { date: '2024-03-01', from: Currency.USD, to: Currency.CNY, rate: 5, source: 'MANUAL' }];
+    expect(balanceOf(postTransaction(applied, recorded, -1, newRates), 'usd')).toBe(100);
+  });
+
+  it('recomputes the credit when an edited transfer is posted again', () => {
+    const recorded = withPostedAmount(transfer, accounts, rates);
+    expect(withPostedAmount({ ...recorded, amount: 1400 }, accounts, rates).postedAmount).toBe(200);
+    expect(withPostedAmount(recorded, accounts, rates)).toBe(recorded);
+  });
+
+  it('leaves pending, same-currency and bank-realized transfers without one', () => {
+    const recorded = withPostedAmount(transfer, accounts, rates);
+    const pending = { ...transfer, status: TransactionStatus.PENDING };
+    expect(withPostedAmount(pending, accounts, rates)).toBe(pending);
+    const local = { ...transfer, toAccountId: 'cny' };
+    expect(withPostedAmount(local, accounts, rates)).toBe(local);
+    expect(withPostedAmount({ ...recorded, receivedAmount: 98 }, accounts, rates).postedAmount).toBeUndefined();
+  });
+});
+
+describe('getFxResults', () => {
+  const transfer = makeTransaction({ type: TransactionType.TRANSFER, toAccountId: 'usd', amount: 700 });
+  const newRates: ExchangeRate[] = [...rates, { date: '2024-03-01', from: Currency.USD, to: Currency.CNY, rate: 5, source: 'MANUAL' }];
+
+  it('measures the amount the bank credited against the table', () => {
+    const [result] = getFxResults([{ ...transfer, receivedAmount: 98 }], accounts, Currency.CNY, rates);
+    expect(result.gainLoss).toBeCloseTo(-14);
+  });
+
+  it('leaves out credits posted at the table rate, even after the rate changes', () => {
+    const posted = withPostedAmount(transfer, accounts, rates);
+    expect(getFxResults([posted], accounts, Currency.CNY, newRates)).toEqual([]);
+  });
+});
+
+describe('getCategoryBreakdown', () => {
+  const month = new Date('2024-03-15T00:00:00.000Z');
+  const transfer = makeTransaction({ type: TransactionType.TRANSFER, toAccountId: 'usd', amount: 700, fee: 15 });
+
+  it('counts transfer fees as spending once the transfer is completed', () => {
+    expect(getCategoryBreakdown([transfer], Currency.CNY, month, rates)).toEqual([{ category: TRANSFER_FEE_CATEGORY, amount: 15 }]);
+  });
+
+  it('leaves out fees on pending transfers, which post nothing yet', () => {
+    expect(getCategoryBreakdown([{ ...transfer, status: TransactionStatus.PENDING }], Currency.CNY, month, rates)).toEqual([]);
+  });
+});
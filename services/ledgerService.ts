@@ -0,0 +1,269 @@
+import { Account, AccountType, Currency, ExchangeRate, Transaction, TransactionStatus, TransactionType } from "../types";
+import { getActiveAmortizations, getRecognizedAmount, toMonthKey } from "./amortizationService";
+import { getRate } from "./exchangeRateService";
+import { expandSplits } from "./splitService";
+
+/**
+ * Pure ledger engine. All balance math for the UI and the AI service lives here
+ * so a fix to one calculation applies everywhere. Conversions use the dated rate
+ * table: transactions at the rate on their date, balances at the latest rate.
+ */
+
+export interface Posting {
+  transactionId: string;
+  accountId: string;
+  amount: number; // Signed, in the account's currency
+  currency: Currency;
+  date: string;
+}
+
+export interface AccountGroup {
+  key: string; // `${currency}-${type}`
+  type: AccountType;
+  currency: Currency;
+  balance: number;
+  count: number;
+  ids: string[];
+}
+
+export interface CategoryTotal {
+  category: string;
+  amount: number; // In baseCurrency
+}
+
+export interface FxResult {
+  transactionId: string;
+  realizedRate: number;
+  marketRate: number;
+  gainLoss: number; // In baseCurrency; positive when the bank rate beat the market rate
+}
+
+export interface LedgerSummary {
+  postings: Posting[];
+  balances: Record<string, number>; // Account id -> balance in baseCurrency
+  netWorth: number;
+  totalAssets: number;
+  investmentAssets: number;
+  totalLiabilities: number;
+  pendingIncome: number;
+  monthlyExpenses: number;
+  categoryBreakdown: CategoryTotal[];
+  unamortizedBalance: number;
+  fxGainLoss: number;
+  accountGroups: AccountGroup[];
+}
+
+// Expense category that transfer fees are reported under
+export const TRANSFER_FEE_CATEGORY = 'Fees';
+
+const isLiability = (type: AccountType) => type === AccountType.CREDIT || type === AccountType.LOAN;
+
+export const convertAmount = (
+  amount: number,
+  from: Currency,
+  to: Currency,
+  rates: ExchangeRate[] = [],
+  date?: string | Date
+): number => {
+  if (from === to) return amount;
+  return amount * getRate(rates, from, to, date);
+};
+
+export const getTransferFee = (tx: Transaction): number =>
+  tx.type === TransactionType.TRANSFER ? tx.fee || 0 : 0;
+
+// Amount a transfer credits to the destination; the realized rate wins over the rate table
+export const getReceivedAmount = (tx: Transaction, toCurrency: Currency, rates: ExchangeRate[] = []): number => {
+  if (tx.receivedAmount !== undefined) return tx.receivedAmount;
+  if (tx.fxRate) return tx.amount * tx.fxRate;
+  if (tx.postedAmount !== undefined) return tx.postedAmount;
+  return convertAmount(tx.amount, tx.currency, toCurrency, rates, tx.date);
+};
+
+const hasRealizedRate = (tx: Transaction) => tx.receivedAmount !== undefined || !!tx.fxRate;
+
+/**
+ * Fixes the credit of a completed cross-currency transfer without a bank amount
+ * or rate at the table rate, so reversing it later undoes exactly what was
+ * posted even if the rate table has changed since. Call it whenever the
+ * transfer is posted: an edited transfer gets a fresh credit, and one that has
+ * since recorded the bank's amount, or posts nothing yet, drops it.
+ */
+export const withPostedAmount = (tx: Transaction, accounts: Account[], rates: ExchangeRate[] = []): Transaction => {
+  const { postedAmount, ...rest } = tx;
+  const to = accounts.find(a => a.id === tx.toAccountId);
+  const needsPostedAmount = tx.type === TransactionType.TRANSFER && tx.status === TransactionStatus.COMPLETED &&
+    !hasRealizedRate(tx) && !!to && to.currency !== tx.currency;
+  if (!needsPostedAmount) return postedAmount === undefined ? tx : rest;
+
+  const amount = Math.round(convertAmount(tx.amount, tx.currency, to.currency, rates, tx.date) * 100) / 100;
+  return postedAmount === amount ? tx : { ...rest, postedAmount: amount };
+};
+
+/**
+ * Balance movements caused by a transaction. Pending transactions post nothing.
+ * A transfer fee is debited from the source account on top of the amount sent.
+ */
+export const getPostings = (tx: Transaction, accounts: Account[], rates: ExchangeRate[] = []): Posting[] => {
+  if (tx.status !== TransactionStatus.COMPLETED) return [];
+
+  const postings: Posting[] = [];
+  const from = accounts.find(a => a.id === tx.accountId);
+  if (from) {
+    const sign = tx.type === TransactionType.INCOME ? 1 : -1;
+    postings.push({ transactionId: tx.id, accountId: from.id, amount: sign * tx.amount - getTransferFee(tx), currency: from.currency, date: tx.date });
+  }
+
+  if (tx.type === TransactionType.TRANSFER) {
+    const to = accounts.find(a => a.id === tx.toAccountId);
+    if (to) {
+      const received = getReceivedAmount(tx, to.currency, rates);
+      postings.push({ transactionId: tx.id, accountId: to.id, amount: received, currency: to.currency, date: tx.date });
+    }
+  }
+  return postings;
+};
+
+export const applyPostings = (accounts: Account[], postings: Posting[], direction: 1 | -1 = 1): Account[] => {
+  if (postings.length === 0) return accounts;
+  return accounts.map(acc => {
+    const change = postings
+      .filter(p => p.accountId === acc.id)
+      .reduce((sum, p) => sum + p.amount, 0);
+    return change === 0 ? acc : { ...acc, balance: acc.balance + change * direction };
+  });
+};
+
+// Applies (direction 1) or reverses (direction -1) a transaction on account balances
+export const postTransaction = (accounts: Account[], tx: Transaction, direction: 1 | -1, rates: ExchangeRate[] = []): Account[] =>
+  applyPostings(accounts, getPostings(tx, accounts, rates), direction);
+
+export const getAccountBalances = (accounts: Account[], baseCurrency: Currency, rates: ExchangeRate[] = []): Record<string, number> =>
+  Object.fromEntries(accounts.map(a => [a.id, convertAmount(a.balance, a.currency, baseCurrency, rates)]));
+
+export const getNetWorth = (accounts: Account[], baseCurrency: Currency, rates: ExchangeRate[] = []): number =>
+  accounts.reduce((sum, a) => sum + convertAmount(a.balance, a.currency, baseCurrency, rates), 0);
+
+export const getTotalAssets = (accounts: Account[], baseCurrency: Currency, rates: ExchangeRate[] = []): number =>
+  getNetWorth(accounts.filter(a => !isLiability(a.type)), baseCurrency, rates);
+
+export const getInvestmentAssets = (accounts: Account[], baseCurrency: Currency, rates: ExchangeRate[] = []): number =>
+  getNetWorth(accounts.filter(a => a.type === AccountType.INVESTMENT), baseCurrency, rates);
+
+export const getTotalLiabilities = (accounts: Account[], baseCurrency: Currency, rates: ExchangeRate[] = []): number =>
+  accounts
+    .filter(a => isLiability(a.type))
+    .reduce((sum, a) => sum + Math.abs(convertAmount(a.balance, a.currency, baseCurrency, rates)), 0);
+
+export const getPendingIncome = (transactions: Transaction[], baseCurrency: Currency, rates: ExchangeRate[] = []): number =>
+  transactions
+    .filter(t => t.type === TransactionType.INCOME && t.status === TransactionStatus.PENDING)
+    .reduce((sum, t) => sum + convertAmount(t.amount, t.currency, baseCurrency, rates, t.date), 0);
+
+// Expenses recognized in the month; amortized purchases only count their monthly slice
+export const getMonthlyExpenses = (
+  transactions: Transaction[],
+  baseCurrency: Currency,
+  month: Date = new Date(),
+  rates: ExchangeRate[] = []
+): number =>
+  getCategoryBreakdown(transactions, baseCurrency, month, rates).reduce((sum, c) => sum + c.amount, 0);
+
+export const getCategoryBreakdown = (
+  transactions: Transaction[],
+  baseCurrency: Currency,
+  month: Date = new Date(),
+  rates: ExchangeRate[] = []
+): CategoryTotal[] => {
+  const totals: Record<string, number> = {};
+  // Split expenses count each line under its own category
+  expandSplits(transactions)
+    .filter(t => t.type === TransactionType.EXPENSE)
+    .forEach(t => {
+      const amount = getRecognizedAmount(t, month);
+      if (amount === 0) return;
+      totals[t.category] = (totals[t.category] || 0) + convertAmount(amount, t.currency, baseCurrency, rates, t.date);
+    });
+  // Fees are charged when the transfer posts, so pending ones are not spending yet
+  transactions
+    .filter(t => t.status === TransactionStatus.COMPLETED && getTransferFee(t) > 0 && toMonthKey(t.date) === toMonthKey(month))
+    .forEach(t => {
+      totals[TRANSFER_FEE_CATEGORY] = (totals[TRANSFER_FEE_CATEGORY] || 0) + convertAmount(getTransferFee(t), t.currency, baseCurrency, rates, t.date);
+    });
+  return Object.entries(totals)
+    .map(([category, amount]) => ({ category, amount }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+// Cost of long-term purchases not yet recognized as monthly expense
+export const getUnamortizedBalance = (
+  transactions: Transaction[],
+  baseCurrency: Currency,
+  now: Date = new Date(),
+  rates: ExchangeRate[] = []
+): number =>
+  getActiveAmortizations(transactions, now)
+    .reduce((sum, s) => sum + convertAmount(s.remaining, s.transaction.currency, baseCurrency, rates, s.transaction.date), 0);
+
+/**
+ * Realized FX result of completed cross-currency transfers that recorded the bank's
+ * amount or rate, measured against the rate table on the transfer date.
+ */
+export const getFxResults = (
+  transactions: Transaction[],
+  accounts: Account[],
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = []
+): FxResult[] =>
+  transactions.flatMap(tx => {
+    const to = accounts.find(a => a.id === tx.toAccountId);
+    if (tx.type !== TransactionType.TRANSFER || tx.status !== TransactionStatus.COMPLETED || !to || to.currency === tx.currency) return [];
+    if (!hasRealizedRate(tx)) return []; // A posted amount is the table rate itself
+
+    const received = getReceivedAmount(tx, to.currency, rates);
+    const marketReceived = convertAmount(tx.amount, tx.currency, to.currency, rates, tx.date);
+    return [{
+      transactionId: tx.id,
+      realizedRate: tx.amount ? received / tx.amount : 0,
+      marketRate: getRate(rates, tx.currency, to.currency, tx.date),
+      gainLoss: convertAmount(received - marketReceived, to.currency, baseCurrency, rates, tx.date),
+    }];
+  });
+
+// Groups accounts by currency and type, summing balances in their native currency
+export const getAccountGroups = (accounts: Account[]): AccountGroup[] => {
+  const groups: Record<string, AccountGroup> = {};
+
+  accounts.forEach(acc => {
+    const key = `${acc.currency}-${acc.type}`;
+    if (!groups[key]) {
+      groups[key] = { key, type: acc.type, currency: acc.currency, balance: 0, count: 0, ids: [] };
+    }
+    groups[key].balance += acc.balance;
+    groups[key].count += 1;
+    groups[key].ids.push(acc.id);
+  });
+
+  return Object.values(groups);
+};
+
+export const buildLedger = (
+  accounts: Account[],
+  transactions: Transaction[],
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = [],
+  now: Date = new Date()
+): LedgerSummary => ({
+  postings: transactions.flatMap(tx => getPostings(tx, accounts, rates)),
+  balances: getAccountBalances(accounts, baseCurrency, rates),
+  netWorth: getNetWorth(accounts, baseCurrency, rates),
+  totalAssets: getTotalAssets(accounts, baseCurrency, rates),
+  investmentAssets: getInvestmentAssets(accounts, baseCurrency, rates),
+  totalLiabilities: getTotalLiabilities(accounts, baseCurrency, rates),
+  pendingIncome: getPendingIncome(transactions, baseCurrency, rates),
+  monthlyExpenses: getMonthlyExpenses(transactions, baseCurrency, now, rates),
+  categoryBreakdown: getCategoryBreakdown(transactions, baseCurrency, now, rates),
+  unamortizedBalance: getUnamortizedBalance(transactions, baseCurrency, now, rates),
+  fxGainLoss: getFxResults(transactions, accounts, baseCurrency, rates).reduce((sum, r) => sum + r.gainLoss, 0),
+  accountGroups: getAccountGroups(accounts),
+});
@@ -0,0 +1,128 @@
+import { Account, AccountType, LoanTerms, RepaymentMethod } from "../types";
+import { toDateKey } from "./exchangeRateService";
+
+/**
+ * Loan repayment schedules. Interest accrues monthly at annualRate / 12 on the
+ * balance still owed. With equal installments every payment is the same and
+ * the principal part grows; with equal principal the principal part is fixed
+ * and payments shrink with the interest. Amounts are in the account's currency
+ * and rounded to cents; the last payment clears whatever is left.
+ */
+
+// After a prepayment the loan either ends sooner or keeps its end date with smaller payments
+export type PrepaymentMode = 'SHORTEN_TERM' | 'REDUCE_PAYMENT';
+
+export interface Prepayment {
+  afterPeriod: number; // Paid right after this regular payment (1-based)
+  amount: number;
+  mode: PrepaymentMode;
+}
+
+export interface LoanPayment {
+  period: number; // 1-based
+  date: string; // YYYY-MM-DD
+  payment: number; // Regular payment: principal + interest
+  principal: number;
+  interest: number;
+  prepayment: number; // Extra principal paid after this payment
+  balance: number; // Owed after this payment and any prepayment
+}
+
+export interface LoanSummary {
+  schedule: LoanPayment[];
+  totalInterest: number;
+  totalPaid: number;
+  payoffDate: string;
+  paidPeriods: number; // Payments due on or before today
+  remaining: number; // Owed today according to the schedule
+  next?: LoanPayment;
+}
+
+export interface PrepaymentComparison {
+  base: LoanSummary;
+  scenario: LoanSummary;
+  interestSaved: number;
+  monthsSaved: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// The loan's start day, `months` later, clamped to short months
+const addMonths = (day: string, months: number) => {
+  const [year, month, date] = day.split('-').map(Number);
+  const first = new Date(Date.UTC(year, month - 1 + months, 1));
+  const last = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  return toDateKey(new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), Math.min(date, last))));
+};
+
+export const hasLoanTerms = (account: Account): account is Account & { loan: LoanTerms } =>
+  account.type === AccountType.LOAN && !!account.loan;
+
+// The regular payment for `balance` over `periods` months; for equal principal, the first one
+export const getPayment = (balance: number, monthlyRate: number, periods: number, method: RepaymentMethod): number => {
+  if (periods <= 0) return balance;
+  if (method === 'EQUAL_PRINCIPAL') return round(balance / periods + balance * monthlyRate);
+  if (monthlyRate === 0) return round(balance / periods);
+  const growth = Math.pow(1 + monthlyRate, periods);
+  return round(balance * monthlyRate * growth / (growth - 1));
+};
+
+export const getLoanSchedule = (terms: LoanTerms, prepayments: Prepayment[] = []): LoanPayment[] => {
+  const rate = terms.annualRate / 100 / 12;
+  const schedule: LoanPayment[] = [];
+  let balance = round(terms.principal);
+  let periods = terms.termMonths; // Left in the current plan, recomputed after reducing prepayments
+  let installment = getPayment(balance, rate, periods, 'EQUAL_INSTALLMENT');
+  let principalPart = round(balance / periods);
+
+  for (let period = 1; balance > 0 && period <= terms.termMonths; period++) {
+    const interest = round(balance * rate);
+    const isLast = period === terms.termMonths;
+    let principal = terms.method === 'EQUAL_INSTALLMENT' ? round(installment - interest) : principalPart;
+    if (isLast || principal >= balance) principal = balance;
+    balance = round(balance - principal);
+    periods--;
+
+    let prepayment = 0;
+    prepayments.filter(p => p.afterPeriod === period && p.amount > 0).forEach(p => {
+      const amount = Math.min(round(p.amount), balance);
+      prepayment = round(prepayment + amount);
+      balance = round(balance - amount);
+      // Shortening keeps the payment, so the loan simply runs out sooner
+      if (p.mode === 'REDUCE_PAYMENT' && periods > 0) {
+        installment = getPayment(balance, rate, periods, 'EQUAL_INSTALLMENT');
+        principalPart = round(balance / periods);
+      }
+    });
+
+    schedule.push({ period, date: addMonths(terms.startDate, period), payment: round(principal + interest), principal, interest, prepayment, balance });
+  }
+  return schedule;
+};
+
+export const getLoanSummary = (terms: LoanTerms, prepayments: Prepayment[] = [], now: Date = new Date()): LoanSummary => {
+  const schedule = getLoanSchedule(terms, prepayments);
+  const today = toDateKey(now);
+  const paid = schedule.filter(p => p.date <= today);
+  return {
+    schedule,
+    totalInterest: round(schedule.reduce((sum, p) => sum + p.interest, 0)),
+    totalPaid: round(schedule.reduce((sum, p) => sum + p.payment + p.prepayment, 0)),
+    payoffDate: schedule[schedule.length - 1]?.date ?? terms.startDate,
+    paidPeriods: paid.length,
+    remaining: paid.length ? paid[paid.length - 1].balance : round(terms.principal),
+    next: schedule[paid.length],
+  };
+};
+
+// The loan as planned against the same loan with the prepayments made
+export const comparePrepayment = (terms: LoanTerms, prepayments: Prepayment[], now: Date = new Date()): PrepaymentComparison => {
+  const base = getLoanSummary(terms, [], now);
+  const scenario = getLoanSummary(terms, prepayments, now);
+  return {
+    base,
+    scenario,
+    interestSaved: round(base.totalInterest - scenario.totalInterest),
+    monthsSaved: base.schedule.length - scenario.schedule.length,
+  };
+};
@@ -0,0 +1,176 @@
+import { Account, AccountType, Currency, ExchangeRate, NetWorthBalance, NetWorthSnapshot, Transaction } from "../types";
+import { convertAmount, getPostings } from "./ledgerService";
+import { toDateKey } from "./exchangeRateService";
+
+/**
+ * Daily net worth history. Each snapshot keeps balances in their own currency,
+ * summed per account type and currency, so the history can be shown in any
+ * base currency at the rates of the day. Today's snapshot is captured from the
+ * live balances and stored; earlier days without one are rebuilt in memory by
+ * undoing the postings made since. Rebuilt days follow later edits to past
+ * transactions, captured ones are kept as they were.
+ */
+
+export interface NetWorthPoint {
+  date: string;
+  total: number;
+  byType: Record<AccountType, number>;
+}
+
+export interface NetWorthChange {
+  date: string; // Snapshot compared against
+  value: number;
+  change: number;
+  ratio: number | null; // Relative to |value|; null when that was 0
+}
+
+export interface NetWorthDeltas {
+  current: NetWorthPoint | null;
+  monthOverMonth: NetWorthChange | null;
+  yearOverYear: NetWorthChange | null;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const previousDay = (day: string) => {
+  const d = new Date(`${day}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return toDateKey(d);
+};
+
+// Balances summed per type and currency, skipping groups that are empty
+const groupBalances = (accounts: Account[], balances: Record<string, number>): NetWorthBalance[] => {
+  const groups = new Map<string, NetWorthBalance>();
+  accounts.forEach(a => {
+    const key = `${a.type}|${a.currency}`;
+    const group = groups.get(key) || { type: a.type, currency: a.currency, amount: 0 };
+    group.amount = round(group.amount + balances[a.id]);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values())
+    .filter(b => b.amount !== 0)
+    .sort((a, b) => a.type.localeCompare(b.type) || a.currency.localeCompare(b.currency));
+};
+
+const isSameSnapshot = (a: NetWorthSnapshot | undefined, b: NetWorthSnapshot) =>
+  !!a && a.source === b.source && JSON.stringify(a.balances) === JSON.stringify(b.balances);
+
+/**
+ * Captures today's snapshot into the stored ones. Rebuilt snapshots that older
+ * versions stored are dropped, as they are derived again on demand. Returns
+ * `snapshots` itself when nothing changed, so it is safe to run on every
+ * balance change.
+ */
+export const captureNetWorthSnapshot = (
+  snapshots: NetWorthSnapshot[],
+  accounts: Account[],
+  now: Date = new Date()
+): NetWorthSnapshot[] => {
+  const today = toDateKey(now);
+  const balances: Record<string, number> = Object.fromEntries(accounts.map(a => [a.id, a.balance]));
+  const snapshot: NetWorthSnapshot = { id: today, date: today, balances: groupBalances(accounts, balances), source: 'captured' };
+
+  const captured = snapshots.filter(s => s.source === 'captured');
+  const current = captured.find(s => s.id === today);
+  if (captured.length === snapshots.length && isSameSnapshot(current, snapshot)) return snapshots;
+  return [...captured.filter(s => s.id !== today), snapshot].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * The captured snapshots plus every earlier day back to the first completed
+ * transaction that has none, rebuilt from the live balances. Today's balances
+ * are the starting point even when today's capture has not run yet.
+ */
+export const rebuildNetWorthHistory = (
+  captured: NetWorthSnapshot[],
+  accounts: Account[],
+  transactions: Transaction[],
+  rates: ExchangeRate[] = [],
+  now: Date = new Date()
+): NetWorthSnapshot[] => {
+  const result = new Map(captured.map(s => [s.id, s]));
+  const today = toDateKey(now);
+  const balances: Record<string, number> = Object.fromEntries(accounts.map(a => [a.id, a.balance]));
+
+  const postings = transactions
+    .flatMap(tx => getPostings(tx, accounts, rates))
+    .map(p => ({ ...p, day: toDateKey(p.date) }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+  const firstDay = postings.length ? postings[postings.length - 1].day : today;
+
+  let next = 0; // Postings after the day being rebuilt have been undone up to here
+  for (let day = previousDay(today); day >= firstDay; day = previousDay(day)) {
+    for (; next < postings.length && postings[next].day > day; next++) {
+      balances[postings[next].accountId] -= postings[next].amount;
+    }
+    if (!result.has(day)) {
+      result.set(day, { id: day, date: day, balances: groupBalances(accounts, balances), source: 'rebuilt' });
+    }
+  }
+  return Array.from(result.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Converted at the rates of the snapshot's day
+export const getSnapshotPoint = (snapshot: NetWorthSnapshot, baseCurrency: Currency, rates: ExchangeRate[] = []): NetWorthPoint => {
+  const byType = Object.fromEntries(Object.values(AccountType).map(type => [type, 0])) as Record<AccountType, number>;
+  snapshot.balances.forEach(b => {
+    byType[b.type] += convertAmount(b.amount, b.currency, baseCurrency, rates, snapshot.date);
+  });
+  Object.values(AccountType).forEach(type => { byType[type] = round(byType[type]); });
+  return {
+    date: snapshot.date,
+    total: round(Object.values(byType).reduce((sum, v) => sum + v, 0)),
+    byType,
+  };
+};
+
+export const getNetWorthHistory = (
+  snapshots: NetWorthSnapshot[],
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = [],
+  from?: string // YYYY-MM-DD, inclusive
+): NetWorthPoint[] =>
+  snapshots
+    .filter(s => !from || s.date >= from)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(s => getSnapshotPoint(s, baseCurrency, rates));
+
+// The last snapshot on or before the day
+const findSnapshotOn = (sorted: NetWorthSnapshot[], day: string) => {
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    if (sorted[i].date <= day) return sorted[i];
+  }
+  return null;
+};
+
+export const getNetWorthDeltas = (
+  snapshots: NetWorthSnapshot[],
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = [],
+  now: Date = new Date()
+): NetWorthDeltas => {
+  const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+  const latest = findSnapshotOn(sorted, toDateKey(now));
+  if (!latest) return { current: null, monthOverMonth: null, yearOverYear: null };
+  const current = getSnapshotPoint(latest, baseCurrency, rates);
+
+  const compareWith = (day: Date): NetWorthChange | null => {
+    const past = findSnapshotOn(sorted, toDateKey(day));
+    if (!past || past === latest) return null;
+    const value = getSnapshotPoint(past, baseCurrency, rates).total;
+    const change = round(current.total - value);
+    return { date: past.date, value, change, ratio: value !== 0 ? change / Math.abs(value) : null };
+  };
+
+  // Same day of an earlier month, clamped so Mar 31 compares with Feb 28
+  const monthsBefore = (months: number) => {
+    const [year, month, day] = latest.date.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, month - 1 - months + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month - 1 - months, Math.min(day, lastDay)));
+  };
+  return {
+    current,
+    monthOverMonth: compareWith(monthsBefore(1)),
+    yearOverYear: compareWith(monthsBefore(12)),
+  };
+};
@@ -0,0 +1,139 @@
+import { RecurringRule, Transaction, TransactionStatus, TransactionType } from "../types";
+
+/**
+ * Recurring rule scheduler. Runs on load, creates every occurrence that came due
+ * since the last run and advances each rule's nextDueDate.
+ */
+
+export const RECURRING_TAG = 'Recurring';
+
+// Safety cap so a rule with a far-past due date cannot flood the ledger
+const MAX_OCCURRENCES_PER_RUN = 500;
+
+export interface RecurringRunResult {
+  rules: RecurringRule[];
+  transactions: Transaction[]; // Newest first
+}
+
+const addDays = (date: Date, days: number): Date => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+};
+
+// Keeps the anchor day (e.g. the 31st) instead of drifting after a short month
+const addMonths = (date: Date, months: number, anchorDay: number): Date => {
+  const d = new Date(date.getFullYear(), date.getMonth() + months, 1, date.getHours(), date.getMinutes(), date.getSeconds());
+  const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+  d.setDate(Math.min(anchorDay, lastDay));
+  return d;
+};
+
+export const getNextDueDate = (rule: RecurringRule, from: string): string => {
+  const date = new Date(from);
+  const anchorDay = new Date(rule.startDate || rule.nextDueDate).getDate();
+
+  switch (rule.frequency) {
+    case 'WEEKLY': return addDays(date, 7).toISOString();
+    case 'BIWEEKLY': return addDays(date, 14).toISOString();
+    case 'MONTHLY': return addMonths(date, 1, anchorDay).toISOString();
+    case 'QUARTERLY': return addMonths(date, 3, anchorDay).toISOString();
+    case 'YEARLY': return addMonths(date, 12, anchorDay).toISOString();
+    case 'CUSTOM': return addDays(date, Math.max(1, rule.intervalDays || 1)).toISOString();
+  }
+};
+
+const isWithinEndDate = (rule: RecurringRule, dueDate: string): boolean =>
+  !rule.endDate || new Date(dueDate) <= new Date(rule.endDate);
+
+// Due dates from nextDueDate up to `until`, respecting the rule's end date
+export const getOccurrences = (rule: RecurringRule, until: Date, limit = MAX_OCCURRENCES_PER_RUN): string[] => {
+  const dates: string[] = [];
+  let due = rule.nextDueDate;
+  while (dates.length < limit && new Date(due) <= until && isWithinEndDate(rule, due)) {
+    dates.push(due);
+    due = getNextDueDate(rule, due);
+  }
+  return dates;
+};
+
+// Next `count` due dates starting at nextDueDate, for previews
+export const getUpcomingOccurrences = (rule: RecurringRule, count = 5): string[] => {
+  const dates: string[] = [];
+  let due = rule.nextDueDate;
+  while (dates.length < count && isWithinEndDate(rule, due)) {
+    dates.push(due);
+    due = getNextDueDate(rule, due);
+  }
+  return dates;
+};
+
+/**
+ * First occurrence of the rule's schedule (from startDate) on or after `notBefore`.
+ * Used when a schedule is edited or a paused rule resumes, so skipped periods are not backfilled.
+ */
+export const alignNextDueDate = (rule: RecurringRule, notBefore: string): string => {
+  const limit = new Date(notBefore);
+  let due = rule.startDate || rule.nextDueDate;
+  for (let i = 0; i < MAX_OCCURRENCES_PER_RUN * 10 && new Date(due) < limit; i++) {
+    due = getNextDueDate(rule, due);
+  }
+  return due;
+};
+
+// Deterministic id so running the scheduler twice never duplicates an occurrence
+export const getOccurrenceId = (rule: RecurringRule, dueDate: string): string =>
+  `${rule.id}_${dueDate.split('T')[0]}`;
+
+export const createRecurringTransaction = (rule: RecurringRule, dueDate: string): Transaction => {
+  const isPending = !!rule.createAsPending;
+  return {
+    id: getOccurrenceId(rule, dueDate),
+    date: dueDate,
+    expectedDate: isPending ? dueDate : undefined,
+    amount: rule.amount,
+    currency: rule.currency,
+    type: rule.type === TransactionType.INCOME ? TransactionType.INCOME : TransactionType.EXPENSE,
+    category: rule.category,
+    tags: [RECURRING_TAG],
+    accountId: rule.accountId,
+    note: `Auto-generated: ${rule.name}`,
+    status: isPending ? TransactionStatus.PENDING : TransactionStatus.COMPLETED,
+    isAmortized: false,
+    amortizationMonths: 0,
+    isRecurring: true,
+    recurringRuleId: rule.id,
+  };
+};
+
+export const runRecurringRules = (
+  rules: RecurringRule[],
+  existing: Transaction[],
+  now: Date = new Date()
+): RecurringRunResult => {
+  const existingIds = new Set(existing.map(t => t.id));
+  const generated: Transaction[] = [];
+
+  const updatedRules = rules.map(original => {
+    if (original.isPaused) return original;
+    const rule = original.startDate ? original : { ...original, startDate: original.nextDueDate };
+    const occurrences = getOccurrences(rule, now);
+    if (occurrences.length === 0) return original;
+
+    occurrences
+      .map(due => createRecurringTransaction(rule, due))
+      .filter(tx => !existingIds.has(tx.id))
+      .forEach(tx => generated.push(tx));
+
+    return {
+      ...rule,
+      nextDueDate: getNextDueDate(rule, occurrences[occurrences.length - 1]),
+      lastRunDate: now.toISOString(),
+    };
+  });
+
+  return {
+    rules: updatedRules,
+    transactions: generated.sort((a, b) => b.date.localeCompare(a.date)),
+  };
+};
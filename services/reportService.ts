@@ -0,0 +1,211 @@
+import { Account, CategoryDefinition, CategoryType, Currency, ExchangeRate, Transaction, TransactionStatus, TransactionType } from "../types";
+import { getAmortizationSchedule, toMonthKey } from "./amortizationService";
+import { createCategoryRollup } from "./categoryService";
+import { TRANSFER_FEE_CATEGORY, convertAmount, getPostings, getTransferFee } from "./ledgerService";
+import { expandSplits } from "./splitService";
+
+/**
+ * Aggregations behind the Reports tab. Every report takes the same filter:
+ * a month range, a set of accounts and a transaction currency. Amounts are in
+ * baseCurrency at the rate on the transaction date; balances at month end.
+ * Pending transactions are left out unless asked for, and long-term purchases
+ * can be spread over their amortization months like the dashboard does.
+ */
+
+export interface ReportFilter {
+  from: string; // YYYY-MM, inclusive
+  to: string; // YYYY-MM, inclusive
+  accountIds: string[]; // Empty for all accounts
+  currency: Currency | 'ALL'; // Transaction (or account) currency
+  includePending: boolean;
+  spreadAmortized: boolean;
+  rollupCategories: boolean; // Count subcategories under their parent
+}
+
+export interface MonthlyFlow {
+  month: string;
+  income: number;
+  expense: number;
+  net: number;
+}
+
+export interface NamedTotal {
+  name: string;
+  amount: number;
+}
+
+export interface TagTotal {
+  tag: string;
+  income: number;
+  expense: number;
+}
+
+// One row per month; keys are account ids plus `month` and `total`
+export type BalanceHistoryRow = { month: string; total: number } & Record<string, number | string>;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const monthStart = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(year, m - 1, 1);
+};
+
+// Last moment of the month, for balances "as of" the month
+const monthEnd = (month: string) => {
+  const start = monthStart(month);
+  return new Date(start.getFullYear(), start.getMonth() + 1, 0, 23, 59, 59, 999);
+};
+
+export const getMonthRange = (from: string, to: string): string[] => {
+  const months: string[] = [];
+  for (let d = monthStart(from); toMonthKey(d) <= to; d = new Date(d.getFullYear(), d.getMonth() + 1, 1)) {
+    months.push(toMonthKey(d));
+  }
+  return months;
+};
+
+// The last twelve months including the current one
+export const getDefaultReportFilter = (now: Date = new Date()): ReportFilter => ({
+  from: toMonthKey(new Date(now.getFullYear(), now.getMonth() - 11, 1)),
+  to: toMonthKey(now),
+  accountIds: [],
+  currency: 'ALL',
+  includePending: false,
+  spreadAmortized: true,
+  rollupCategories: true,
+});
+
+const matchesFilter = (tx: Transaction, filter: ReportFilter) =>
+  (filter.includePending || tx.status === TransactionStatus.COMPLETED) &&
+  (filter.currency === 'ALL' || tx.currency === filter.currency) &&
+  (filter.accountIds.length === 0 || filter.accountIds.includes(tx.accountId) ||
+    (!!tx.toAccountId && filter.accountIds.includes(tx.toAccountId)));
+
+const isInRange = (month: string, filter: ReportFilter) => month >= filter.from && month <= filter.to;
+
+// Expense slices by month: amortized purchases spread unless the filter says otherwise
+const getExpenseSlices = (tx: Transaction, filter: ReportFilter) =>
+  filter.spreadAmortized ? getAmortizationSchedule(tx) : [{ month: toMonthKey(tx.date), amount: tx.amount }];
+
+/**
+ * Every income and expense amount in the range, in baseCurrency, with the
+ * category and tags it should be reported under. Transfer fees are expenses,
+ * and each line of a split transaction is an entry of its own.
+ */
+const getFlowEntries = (
+  transactions: Transaction[],
+  filter: ReportFilter,
+  baseCurrency: Currency,
+  rates: ExchangeRate[]
+) =>
+  expandSplits(transactions.filter(tx => matchesFilter(tx, filter))).flatMap(tx => {
+    const toBase = (amount: number) => convertAmount(amount, tx.currency, baseCurrency, rates, tx.date);
+    if (tx.type === TransactionType.INCOME) {
+      return [{ month: toMonthKey(tx.date), type: tx.type, category: tx.category, tags: tx.tags, amount: toBase(tx.amount) }];
+    }
+    if (tx.type === TransactionType.EXPENSE) {
+      return getExpenseSlices(tx, filter).map(slice => ({ month: slice.month, type: tx.type, category: tx.category, tags: tx.tags, amount: toBase(slice.amount) }));
+    }
+    const fee = getTransferFee(tx);
+    return fee > 0
+      ? [{ month: toMonthKey(tx.date), type: TransactionType.EXPENSE, category: TRANSFER_FEE_CATEGORY, tags: tx.tags, amount: toBase(fee) }]
+      : [];
+  }).filter(entry => isInRange(entry.month, filter));
+
+export const getMonthlyFlows = (
+  transactions: Transaction[],
+  filter: ReportFilter,
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = []
+): MonthlyFlow[] => {
+  const flows = new Map(getMonthRange(filter.from, filter.to).map(month => [month, { month, income: 0, expense: 0, net: 0 }]));
+  getFlowEntries(transactions, filter, baseCurrency, rates).forEach(entry => {
+    const flow = flows.get(entry.month)!;
+    if (entry.type === TransactionType.INCOME) flow.income += entry.amount;
+    else flow.expense += entry.amount;
+  });
+  return Array.from(flows.values()).map(f => ({
+    month: f.month,
+    income: round(f.income),
+    expense: round(f.expense),
+    net: round(f.income - f.expense),
+  }));
+};
+
+export const getCategoryTotals = (
+  transactions: Transaction[],
+  filter: ReportFilter,
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = [],
+  type: CategoryType = TransactionType.EXPENSE,
+  categories: CategoryDefinition[] = []
+): NamedTotal[] => {
+  const totals: Record<string, number> = {};
+  const rollup = filter.rollupCategories ? createCategoryRollup(categories, type) : (name: string) => name;
+  getFlowEntries(transactions, filter, baseCurrency, rates)
+    .filter(entry => entry.type === type)
+    .forEach(entry => {
+      const name = rollup(entry.category);
+      totals[name] = (totals[name] || 0) + entry.amount;
+    });
+  return Object.entries(totals)
+    .map(([name, amount]) => ({ name, amount: round(amount) }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+// Transactions with several tags count toward each of them
+export const getTagTotals = (
+  transactions: Transaction[],
+  filter: ReportFilter,
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = []
+): TagTotal[] => {
+  const totals: Record<string, TagTotal> = {};
+  getFlowEntries(transactions, filter, baseCurrency, rates).forEach(entry => {
+    entry.tags.forEach(tag => {
+      const total = totals[tag] || (totals[tag] = { tag, income: 0, expense: 0 });
+      if (entry.type === TransactionType.INCOME) total.income += entry.amount;
+      else total.expense += entry.amount;
+    });
+  });
+  return Object.values(totals)
+    .map(t => ({ tag: t.tag, income: round(t.income), expense: round(t.expense) }))
+    .sort((a, b) => (b.expense + b.income) - (a.expense + a.income));
+};
+
+/**
+ * Account balances at each month end, rebuilt backwards from today's balances
+ * by undoing the postings made after that point. Only completed transactions
+ * post, so pending ones never move history. Balances are in baseCurrency at the
+ * month-end rate.
+ */
+export const getBalanceHistory = (
+  accounts: Account[],
+  transactions: Transaction[],
+  filter: ReportFilter,
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = []
+): BalanceHistoryRow[] => {
+  const selected = accounts.filter(a =>
+    (filter.accountIds.length === 0 || filter.accountIds.includes(a.id)) &&
+    (filter.currency === 'ALL' || a.currency === filter.currency));
+  const postings = transactions
+    .flatMap(tx => getPostings(tx, accounts, rates))
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const balances: Record<string, number> = Object.fromEntries(accounts.map(a => [a.id, a.balance]));
+  let next = 0; // Postings newer than the month being built have been undone up to here
+  return getMonthRange(filter.from, filter.to).reverse().map(month => {
+    const end = monthEnd(month).toISOString();
+    for (; next < postings.length && postings[next].date > end; next++) {
+      balances[postings[next].accountId] -= postings[next].amount;
+    }
+    const row: BalanceHistoryRow = { month, total: 0 };
+    selected.forEach(a => {
+      const value = round(convertAmount(balances[a.id], a.currency, baseCurrency, rates, monthEnd(month)));
+      row[a.id] = value;
+      row.total = round(row.total + value);
+    });
+    return row;
+  }).reverse();
+};
@@ -0,0 +1,275 @@
+import { Transaction } from "../types";
+import {
+  COLLECTION_KEYS,
+  ChangeSet,
+  CollectionKey,
+  CollectionRecord,
+  DataCipher,
+  PERSISTED_KEYS,
+  PersistedData,
+  PersistedKey,
+  RawData,
+  SCHEMA_VERSION,
+  SETTING_KEYS,
+  applyChangeSet,
+  clearStoredData,
+  getRecordKey,
+  getStorageKey,
+  hasStoredData,
+  isRecord,
+  loadStoredData,
+  migrate,
+  saveStoredData,
+  toPersistedData,
+  withoutEmptyKeys
+} from "./storageService";
+
+/**
+ * Where a user's data lives. The dashboard keeps everything in memory and hands
+ * the repository only what changed; IndexedDB writes those records one by one,
+ * the localStorage fallback rewrites the touched collections. Given a cipher,
+ * both keep records encrypted and decrypt them on load. IndexedDB answers
+ * transaction queries by date and account from indexes.
+ */
+
+export interface TransactionQuery {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  accountId?: string; // Matches either side of a transfer
+}
+
+export interface Repository {
+  kind: 'indexedDB' | 'localStorage';
+  // Keys that were never saved are absent, so a new user loads as {}
+  load: () => Promise<Partial<PersistedData>>;
+  applyChanges: (changes: ChangeSet) => Promise<void>;
+  replaceAll: (data: Partial<PersistedData>) => Promise<void>;
+  // Newest first
+  queryTransactions: (query: TransactionQuery) => Promise<Transaction[]>;
+}
+
+// Bump when a collection is added so onupgradeneeded creates its store
+const DB_VERSION = 8;
+const META_STORE = 'meta';
+
+// Bump when the index keys change; load rewrites records stored with older ones
+const INDEX_VERSION = 1;
+
+// Indexed on the day until DB_VERSION 7, which could not work with encrypted records
+const LEGACY_INDEXES = ['date'];
+
+// Upper bound sorts after every timestamp on the `to` day
+const getDateRange = (query: TransactionQuery): [string, string] => [
+  query.from || '',
+  query.to ? `${query.to}T\uffff` : '\uffff',
+];
+
+const matchesQuery = (tx: Transaction, query: TransactionQuery) => {
+  const [from, to] = getDateRange(query);
+  if (tx.date < from || tx.date > to) return false;
+  return !query.accountId || tx.accountId === query.accountId || tx.toAccountId === query.accountId;
+};
+
+const byNewest = (a: Transaction, b: Transaction) => b.date.localeCompare(a.date);
+
+const pick = (data: Partial<PersistedData>, keys: PersistedKey[]): Partial<PersistedData> => {
+  const picked: Partial<PersistedData> = {};
+  const copy = <K extends PersistedKey>(key: K) => { picked[key] = data[key]; };
+  keys.forEach(copy);
+  return picked;
+};
+
+export const createLocalStorageRepository = (userId: string, cipher?: DataCipher): Repository => {
+  let cache: Partial<PersistedData> | null = null;
+  const read = async () => cache ?? (cache = await loadStoredData(userId, cipher));
+
+  return {
+    kind: 'localStorage',
+    load: read,
+    applyChanges: async (changes) => {
+      const next = applyChangeSet(await read(), changes);
+      const touched = new Set([...Object.keys(changes.upserts), ...Object.keys(changes.deletes), ...Object.keys(changes.settings)]);
+      await saveStoredData(userId, pick(next, PERSISTED_KEYS.filter(key => touched.has(key))), cipher);
+      cache = next;
+    },
+    replaceAll: async (data) => {
+      // Write first and then drop what the new data leaves out, so nothing is lost while encrypting
+      await saveStoredData(userId, data, cipher);
+      PERSISTED_KEYS.forEach(key => { if (data[key] === undefined) localStorage.removeItem(getStorageKey(userId, key)); });
+      cache = data;
+    },
+    queryTransactions: async (query) => ((await read()).transactions || []).filter(tx => matchesQuery(tx, query)).sort(byNewest),
+  };
+};
+
+// --- IndexedDB ---
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const whenDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (userId: string): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(`lt_${userId}`, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Records use out-of-line keys from getRecordKey, so rates need no id
+      COLLECTION_KEYS.forEach(collection => {
+        if (!db.objectStoreNames.contains(collection)) db.createObjectStore(collection);
+      });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      const transactions = request.transaction!.objectStore('transactions');
+      LEGACY_INDEXES.forEach(index => { if (transactions.indexNames.contains(index)) transactions.deleteIndex(index); });
+      (['month', 'accountId', 'toAccountId'] as const).forEach(index => {
+        if (!transactions.indexNames.contains(index)) transactions.createIndex(index, index);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const ALL_STORES = [...COLLECTION_KEYS, META_STORE];
+
+interface TransactionIndexKeys {
+  month: string; // YYYY-MM; date queries read whole months and narrow them after decrypting
+  accountId: string;
+  toAccountId?: string;
+}
+
+/**
+ * Stored readable next to each record, so the indexes work on encrypted ones:
+ * the month rather than the day, and the account ids, which are random and
+ * carry no names. Everything else about a transaction stays encrypted.
+ */
+const INDEX_KEYS: { [K in CollectionKey]?: (record: CollectionRecord<K>) => TransactionIndexKeys } = {
+  transactions: tx => ({ month: tx.date.slice(0, 7), accountId: tx.accountId, ...(tx.toAccountId && { toAccountId: tx.toAccountId }) }),
+};
+
+// Records are encrypted before a transaction opens: IndexedDB commits a transaction once it has no pending requests
+const encodeRecords = <K extends CollectionKey>(collection: K, records: CollectionRecord<K>[], cipher?: DataCipher): Promise<[string, unknown][]> =>
+  Promise.all(records.map(async (record): Promise<[string, unknown]> => {
+    const indexKeys = INDEX_KEYS[collection]?.(record);
+    const payload = cipher ? await cipher.encrypt(record) : record;
+    return [getRecordKey(collection, record), indexKeys ? { ...payload, ...indexKeys } : payload];
+  }));
+
+// Decrypting drops the index keys; a plain record only needs the month removed
+const withoutIndexKeys = (record: unknown): unknown => {
+  if (!isRecord(record) || !('month' in record)) return record;
+  const { month: _month, ...rest } = record;
+  return rest;
+};
+
+// Stored records are not trusted to be PersistedData until toPersistedData has checked them
+const decodeRecords = async (collection: CollectionKey, records: unknown[], cipher?: DataCipher): Promise<unknown[]> => {
+  const decoded = cipher ? await Promise.all(records.map(record => cipher.decrypt(record))) : records;
+  return INDEX_KEYS[collection] ? decoded.map(withoutIndexKeys) : decoded;
+};
+
+const writeAll = async (db: IDBDatabase, data: Partial<PersistedData>, cipher?: DataCipher): Promise<void> => {
+  const encoded = await Promise.all(COLLECTION_KEYS.map(collection => encodeRecords(collection, data[collection] || [], cipher)));
+  const tx = db.transaction(ALL_STORES, 'readwrite');
+  ALL_STORES.forEach(store => tx.objectStore(store).clear());
+  COLLECTION_KEYS.forEach((collection, i) => {
+    const store = tx.objectStore(collection);
+    encoded[i].forEach(([key, record]) => store.put(record, key));
+  });
+  const meta = tx.objectStore(META_STORE);
+  SETTING_KEYS.forEach(key => { if (data[key] !== undefined) meta.put(data[key], key); });
+  meta.put(SCHEMA_VERSION, 'schemaVersion');
+  meta.put(INDEX_VERSION, 'indexVersion');
+  return whenDone(tx);
+};
+
+export const createIndexedDbRepository = async (userId: string, cipher?: DataCipher): Promise<Repository> => {
+  const db = await openDatabase(userId);
+
+  const load = async (): Promise<Partial<PersistedData>> => {
+    const tx = db.transaction(ALL_STORES, 'readonly');
+    const meta = tx.objectStore(META_STORE);
+    const version: number | undefined = await toPromise(meta.get('schemaVersion'));
+    if (version === undefined) return {}; // Nothing saved yet
+    const indexVersion: number | undefined = await toPromise(meta.get('indexVersion'));
+
+    const stored: Partial<Record<CollectionKey, unknown[]>> = {};
+    const data: RawData = {};
+    await Promise.all([
+      ...COLLECTION_KEYS.map(async collection => { stored[collection] = await toPromise(tx.objectStore(collection).getAll()); }),
+      ...SETTING_KEYS.map(async key => { data[key] = await toPromise(meta.get(key)); }),
+    ]);
+    for (const collection of COLLECTION_KEYS) data[collection] = await decodeRecords(collection, stored[collection] || [], cipher);
+
+    // Records written before the current index keys are rewritten so queries find them
+    if (version >= SCHEMA_VERSION && indexVersion === INDEX_VERSION) return toPersistedData(withoutEmptyKeys(data));
+    const migrated = toPersistedData(withoutEmptyKeys(version < SCHEMA_VERSION ? migrate(data, version) : data));
+    await writeAll(db, migrated, cipher);
+    return migrated;
+  };
+
+  const applyChanges = async (changes: ChangeSet): Promise<void> => {
+    const upserts = await Promise.all(COLLECTION_KEYS.map(collection =>
+      encodeRecords(collection, changes.upserts[collection] || [], cipher)));
+    const tx = db.transaction(ALL_STORES, 'readwrite');
+    COLLECTION_KEYS.forEach((collection, i) => {
+      const store = tx.objectStore(collection);
+      changes.deletes[collection]?.forEach(key => store.delete(key));
+      upserts[i].forEach(([key, record]) => store.put(record, key));
+    });
+    const meta = tx.objectStore(META_STORE);
+    Object.entries(changes.settings).forEach(([key, value]) => meta.put(value, key));
+    meta.put(SCHEMA_VERSION, 'schemaVersion');
+    return whenDone(tx);
+  };
+
+  const queryTransactions = async (query: TransactionQuery): Promise<Transaction[]> => {
+    const store = db.transaction('transactions', 'readonly').objectStore('transactions');
+    const stored = query.accountId
+      // Both sides of a transfer, then narrowed by date
+      ? (await Promise.all([
+          toPromise(store.index('accountId').getAll(query.accountId)),
+          toPromise(store.index('toAccountId').getAll(query.accountId)),
+        ])).flat()
+      : await toPromise(store.index('month').getAll(IDBKeyRange.bound(query.from?.slice(0, 7) || '', query.to?.slice(0, 7) || '\uffff')));
+    const decoded = toPersistedData({ transactions: await decodeRecords('transactions', stored, cipher) }).transactions || [];
+    const unique = new Map(decoded.map(tx => [tx.id, tx]));
+    return Array.from(unique.values()).filter(tx => matchesQuery(tx, query)).sort(byNewest);
+  };
+
+  return {
+    kind: 'indexedDB',
+    load,
+    applyChanges,
+    replaceAll: (data) => writeAll(db, data, cipher),
+    queryTransactions,
+  };
+};
+
+/**
+ * Opens IndexedDB, moving any localStorage data into it first. localStorage data
+ * only exists before the move or after a session that had to fall back to it,
+ * so it is always the newest copy. Falls back to localStorage when IndexedDB is
+ * unavailable (e.g. some private browsing modes).
+ */
+export const openRepository = async (userId: string, cipher?: DataCipher): Promise<Repository> => {
+  if (typeof indexedDB === 'undefined') return createLocalStorageRepository(userId, cipher);
+  try {
+    const repository = await createIndexedDbRepository(userId, cipher);
+    if (hasStoredData(userId)) {
+      await repository.replaceAll(await loadStoredData(userId, cipher));
+      clearStoredData(userId);
+    }
+    return repository;
+  } catch (error) {
+    console.error("IndexedDB unavailable, using localStorage:", error);
+    return createLocalStorageRepository(userId, cipher);
+  }
+};
@@ -0,0 +1,47 @@
+import { Transaction, TransactionSplit, TransactionType } from "../types";
+
+/**
+ * Split transactions: one payment divided into lines, each with its own
+ * category, amount, tags and note. Balances post the transaction total once,
+ * while everything that counts by category (reports, budgets, the advice
+ * summary) works on the lines, each as if it were a transaction of its own.
+ */
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export const isSplit = (tx: Transaction): tx is Transaction & { splits: TransactionSplit[] } =>
+  tx.type !== TransactionType.TRANSFER && !!tx.splits && tx.splits.length > 0;
+
+// Each line as a transaction; tags combine the line's with the transaction's
+export const getSplitLines = (tx: Transaction): Transaction[] => {
+  if (!isSplit(tx)) return [tx];
+  return tx.splits.map((line, i) => ({
+    ...tx,
+    id: `${tx.id}#${i}`,
+    amount: line.amount,
+    category: line.category,
+    tags: Array.from(new Set([...tx.tags, ...line.tags])),
+    note: line.note || tx.note,
+    splits: undefined,
+  }));
+};
+
+export const expandSplits = (transactions: Transaction[]): Transaction[] =>
+  transactions.some(isSplit) ? transactions.flatMap(getSplitLines) : transactions;
+
+export const getTransactionCategories = (tx: Transaction): string[] =>
+  isSplit(tx) ? Array.from(new Set(tx.splits.map(line => line.category))) : [tx.category];
+
+export const getTransactionTags = (tx: Transaction): string[] =>
+  isSplit(tx) ? Array.from(new Set([...tx.tags, ...tx.splits.flatMap(line => line.tags)])) : tx.tags;
+
+// What is left to assign to lines; negative when the lines exceed the total
+export const getSplitRemainder = (amount: number, splits: Pick<TransactionSplit, 'amount'>[]): number =>
+  round(amount - splits.reduce((sum, line) => sum + (line.amount || 0), 0));
+
+// Applies `update` to every line, returning the transaction unchanged if no line changed
+export const mapSplitLines = (tx: Transaction, update: (line: TransactionSplit) => TransactionSplit): Transaction => {
+  if (!isSplit(tx)) return tx;
+  const splits = tx.splits.map(update);
+  return splits.every((line, i) => line === tx.splits[i]) ? tx : { ...tx, splits, category: splits[0].category };
+};
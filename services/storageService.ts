@@ -0,0 +1,309 @@
+import { Account, AccountType, Budget, CategoryDefinition, Currency, ExchangeRate, HoldingSnapshot, NetWorthSnapshot, RecurringRule, Transaction, TransactionStatus, TransactionType } from "../types";
+import { ImportPreset } from "./importService";
+import { FilterPreset } from "./transactionFilterService";
+import { getDefaultCategories } from "./categoryService";
+import { createHoldingSnapshot } from "./holdingHistoryService";
+import { Language } from "../translations";
+
+/**
+ * Versioned persistence. Defines what a user owns, the schema version and the
+ * migrations, plus the legacy localStorage layout (`lt_<userId>_<key>`). Data
+ * written by an older version is run through the migration pipeline at load
+ * time before the app sees it; repositoryService decides where it lives.
+ */
+
+// Bump together with a new entry in MIGRATIONS
+export const SCHEMA_VERSION = 7;
+
+// Data saved before versioning was introduced
+const LEGACY_VERSION = 1;
+
+export interface PersistedData {
+  accounts: Account[];
+  transactions: Transaction[];
+  recurringRules: RecurringRule[];
+  exchangeRates: ExchangeRate[];
+  importPresets: ImportPreset[];
+  budgets: Budget[];
+  netWorthSnapshots: NetWorthSnapshot[];
+  filterPresets: FilterPreset[];
+  categories: CategoryDefinition[];
+  holdingSnapshots: HoldingSnapshot[];
+  baseCurrency: Currency;
+  language: Language;
+}
+
+export type PersistedKey = keyof PersistedData;
+
+export const PERSISTED_KEYS: PersistedKey[] = [
+  'accounts', 'transactions', 'recurringRules', 'exchangeRates', 'importPresets', 'budgets', 'netWorthSnapshots', 'filterPresets', 'categories', 'holdingSnapshots', 'baseCurrency', 'language',
+];
+
+// Keyed record lists; everything else in PersistedData is a setting
+export type CollectionKey = 'accounts' | 'transactions' | 'recurringRules' | 'exchangeRates' | 'importPresets' | 'budgets' | 'netWorthSnapshots' | 'filterPresets' | 'categories' | 'holdingSnapshots';
+
+export const COLLECTION_KEYS: CollectionKey[] = ['accounts', 'transactions', 'recurringRules', 'exchangeRates', 'importPresets', 'budgets', 'netWorthSnapshots', 'filterPresets', 'categories', 'holdingSnapshots'];
+
+export type SettingKey = 'baseCurrency' | 'language';
+
+export const SETTING_KEYS: SettingKey[] = ['baseCurrency', 'language'];
+
+// Incremental write: records to put and keys to delete per collection
+export interface ChangeSet {
+  upserts: Partial<{ [K in CollectionKey]: PersistedData[K] }>;
+  deletes: Partial<Record<CollectionKey, string[]>>;
+  settings: Partial<Pick<PersistedData, SettingKey>>;
+}
+
+// Encrypts record collections at rest (see encryptionService); settings stay readable.
+// Decrypted values are whatever was stored, so callers narrow them before use
+export interface DataCipher {
+  encrypt: (value: unknown) => Promise<object>;
+  decrypt: (value: unknown) => Promise<unknown>;
+}
+
+// Stored as plain strings rather than JSON, as baseCurrency always has been
+const STRING_KEYS: PersistedKey[] = ['baseCurrency', 'language'];
+
+export const getStorageKey = (userId: string, key: string) => `lt_${userId}_${key}`;
+
+// Data as read from storage or a backup file, before it is known to be PersistedData
+export type RawData = Record<string, unknown>;
+
+type Migration = (data: RawData) => RawData;
+
+export const isRecord = (value: unknown): value is RawData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The object entries of a stored list; undefined when the key is absent or not a list
+const recordsOf = (value: unknown): RawData[] | undefined =>
+  Array.isArray(value) ? value.filter(isRecord) : undefined;
+
+const isTransaction = (value: RawData): value is RawData & Transaction =>
+  typeof value.id === 'string' && typeof value.category === 'string' && typeof value.type === 'string';
+
+const hasCheckedInHoldings = (value: RawData): value is RawData & Account =>
+  value.type === AccountType.INVESTMENT &&
+  typeof value.lastCheckIn === 'string' &&
+  Array.isArray(value.holdings) && value.holdings.length > 0;
+
+/**
+ * MIGRATIONS[n] upgrades data from version n to n + 1. Each step only touches the
+ * keys it knows about, so partial data (e.g. a single missing key) passes through.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // 1 -> 2: fill fields that older builds did not write
+  1: data => ({
+    ...data,
+    accounts: recordsOf(data.accounts)?.map(a => ({
+      ...a,
+      balance: Number(a.balance) || 0,
+      ...(a.type === AccountType.INVESTMENT && { holdings: a.holdings ?? [] }),
+    })),
+    transactions: recordsOf(data.transactions)?.map(tx => ({
+      ...tx,
+      tags: Array.isArray(tx.tags) ? tx.tags : [],
+      note: tx.note ?? '',
+      status: tx.status ?? TransactionStatus.COMPLETED,
+      isAmortized: !!tx.isAmortized,
+      amortizationMonths: tx.amortizationMonths ?? 0,
+    })),
+    recurringRules: recordsOf(data.recurringRules)?.map(r => ({
+      ...r,
+      type: r.type ?? TransactionType.EXPENSE,
+      startDate: r.startDate ?? r.nextDueDate,
+    })),
+  }),
+  // 2 -> 3: budgets were added; backups from before have none
+  2: data => ({
+    ...data,
+    budgets: data.budgets ?? [],
+  }),
+  // 3 -> 4: net worth snapshots were added; the first load rebuilds them
+  3: data => ({
+    ...data,
+    netWorthSnapshots: data.netWorthSnapshots ?? [],
+  }),
+  // 4 -> 5: saved transaction filters were added
+  4: data => ({
+    ...data,
+    filterPresets: data.filterPresets ?? [],
+  }),
+  // 5 -> 6: categories became user data; seed the built-ins plus custom ones in use
+  5: data => ({
+    ...data,
+    categories: data.categories ?? getDefaultCategories(recordsOf(data.transactions)?.filter(isTransaction)),
+  }),
+  // 6 -> 7: check-ins keep a history; start it from each account's latest check-in
+  6: data => ({
+    ...data,
+    holdingSnapshots: data.holdingSnapshots ?? (recordsOf(data.accounts) ?? [])
+      .filter(hasCheckedInHoldings)
+      .map(a => createHoldingSnapshot(a, new Date(a.lastCheckIn!))),
+  }),
+};
+
+export const migrate = (data: RawData, fromVersion: number): RawData => {
+  let migrated = data;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated;
+};
+
+// Migrations map absent keys to undefined; drop them so defaults apply
+export const withoutEmptyKeys = (data: RawData): RawData =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+/**
+ * Keeps the keys of migrated data that have the expected shape: collections must
+ * be lists of objects and settings strings. Anything else is dropped so the
+ * defaults apply, as they do for a key that was never saved.
+ */
+export const toPersistedData = (data: RawData): Partial<PersistedData> => {
+  const persisted: Partial<Record<PersistedKey, unknown>> = {};
+  COLLECTION_KEYS.forEach(key => {
+    if (Array.isArray(data[key])) persisted[key] = recordsOf(data[key]);
+  });
+  SETTING_KEYS.forEach(key => {
+    if (typeof data[key] === 'string') persisted[key] = data[key];
+  });
+  return persisted as Partial<PersistedData>;
+};
+
+export const getStoredVersion = (userId: string): number =>
+  parseInt(localStorage.getItem(getStorageKey(userId, 'schemaVersion')) || '', 10) || LEGACY_VERSION;
+
+const readKey = (userId: string, key: PersistedKey): unknown => {
+  const raw = localStorage.getItem(getStorageKey(userId, key));
+  if (raw === null) return undefined;
+  if (STRING_KEYS.includes(key)) return raw;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    // Keep the unreadable value aside instead of letting the next save overwrite it
+    console.error(`Corrupt ${key} data, falling back to defaults:`, error);
+    localStorage.setItem(getStorageKey(userId, `${key}_corrupt`), raw);
+    return undefined;
+  }
+};
+
+export const hasStoredData = (userId: string) =>
+  PERSISTED_KEYS.some(key => localStorage.getItem(getStorageKey(userId, key)) !== null);
+
+/**
+ * Reads and migrates the user's localStorage data. Keys that were never saved
+ * are left out so callers can tell a new user from an empty ledger.
+ */
+export const loadStoredData = async (userId: string, cipher?: DataCipher): Promise<Partial<PersistedData>> => {
+  const stored: RawData = {};
+  for (const key of PERSISTED_KEYS) {
+    const value = readKey(userId, key);
+    if (value === undefined) continue;
+    stored[key] = cipher && COLLECTION_KEYS.includes(key as CollectionKey) ? await cipher.decrypt(value) : value;
+  }
+
+  const version = getStoredVersion(userId);
+  if (version > SCHEMA_VERSION) {
+    console.warn(`Data was saved by a newer version (schema ${version}); loading without migration.`);
+  }
+  const migrated = withoutEmptyKeys(version < SCHEMA_VERSION ? migrate(stored, version) : stored);
+
+  // Write the upgrade back once; keys that were never saved stay absent
+  const data = toPersistedData(migrated);
+  if (version < SCHEMA_VERSION && Object.keys(stored).length > 0) await saveStoredData(userId, data, cipher);
+  return data;
+};
+
+export const saveStoredData = async (userId: string, data: Partial<PersistedData>, cipher?: DataCipher) => {
+  // Encrypt everything first so the keys are written together
+  const values: [PersistedKey, string][] = [];
+  for (const key of PERSISTED_KEYS) {
+    const value = data[key];
+    if (value === undefined) continue;
+    if (STRING_KEYS.includes(key)) values.push([key, String(value)]);
+    else values.push([key, JSON.stringify(cipher ? await cipher.encrypt(value) : value)]);
+  }
+  values.forEach(([key, value]) => localStorage.setItem(getStorageKey(userId, key), value));
+  localStorage.setItem(getStorageKey(userId, 'schemaVersion'), String(SCHEMA_VERSION));
+};
+
+export const clearStoredData = (userId: string) => {
+  PERSISTED_KEYS.forEach(key => localStorage.removeItem(getStorageKey(userId, key)));
+  localStorage.removeItem(getStorageKey(userId, 'schemaVersion'));
+};
+
+// One record of a collection, e.g. an Account for 'accounts'
+export type CollectionRecord<K extends CollectionKey = CollectionKey> = PersistedData[K][number];
+
+// Exchange rates have no id; a day and pair identify them
+export const getRecordKey = <K extends CollectionKey>(_collection: K, record: CollectionRecord<K>): string => {
+  const r: CollectionRecord = record;
+  return 'id' in r ? r.id : `${r.date}|${r.from}|${r.to}`;
+};
+
+const recordsIn = <K extends CollectionKey>(data: Partial<PersistedData>, collection: K): CollectionRecord<K>[] =>
+  data[collection] ?? [];
+
+const setCollection = <K extends CollectionKey>(data: Partial<PersistedData>, collection: K, records: CollectionRecord<K>[]) => {
+  (data as Partial<Record<K, CollectionRecord<K>[]>>)[collection] = records;
+};
+
+const setUpserts = <K extends CollectionKey>(changes: ChangeSet, collection: K, records: CollectionRecord<K>[]) => {
+  (changes.upserts as Partial<Record<K, CollectionRecord<K>[]>>)[collection] = records;
+};
+
+const setSetting = <K extends SettingKey>(changes: ChangeSet, key: K, value: PersistedData[K]) => {
+  changes.settings[key] = value;
+};
+
+/**
+ * What changed between two snapshots. State updates are immutable, so a record
+ * whose object identity is unchanged is skipped without comparing contents.
+ */
+export const diffPersistedData = (previous: PersistedData, next: PersistedData): ChangeSet => {
+  const changes: ChangeSet = { upserts: {}, deletes: {}, settings: {} };
+
+  COLLECTION_KEYS.forEach(collection => {
+    if (previous[collection] === next[collection]) return;
+    const before = new Map<string, CollectionRecord>(recordsIn(previous, collection).map(r => [getRecordKey(collection, r), r] as const));
+    const after = new Set<string>();
+
+    const upserts = recordsIn(next, collection).filter(r => {
+      const key = getRecordKey(collection, r);
+      after.add(key);
+      return before.get(key) !== r;
+    });
+    const deletes = [...before.keys()].filter(key => !after.has(key));
+
+    if (upserts.length) setUpserts(changes, collection, upserts);
+    if (deletes.length) changes.deletes[collection] = deletes;
+  });
+
+  SETTING_KEYS.forEach(key => {
+    if (previous[key] !== next[key]) setSetting(changes, key, next[key]);
+  });
+  return changes;
+};
+
+export const isEmptyChangeSet = (changes: ChangeSet) =>
+  Object.keys(changes.upserts).length === 0 &&
+  Object.keys(changes.deletes).length === 0 &&
+  Object.keys(changes.settings).length === 0;
+
+// Applies a change set to a snapshot, as the localStorage repository does in memory
+export const applyChangeSet = (data: Partial<PersistedData>, changes: ChangeSet): Partial<PersistedData> => {
+  const next: Partial<PersistedData> = { ...data, ...changes.settings };
+  const apply = <K extends CollectionKey>(collection: K) => {
+    const upserts: CollectionRecord<K>[] | undefined = changes.upserts[collection];
+    const deletes = changes.deletes[collection];
+    if (!upserts && !deletes) return;
+
+    const records = new Map(recordsIn(data, collection).map(r => [getRecordKey(collection, r), r] as const));
+    deletes?.forEach(key => records.delete(key));
+    upserts?.forEach(r => records.set(getRecordKey(collection, r), r));
+    setCollection(next, collection, Array.from(records.values()));
+  };
+  COLLECTION_KEYS.forEach(apply);
+  return next;
+};
@@ -0,0 +1,335 @@
+import { Currency } from "../types";
+import {
+  COLLECTION_KEYS,
+  ChangeSet,
+  CollectionKey,
+  CollectionRecord,
+  DataCipher,
+  PersistedData,
+  SETTING_KEYS,
+  SettingKey,
+  getRecordKey,
+  getStorageKey
+} from "./storageService";
+import { isEncryptedValue } from "./encryptionService";
+
+/**
+ * Client side of the sync protocol (see server/sync-server.js). Local edits are
+ * queued as pending changes, each remembering the server version and the record
+ * it was based on. A sync pulls what other devices wrote, merges it with any
+ * pending edit to the same record, then pushes the queue. The server refuses
+ * pushes based on a stale version; those are merged and retried. The queue
+ * holds full records, so it is stored encrypted like the data itself.
+ */
+
+export const SYNC_URL = process.env.SYNC_URL || '';
+export const SYNC_TOKEN = process.env.SYNC_TOKEN || '';
+
+// Push/pull rounds per sync before giving up on a record that keeps conflicting
+const MAX_ROUNDS = 3;
+
+export type SyncCollection = CollectionKey | 'settings';
+
+export type SyncStatus = 'local' | 'offline' | 'pending' | 'syncing' | 'synced' | 'error';
+
+export interface RemoteChange {
+  collection: SyncCollection;
+  key: string;
+  record: unknown | null; // Null for deletions
+  version: number;
+  updatedAt: string | null;
+}
+
+export interface PendingChange {
+  collection: SyncCollection;
+  key: string;
+  record: unknown | null;
+  base: unknown | null; // Record as of baseVersion; null if it did not exist
+  baseVersion: number; // 0 when the server has never seen the record
+  updatedAt: string;
+}
+
+export interface SyncState {
+  deviceId: string;
+  initialized: boolean; // Existing local data has been queued for the first push
+  lastSeq: number; // Highest server version pulled
+  versions: Record<string, number>; // `collection|key` -> server version of our copy
+  pending: PendingChange[];
+  lastSyncedAt?: string;
+}
+
+export interface PushResult {
+  seq: number;
+  accepted: { collection: SyncCollection; key: string; version: number }[];
+  conflicts: RemoteChange[];
+}
+
+export interface SyncTransport {
+  pull: (since: number) => Promise<{ seq: number; changes: RemoteChange[] }>;
+  push: (deviceId: string, changes: Omit<PendingChange, 'base'>[]) => Promise<PushResult>;
+}
+
+// Numeric fields both devices adjust by deltas; merged by adding both deltas
+const ADDITIVE_FIELDS: Partial<Record<SyncCollection, string[]>> = {
+  accounts: ['balance'],
+};
+
+// Values a setting from another device may take; anything else is ignored
+const SETTING_VALUES: { [K in SettingKey]: readonly PersistedData[K][] } = {
+  baseCurrency: Object.values(Currency),
+  language: ['en', 'zh'],
+};
+
+const changeId = (collection: SyncCollection, key: string) => `${collection}|${key}`;
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const generateDeviceId = () => Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
+
+const isSyncState = (value: unknown): value is SyncState =>
+  typeof value === 'object' && value !== null &&
+  'deviceId' in value && typeof value.deviceId === 'string' &&
+  'initialized' in value && typeof value.initialized === 'boolean' &&
+  'lastSeq' in value && typeof value.lastSeq === 'number' &&
+  'versions' in value && typeof value.versions === 'object' && value.versions !== null &&
+  'pending' in value && Array.isArray(value.pending);
+
+// Latest save per user; an older save that finishes encrypting later is dropped
+const saveSequence = new Map<string, number>();
+
+export const saveSyncState = async (userId: string, state: SyncState, cipher: DataCipher) => {
+  const sequence = (saveSequence.get(userId) ?? 0) + 1;
+  saveSequence.set(userId, sequence);
+  const sealed = await cipher.encrypt(state);
+  if (saveSequence.get(userId) === sequence) {
+    localStorage.setItem(getStorageKey(userId, 'sync'), JSON.stringify(sealed));
+  }
+};
+
+// A state saved in plaintext by an older build is read once and rewritten encrypted
+export const loadSyncState = async (userId: string, cipher: DataCipher): Promise<SyncState> => {
+  const saved = localStorage.getItem(getStorageKey(userId, 'sync'));
+  if (saved) {
+    try {
+      const value = JSON.parse(saved);
+      const state = await cipher.decrypt(value);
+      if (!isSyncState(state)) throw new Error('Unexpected sync state');
+      if (!isEncryptedValue(value)) await saveSyncState(userId, state, cipher);
+      return state;
+    } catch (error) {
+      console.error("Corrupt sync state, starting over:", error);
+    }
+  }
+  return { deviceId: generateDeviceId(), initialized: false, lastSeq: 0, versions: {}, pending: [] };
+};
+
+const isSettingKey = (key: string): key is SettingKey => SETTING_KEYS.some(k => k === key);
+
+const isSettingValue = <K extends SettingKey>(key: K, value: unknown): value is PersistedData[K] =>
+  SETTING_VALUES[key].some(v => v === value);
+
+// A remote record is accepted for a collection only as an object stored under its own key
+const isCollectionRecord = <K extends CollectionKey>(collection: K, key: string, record: unknown): record is CollectionRecord<K> => {
+  if (typeof record !== 'object' || record === null) return false;
+  const fields: Record<string, unknown> = { ...record };
+  return (collection === 'exchangeRates' ? `${fields.date}|${fields.from}|${fields.to}` : fields.id) === key;
+};
+
+const findRecord = <K extends CollectionKey>(data: PersistedData, collection: K, key: string): CollectionRecord<K> | null => {
+  const records: CollectionRecord<K>[] = data[collection];
+  return records.find(r => getRecordKey(collection, r) === key) ?? null;
+};
+
+const getLocalRecord = (data: PersistedData, collection: SyncCollection, key: string): unknown | null => {
+  if (collection === 'settings') return isSettingKey(key) ? data[key] : null;
+  return findRecord(data, collection, key);
+};
+
+const setRecord = <K extends CollectionKey>(data: PersistedData, collection: K, key: string, record: unknown | null): PersistedData => {
+  if (record !== null && !isCollectionRecord(collection, key, record)) {
+    console.warn(`Ignoring malformed ${collection} record ${key} from sync`);
+    return data;
+  }
+  const records: CollectionRecord<K>[] = data[collection];
+  const others = records.filter(r => getRecordKey(collection, r) !== key);
+  return { ...data, [collection]: record === null ? others : [...others, record] };
+};
+
+const setLocalRecord = (data: PersistedData, collection: SyncCollection, key: string, record: unknown | null): PersistedData => {
+  if (collection !== 'settings') return setRecord(data, collection, key, record);
+  // Settings cannot be deleted, and a value this build does not know is ignored
+  if (record === null || !isSettingKey(key) || !isSettingValue(key, record)) return data;
+  return { ...data, [key]: record };
+};
+
+/**
+ * Adds local edits to the queue. A record edited again before it was pushed
+ * keeps its original base, so the eventual merge sees every local change.
+ */
+export const queueChanges = (state: SyncState, changes: ChangeSet, previous: PersistedData, now = new Date()): SyncState => {
+  const pending = new Map(state.pending.map(p => [changeId(p.collection, p.key), p]));
+  const queue = (collection: SyncCollection, key: string, record: unknown | null) => {
+    const id = changeId(collection, key);
+    const existing = pending.get(id);
+    pending.set(id, existing
+      ? { ...existing, record, updatedAt: now.toISOString() }
+      : { collection, key, record, base: getLocalRecord(previous, collection, key), baseVersion: state.versions[id] ?? 0, updatedAt: now.toISOString() });
+  };
+
+  const queueCollection = <K extends CollectionKey>(collection: K) => {
+    const upserts: CollectionRecord<K>[] | undefined = changes.upserts[collection];
+    upserts?.forEach(r => queue(collection, getRecordKey(collection, r), r));
+    changes.deletes[collection]?.forEach(key => queue(collection, key, null));
+  };
+  COLLECTION_KEYS.forEach(queueCollection);
+  Object.entries(changes.settings).forEach(([key, value]) => queue('settings', key, value));
+
+  return { ...state, pending: Array.from(pending.values()) };
+};
+
+// Everything on this device becomes a pending creation the first time it syncs
+const queueExistingData = (state: SyncState, data: PersistedData, now: Date): SyncState => {
+  const previous = COLLECTION_KEYS.reduce<PersistedData>((empty, c) => ({ ...empty, [c]: [] }), data);
+  const changes: ChangeSet = {
+    upserts: Object.fromEntries(COLLECTION_KEYS.map(c => [c, data[c]])),
+    deletes: {},
+    settings: Object.fromEntries(SETTING_KEYS.map(k => [k, data[k]])),
+  };
+  return { ...queueChanges(state, changes, previous, now), initialized: true };
+};
+
+/**
+ * Three-way merge of a local and a remote edit to the same record.
+ * - No common base (both devices created it): the server copy wins.
+ * - Delete against edit: the later change wins.
+ * - Otherwise field by field: a field changed on one side only takes that side;
+ *   changed on both, the later edit wins. Additive fields such as account
+ *   balances keep both deltas.
+ */
+export const mergeRecord = (
+  collection: SyncCollection,
+  base: unknown | null,
+  local: PendingChange,
+  remote: RemoteChange
+): unknown | null => {
+  if (base === null) return remote.record ?? local.record;
+  const localIsNewer = !remote.updatedAt || local.updatedAt > remote.updatedAt;
+  if (local.record === null || remote.record === null || typeof base !== 'object') {
+    return localIsNewer ? local.record : remote.record;
+  }
+
+  const b = base as Record<string, unknown>;
+  const l = local.record as Record<string, unknown>;
+  const r = remote.record as Record<string, unknown>;
+  const merged: Record<string, unknown> = {};
+  const additive = ADDITIVE_FIELDS[collection] || [];
+
+  new Set([...Object.keys(b), ...Object.keys(l), ...Object.keys(r)]).forEach(field => {
+    if (additive.includes(field) && typeof b[field] === 'number' && typeof l[field] === 'number' && typeof r[field] === 'number') {
+      merged[field] = (r[field] as number) + (l[field] as number) - (b[field] as number);
+    } else if (isEqual(l[field], b[field])) {
+      merged[field] = r[field];
+    } else if (isEqual(r[field], b[field])) {
+      merged[field] = l[field];
+    } else {
+      merged[field] = localIsNewer ? l[field] : r[field];
+    }
+    if (merged[field] === undefined) delete merged[field];
+  });
+  return merged;
+};
+
+/**
+ * Applies remote changes. A change to a record with a pending local edit is
+ * merged into that edit, which is then rebased onto the remote version.
+ */
+const applyRemoteChanges = (
+  state: SyncState,
+  data: PersistedData,
+  changes: RemoteChange[],
+  isConflict = false
+): { state: SyncState; data: PersistedData } => {
+  const versions = { ...state.versions };
+  const pending = new Map(state.pending.map(p => [changeId(p.collection, p.key), p]));
+  let next = data;
+
+  changes.forEach(change => {
+    const id = changeId(change.collection, change.key);
+    // Our own write, or already seen. Conflicts always apply: the server may even be behind us after a reset
+    if (!isConflict && (versions[id] ?? 0) >= change.version) return;
+    versions[id] = change.version;
+
+    const local = pending.get(id);
+    if (!local) {
+      next = setLocalRecord(next, change.collection, change.key, change.record);
+      return;
+    }
+    const merged = mergeRecord(change.collection, local.base, local, change);
+    next = setLocalRecord(next, change.collection, change.key, merged);
+    if (isEqual(merged, change.record)) pending.delete(id); // Nothing left to push
+    else pending.set(id, { ...local, record: merged, base: change.record, baseVersion: change.version });
+  });
+
+  return { state: { ...state, versions, pending: Array.from(pending.values()) }, data: next };
+};
+
+/**
+ * One sync round trip: pull, merge, push, and retry conflicts. Returns the new
+ * sync state and the local data with remote changes applied.
+ */
+export const syncNow = async (
+  state: SyncState,
+  data: PersistedData,
+  transport: SyncTransport,
+  now = new Date()
+): Promise<{ state: SyncState; data: PersistedData }> => {
+  let current = state.initialized ? { state, data } : { state: queueExistingData(state, data, now), data };
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const pulled = await transport.pull(current.state.lastSeq);
+    current = applyRemoteChanges(current.state, current.data, pulled.changes);
+    current.state = { ...current.state, lastSeq: Math.max(current.state.lastSeq, pulled.seq) };
+
+    if (current.state.pending.length === 0) break;
+    const result = await transport.push(
+      current.state.deviceId,
+      current.state.pending.map(({ base, ...change }) => change)
+    );
+
+    const accepted = new Set(result.accepted.map(a => changeId(a.collection, a.key)));
+    const versions = { ...current.state.versions };
+    result.accepted.forEach(a => { versions[changeId(a.collection, a.key)] = a.version; });
+    current.state = {
+      ...current.state,
+      versions,
+      pending: current.state.pending.filter(p => !accepted.has(changeId(p.collection, p.key))),
+    };
+
+    if (result.conflicts.length === 0) break;
+    // Conflicts come with the server copy; merge now, push again next round
+    current = applyRemoteChanges(current.state, current.data, result.conflicts, true);
+  }
+
+  return { state: { ...current.state, lastSyncedAt: now.toISOString() }, data: current.data };
+};
+
+export const createHttpTransport = (baseUrl: string, userId: string, token: string = SYNC_TOKEN): SyncTransport => {
+  const root = `${baseUrl.replace(/\/$/, '')}/users/${encodeURIComponent(userId)}`;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const request = async (url: string, init?: RequestInit) => {
+    const response = await fetch(url, { ...init, headers });
+    if (!response.ok) throw new Error(`Sync server error (${response.status})`);
+    return response.json();
+  };
+
+  return {
+    pull: (since) => request(`${root}/changes?since=${since}`),
+    push: (deviceId, changes) => request(`${root}/push`, { method: 'POST', body: JSON.stringify({ deviceId, changes }) }),
+  };
+};
+
+// fetch rejects with a TypeError when the network is unreachable
+export const isOfflineError = (error: unknown) =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) || error instanceof TypeError;
@@ -0,0 +1,147 @@
+import { Currency, ExchangeRate, Transaction, TransactionType } from "../types";
+import { TRANSFER_FEE_CATEGORY, convertAmount, getTransferFee } from "./ledgerService";
+import { toMonthKey } from "./amortizationService";
+import { getSplitLines, getTransactionTags, mapSplitLines } from "./splitService";
+
+/**
+ * Tags across all transactions: usage, totals and bulk edits. Tags are plain
+ * strings on each transaction, so renaming, merging and deleting rewrite the
+ * transactions that carry them. Tags that differ only in case or surrounding
+ * spaces are treated as the same tag when typed into the form. A tag on a line
+ * of a split transaction only covers that line's amount.
+ */
+
+export interface TagStats {
+  tag: string;
+  count: number;
+  spent: number; // Expenses and transfer fees, in baseCurrency
+  received: number; // Income, in baseCurrency
+  firstUsed: string;
+  lastUsed: string;
+}
+
+export interface TagReport extends TagStats {
+  categories: { category: string; amount: number }[]; // Spending by category, largest first
+  months: { month: string; spent: number; received: number }[];
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Splits the form's comma-separated text, trimming and dropping repeats
+export const parseTags = (text: string, known: string[] = []): string[] => {
+  const canonical = new Map(known.map(tag => [tag.toLowerCase(), tag]));
+  const tags: string[] = [];
+  text.split(/[,，]/).map(tag => tag.trim()).filter(Boolean).forEach(tag => {
+    // Reuse the spelling of a tag that already exists
+    const name = canonical.get(tag.toLowerCase()) ?? tag;
+    if (!tags.some(t => t.toLowerCase() === name.toLowerCase())) tags.push(name);
+  });
+  return tags;
+};
+
+// Known tags starting with the part after the last comma, minus those already entered
+export const getTagSuggestions = (text: string, known: string[], limit = 6): string[] => {
+  const parts = text.split(/[,，]/);
+  const current = parts[parts.length - 1].trim().toLowerCase();
+  const entered = new Set(parts.slice(0, -1).map(tag => tag.trim().toLowerCase()));
+  return known
+    .filter(tag => !entered.has(tag.toLowerCase()) && tag.toLowerCase() !== current && tag.toLowerCase().startsWith(current))
+    .slice(0, limit);
+};
+
+// Replaces the part after the last comma with the chosen tag
+export const completeTag = (text: string, tag: string): string => {
+  const parts = text.split(/[,，]/).map(part => part.trim());
+  parts[parts.length - 1] = tag;
+  return `${parts.filter(Boolean).join(', ')}, `;
+};
+
+// Pending amounts count too: a trip's budget includes what hasn't settled yet
+export const getTagStats = (transactions: Transaction[], baseCurrency: Currency, rates: ExchangeRate[] = []): TagStats[] => {
+  const stats = new Map<string, TagStats>();
+  transactions.forEach(tx => {
+    const toBase = (amount: number) => convertAmount(amount, tx.currency, baseCurrency, rates, tx.date);
+    // A split transaction counts once per tag, with the lines that carry it
+    const amounts = new Map<string, { spent: number; received: number }>();
+    getSplitLines(tx).forEach(line => {
+      const spent = line.type === TransactionType.EXPENSE ? toBase(line.amount) : toBase(getTransferFee(line));
+      const received = line.type === TransactionType.INCOME ? toBase(line.amount) : 0;
+      line.tags.forEach(tag => {
+        const a = amounts.get(tag) || { spent: 0, received: 0 };
+        amounts.set(tag, { spent: a.spent + spent, received: a.received + received });
+      });
+    });
+    amounts.forEach(({ spent, received }, tag) => {
+      const s = stats.get(tag) || { tag, count: 0, spent: 0, received: 0, firstUsed: tx.date, lastUsed: tx.date };
+      s.count++;
+      s.spent += spent;
+      s.received += received;
+      if (tx.date < s.firstUsed) s.firstUsed = tx.date;
+      if (tx.date > s.lastUsed) s.lastUsed = tx.date;
+      stats.set(tag, s);
+    });
+  });
+  return Array.from(stats.values())
+    .map(s => ({ ...s, spent: round(s.spent), received: round(s.received) }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+export const getTagReport = (
+  transactions: Transaction[],
+  tag: string,
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = []
+): TagReport | null => {
+  const tagged = transactions.filter(tx => getTransactionTags(tx).includes(tag));
+  const stats = getTagStats(tagged, baseCurrency, rates).find(s => s.tag === tag);
+  if (!stats) return null;
+
+  const categories: Record<string, number> = {};
+  const months: Record<string, { month: string; spent: number; received: number }> = {};
+  tagged.flatMap(getSplitLines).filter(tx => tx.tags.includes(tag)).forEach(tx => {
+    const toBase = (amount: number) => convertAmount(amount, tx.currency, baseCurrency, rates, tx.date);
+    const month = toMonthKey(tx.date);
+    const row = months[month] || (months[month] = { month, spent: 0, received: 0 });
+    if (tx.type === TransactionType.INCOME) {
+      row.received += toBase(tx.amount);
+      return;
+    }
+    const spent = tx.type === TransactionType.EXPENSE ? toBase(tx.amount) : toBase(getTransferFee(tx));
+    if (spent === 0) return;
+    const category = tx.type === TransactionType.EXPENSE ? tx.category : TRANSFER_FEE_CATEGORY;
+    categories[category] = (categories[category] || 0) + spent;
+    row.spent += spent;
+  });
+
+  return {
+    ...stats,
+    categories: Object.entries(categories)
+      .map(([category, amount]) => ({ category, amount: round(amount) }))
+      .sort((a, b) => b.amount - a.amount),
+    months: Object.values(months)
+      .map(m => ({ month: m.month, spent: round(m.spent), received: round(m.received) }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+  };
+};
+
+// Also used for the tags stored in saved filters
+export const replaceTags = (tags: string[], from: string[], to: string | null): string[] => {
+  if (!tags.some(tag => from.includes(tag))) return tags;
+  const next = tags.flatMap(tag => from.includes(tag) ? (to ? [to] : []) : [tag]);
+  return Array.from(new Set(next));
+};
+
+/**
+ * Renames `from` tags to `to` on every transaction and split line; with several
+ * sources this merges them. A null target deletes the tags. Untouched
+ * transactions keep their identity so only the changed ones are saved.
+ */
+export const retagTransactions = (transactions: Transaction[], from: string[], to: string | null): Transaction[] =>
+  transactions.map(tx => {
+    const tags = replaceTags(tx.tags, from, to);
+    const next = mapSplitLines(tx, line => {
+      const lineTags = replaceTags(line.tags, from, to);
+      return lineTags === line.tags ? line : { ...line, tags: lineTags };
+    });
+    return tags === tx.tags ? next : { ...next, tags };
+  });
@@ -0,0 +1,144 @@
+import { Account, Currency, ExchangeRate, Transaction, TransactionStatus, TransactionType } from "../types";
+import { convertAmount, getTransferFee } from "./ledgerService";
+import { toDateKey } from "./exchangeRateService";
+import { getTransactionCategories, getTransactionTags } from "./splitService";
+
+/**
+ * Query bar of the Transactions tab. A filter narrows the list, a sort orders
+ * it, and the totals of whatever is left are shown in baseCurrency at the rate
+ * on each transaction's date. Empty lists and blank fields match everything.
+ */
+
+export interface TransactionFilter {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  types: TransactionType[];
+  categories: string[];
+  tags: string[]; // Any of them
+  accountIds: string[]; // Either side of a transfer
+  statuses: TransactionStatus[];
+  currencies: Currency[];
+  minAmount?: number; // In the transaction's own currency
+  maxAmount?: number;
+  text: string; // Searched in notes, case-insensitive
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filter: TransactionFilter;
+}
+
+export type SortKey = 'date' | 'category' | 'note' | 'account' | 'amount';
+
+export interface TransactionSort {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+export interface FilteredTotals {
+  count: number;
+  income: number;
+  expense: number; // Includes transfer fees
+  net: number;
+}
+
+export const EMPTY_FILTER: TransactionFilter = {
+  from: '',
+  to: '',
+  types: [],
+  categories: [],
+  tags: [],
+  accountIds: [],
+  statuses: [],
+  currencies: [],
+  text: '',
+};
+
+export const DEFAULT_SORT: TransactionSort = { key: 'date', direction: 'desc' };
+
+// Number of conditions set, for the badge on the Filter button
+export const countActiveFilters = (filter: TransactionFilter): number =>
+  [
+    filter.from || filter.to,
+    filter.types.length,
+    filter.categories.length,
+    filter.tags.length,
+    filter.accountIds.length,
+    filter.statuses.length,
+    filter.currencies.length,
+    filter.minAmount !== undefined || filter.maxAmount !== undefined,
+    filter.text.trim(),
+  ].filter(Boolean).length;
+
+const includesOrEmpty = <T,>(list: T[], value: T) => list.length === 0 || list.includes(value);
+
+export const matchesFilter = (tx: Transaction, filter: TransactionFilter): boolean => {
+  const day = toDateKey(tx.date);
+  const text = filter.text.trim().toLowerCase();
+  return (!filter.from || day >= filter.from) &&
+    (!filter.to || day <= filter.to) &&
+    includesOrEmpty(filter.types, tx.type) &&
+    (filter.categories.length === 0 || getTransactionCategories(tx).some(category => filter.categories.includes(category))) &&
+    (filter.tags.length === 0 || getTransactionTags(tx).some(tag => filter.tags.includes(tag))) &&
+    (filter.accountIds.length === 0 || filter.accountIds.includes(tx.accountId) ||
+      (!!tx.toAccountId && filter.accountIds.includes(tx.toAccountId))) &&
+    includesOrEmpty(filter.statuses, tx.status) &&
+    includesOrEmpty(filter.currencies, tx.currency) &&
+    (filter.minAmount === undefined || tx.amount >= filter.minAmount) &&
+    (filter.maxAmount === undefined || tx.amount <= filter.maxAmount) &&
+    (!text || [tx.note, ...(tx.splits ?? []).map(line => line.note)].some(note => note.toLowerCase().includes(text)));
+};
+
+/**
+ * Filters and sorts in one pass over the list. Amounts sort by their value in
+ * baseCurrency so mixed currencies order sensibly; ties keep newest first.
+ */
+export const queryTransactions = (
+  transactions: Transaction[],
+  accounts: Account[],
+  filter: TransactionFilter,
+  sort: TransactionSort,
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = []
+): Transaction[] => {
+  const accountNames = new Map(accounts.map(a => [a.id, a.name]));
+  const sortValue = (tx: Transaction): string | number => {
+    switch (sort.key) {
+      case 'date': return tx.date;
+      case 'category': return tx.category.toLowerCase();
+      case 'note': return tx.note.toLowerCase();
+      case 'account': return (accountNames.get(tx.accountId) || '').toLowerCase();
+      case 'amount': return convertAmount(tx.amount, tx.currency, baseCurrency, rates, tx.date);
+    }
+  };
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return transactions
+    .filter(tx => matchesFilter(tx, filter))
+    .map(tx => ({ tx, value: sortValue(tx) }))
+    .sort((a, b) => {
+      const order = typeof a.value === 'number' && typeof b.value === 'number'
+        ? a.value - b.value
+        : String(a.value).localeCompare(String(b.value));
+      return sign * order || b.tx.date.localeCompare(a.tx.date);
+    })
+    .map(({ tx }) => tx);
+};
+
+// Full amounts, not amortized slices: this is a sum of the listed rows
+export const getFilteredTotals = (
+  transactions: Transaction[],
+  baseCurrency: Currency,
+  rates: ExchangeRate[] = []
+): FilteredTotals => {
+  let income = 0;
+  let expense = 0;
+  transactions.forEach(tx => {
+    const toBase = (amount: number) => convertAmount(amount, tx.currency, baseCurrency, rates, tx.date);
+    if (tx.type === TransactionType.INCOME) income += toBase(tx.amount);
+    else if (tx.type === TransactionType.EXPENSE) expense += toBase(tx.amount);
+    else expense += toBase(getTransferFee(tx));
+  });
+  const round = (amount: number) => Math.round(amount * 100) / 100;
+  return { count: transactions.length, income: round(income), expense: round(expense), net: round(income - expense) };
+};
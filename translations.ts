@@ -9,6 +9,7 @@ export const TRANSLATIONS = {
       dashboard: 'Dashboard',
       transactions: 'Transactions',
       accounts: 'Accounts',
+      reports: 'Reports',
       advice: 'AI Advisor',
     },
     auth: {
@@ -24,10 +25,36 @@ export const TRANSLATIONS = {
       switchLogin: 'Already have an account? Log In',
       switchRegister: 'New here? Create Account',
       logout: 'Log Out',
+      confirmPassword: 'Confirm Password',
+      passwordHint: 'At least {n} characters',
+      checking: 'Checking...',
+      sessionExpired: 'Your session has expired. Please log in again.',
+      locked: 'Your data is encrypted. Enter your password to unlock it.',
+      switchAccount: 'Use another account',
+      changePassword: 'Change Password',
+      currentPassword: 'Current Password',
+      newPassword: 'New Password',
+      passwordChanged: 'Password updated',
+      save: 'Update Password',
+      loadFailed: 'Your data could not be loaded.',
+      retry: 'Try again',
+      errors: {
+        EMAIL_TAKEN: 'An account with this email already exists',
+        INVALID_CREDENTIALS: 'Incorrect email or password',
+        WEAK_PASSWORD: 'Password is too short',
+        PASSWORD_MISMATCH: 'Passwords do not match',
+        WRONG_PASSPHRASE: 'This password cannot unlock your data',
+        DECRYPTION_FAILED: 'Your data could not be decrypted',
+        UNKNOWN: 'Something went wrong, please try again',
+      } as Record<string, string>,
     },
     sync: {
       syncing: 'Syncing...',
-      synced: 'All changes saved',
+      synced: 'All changes synced',
+      local: 'Saved on this device',
+      pending: '{n} changes waiting to sync',
+      lastSynced: 'Last synced {time}',
+      syncNow: 'Sync now',
       error: 'Sync Error',
       offline: 'Offline Mode'
     },
@@ -40,6 +67,15 @@ export const TRANSLATIONS = {
       longTermStockpile: 'Long-term Stockpile',
       active: 'Active',
       noActiveStockpile: 'No long-term purchases recorded.',
+      remaining: 'Remaining',
+      perMonth: '/ month',
+      until: 'until',
+      amortizedHint: 'Long-term purchases count only their monthly share.',
+      fxGainLoss: 'FX Gain / Loss',
+      fee: 'Fee',
+      nextDue: 'Next due',
+      everyNDays: 'Every {n} days',
+      reviewAsPending: 'Review as pending',
       recentTransactions: 'Recent Transactions',
       noTransactions: 'No transactions yet.',
       accountBalances: 'Account Balances',
@@ -65,9 +101,13 @@ export const TRANSLATIONS = {
       accountType: 'Account Type',
       accountColor: 'Color',
       initialBalance: 'Initial Balance',
+      edit: 'Edit',
+      delete: 'Delete',
+      confirmDelete: 'Delete this transaction? Account balances will be reversed.',
     },
     form: {
       newTransaction: 'New Transaction',
+      editTransaction: 'Edit Transaction',
       amount: 'Amount',
       currency: 'Currency',
       category: 'Category',
@@ -92,6 +132,362 @@ export const TRANSLATIONS = {
       statusCompleted: 'Completed',
       pendingHintIncome: 'Income earned but not yet received.',
       pendingHintExpense: 'Expense incurred but paid later (Credit/BNPL).',
+      marketRate: 'Market rate',
+      receivedAmount: 'Received',
+      fxRate: 'Bank Rate',
+      transferFee: 'Transfer Fee',
+      transferFeeHint: 'Charged to the source account and reported as an expense.',
+    },
+    rates: {
+      title: 'Exchange Rates',
+      subtitle: 'Transactions convert at the rate in effect on their date.',
+      add: 'Add',
+      pair: 'Pair',
+      rate: 'Rate',
+      source: 'Source',
+      importCsv: 'Import CSV',
+      fetchFeed: 'Fetch Latest',
+      csvHint: 'CSV columns: date, from, to, rate (e.g. 2024-03-01,USD,CNY,7.19)',
+      imported: 'Imported {n} rates.',
+      skipped: '{n} invalid rows skipped.',
+      feedError: 'Could not load the rate feed.',
+      empty: 'No dated rates yet. Built-in defaults are used.',
+    },
+    importer: {
+      open: 'Import',
+      title: 'Import Statement',
+      steps: { upload: 'Choose a file', mapping: 'Map columns', preview: 'Review and import' },
+      targetAccount: 'Import Into',
+      chooseFile: 'Choose CSV file',
+      supported: 'Alipay, WeChat Pay, bank cards, Chase and other CSV exports',
+      preset: 'Preset',
+      presetName: 'Save this mapping as…',
+      savePreset: 'Save Preset',
+      columns: {
+        counterpartyColumn: 'Counterparty',
+        categoryColumn: 'Category Column',
+        currencyColumn: 'Currency Column',
+        directionColumn: 'Income/Expense Column'
+      },
+      amountSign: 'Amount Sign',
+      signs: {
+        SIGNED: 'Negative = expense',
+        POSITIVE_IS_EXPENSE: 'Positive = expense',
+        DIRECTION_COLUMN: 'From direction column'
+      },
+      dateOrder: 'Date Format',
+      accountCurrency: 'Account currency',
+      incomeValues: 'Income Values',
+      expenseValues: 'Expense Values',
+      rowSummary: '{valid} of {total} rows recognised',
+      preview: 'Preview',
+      duplicate: 'Possible duplicate',
+      selected: '{n} selected',
+      import: 'Import',
+    },
+    exporter: {
+      open: 'Export',
+      title: 'Export Transactions',
+      subtitle: 'Download your ledger for accountants and spreadsheets.',
+      format: 'Format',
+      formatHints: {
+        CSV: 'Every field, one row per transaction. Opens in Excel and Numbers.',
+        JSON: 'Every field plus the accounts involved, with a format version.',
+        OFX: 'One statement per account for accounting software.',
+        QIF: 'For Quicken and GnuCash. Tags are exported as classes.'
+      },
+      from: 'From',
+      to: 'To',
+      allAccounts: 'All accounts',
+      download: 'Download {n} transactions',
+    },
+    backup: {
+      title: 'Backup & Restore',
+      subtitle: 'Everything in one file: accounts, transactions, rules, rates and settings.',
+      download: 'Download Backup',
+      restore: 'Restore from File',
+      schema: 'schema',
+      invalid: 'This file cannot be restored:',
+      added: 'Added',
+      changed: 'Changed',
+      removed: 'Removed',
+      unchanged: 'Same',
+      collections: {
+        accounts: 'Accounts',
+        transactions: 'Transactions',
+        recurringRules: 'Recurring Rules',
+        exchangeRates: 'Exchange Rates',
+        importPresets: 'Import Presets',
+        budgets: 'Budgets',
+        netWorthSnapshots: 'Net Worth History',
+        filterPresets: 'Saved Filters',
+        categories: 'Categories',
+        holdingSnapshots: 'Holding History'
+      },
+      settings: {
+        baseCurrency: 'Base Currency',
+        language: 'Language'
+      },
+      replaceHint: 'Restoring replaces all current data. Download a backup first if unsure.',
+      replace: 'Replace Current Data',
+      confirmRestore: 'Replace all current data with this backup?',
+      encrypt: 'Encrypt with a passphrase',
+      passphrase: 'Passphrase',
+      confirmPassphrase: 'Confirm passphrase',
+      passphraseMismatch: 'Passphrases do not match',
+      passphraseHint: 'Without the passphrase the backup cannot be restored.',
+      encryptedFile: 'This backup is encrypted. Enter its passphrase to read it.',
+      unlock: 'Decrypt',
+      wrongPassphrase: 'Wrong passphrase',
+      working: 'Working...',
+    },
+    budgets: {
+      title: 'Budgets',
+      subtitle: 'Monthly limits per expense category, tracked in your base currency.',
+      manage: 'Manage',
+      monthlyLimit: 'Monthly limit',
+      startMonth: 'From',
+      rollover: 'Roll unused budget into next month',
+      rolloverBadge: 'Rollover',
+      add: 'Add Budget',
+      cancel: 'Cancel',
+      duplicate: 'This category already has a budget',
+      empty: 'No budgets yet.',
+      confirmDelete: 'Delete this budget?',
+      spent: 'Spent',
+      of: 'of',
+      left: 'left',
+      over: 'over',
+      carried: 'incl. {amount} rolled over',
+      noBudgets: 'Set monthly limits to see how each category is tracking.',
+      warningTitle: 'Over budget',
+      warning: 'This brings {category} to {projected} of {available} {currency} this month ({over} over).',
+    },
+    reports: {
+      subtitle: 'All amounts in {currency}',
+      from: 'From',
+      to: 'To',
+      allCurrencies: 'All currencies',
+      includePending: 'Include pending',
+      spreadAmortized: 'Spread long-term purchases',
+      incomeVsExpense: 'Income vs Expenses',
+      byCategory: 'Spending by Category',
+      byTag: 'By Tag',
+      netWorth: 'Net Worth Over Time',
+      accountBalances: 'Account Balances',
+      pie: 'Pie',
+      treemap: 'Treemap',
+      noData: 'No data for this period.',
+    },
+    netWorthHistory: {
+      title: 'Net Worth History',
+      monthOverMonth: 'vs last month',
+      yearOverYear: 'vs last year',
+      ranges: { '3M': '3M', '1Y': '1Y', 'ALL': 'All' },
+      empty: 'History builds up from your transactions and daily visits.',
+    },
+    filters: {
+      searchNotes: 'Search notes...',
+      clear: 'Clear',
+      from: 'From',
+      to: 'To',
+      minAmount: 'Min Amount',
+      maxAmount: 'Max Amount',
+      type: 'Type',
+      status: 'Status',
+      tags: 'Tags',
+      presetName: 'Name this filter...',
+      savePreset: 'Save Filter',
+      confirmDeletePreset: 'Delete this saved filter?',
+      count: '{n} transactions',
+      net: 'Net',
+      noMatches: 'No transactions match these filters.',
+    },
+    tags: {
+      title: 'Tags',
+      subtitle: 'Usage and totals across all transactions, in {currency}',
+      manage: 'Tags',
+      tag: 'Tag',
+      uses: 'Uses',
+      spent: 'Spent',
+      received: 'Received',
+      lastUsed: 'Last Used',
+      rename: 'Rename',
+      merge: 'Merge',
+      mergeInto: 'Merge {n} tags into',
+      confirmMerge: 'Merge "{tags}" into "{target}" on every transaction?',
+      confirmDelete: 'Remove "{tag}" from every transaction?',
+      showTransactions: 'Show transactions',
+      empty: 'No tags yet. Add some when recording a transaction.',
+    },
+    categoryNames: {
+      Food: 'Food',
+      Transport: 'Transport',
+      Housing: 'Housing',
+      Shopping: 'Shopping',
+      Entertainment: 'Entertainment',
+      Health: 'Health',
+      Insurance: 'Insurance',
+      Family: 'Family',
+      Other: 'Other',
+      Salary: 'Salary',
+      Bonus: 'Bonus',
+      'Part-time': 'Part-time',
+      Investment: 'Investment',
+      Gift: 'Gift',
+      Fees: 'Fees',
+    },
+    categories: {
+      title: 'Categories',
+      subtitle: 'Nest, color, rename, archive or merge categories',
+      manage: 'Categories',
+      add: 'Add Category',
+      name: 'Name',
+      nameHint: 'Stored on transactions; renaming updates all of them',
+      labelEn: 'English Label',
+      labelZh: 'Chinese Label',
+      parent: 'Parent',
+      noParent: 'None (top level)',
+      color: 'Color',
+      icon: 'Icon',
+      archive: 'Archive',
+      unarchive: 'Restore',
+      archived: 'Archived',
+      showArchived: 'Show archived',
+      merge: 'Merge into...',
+      confirmMerge: 'Move everything in "{source}" to "{target}" and remove "{source}"?',
+      duplicate: 'A category with this name already exists.',
+      rollup: 'Roll up subcategories',
+      cancel: 'Cancel',
+    },
+    splits: {
+      split: 'Split',
+      removeSplit: "Don't split",
+      addLine: 'Add line',
+      lineNote: 'Note',
+      lineTags: 'Tags',
+      remaining: '{amount} left to assign',
+      over: '{amount} more than the total',
+      balanced: 'Lines add up to the total',
+      fillRemaining: 'Add to last line',
+      summary: 'Split · {n}',
+    },
+    credit: {
+      statements: 'Statements',
+      setup: 'Set up statements',
+      subtitle: 'Statement cycle and repayments, in {currency}',
+      limit: 'Credit limit',
+      closingDay: 'Statement day',
+      dueDay: 'Due day',
+      minimumRate: 'Minimum %',
+      termsHint: 'A statement closes on the statement day each month and is due on the next due day after it. Transfers into this account count as payments.',
+      owed: 'Current balance',
+      available: 'Available credit',
+      unbilled: 'Unbilled',
+      ofLimit: 'of {limit}',
+      statementBalance: 'Statement balance',
+      minimumPayment: 'Minimum payment',
+      paid: 'Paid',
+      closingDate: 'Closed',
+      dueDate: 'Due',
+      charges: 'Charges',
+      pay: 'Pay',
+      payNote: '{account} statement {date}',
+      carriedIn: '{amount} carried in from before',
+      noStatements: 'No statements yet.',
+      reminder: '{account}: {amount} due on {date}',
+      overdueReminder: '{account}: {amount} overdue since {date}',
+      status: {
+        PAID: 'Paid',
+        DUE: 'Due',
+        PARTIAL: 'Minimum paid',
+        OVERDUE: 'Overdue',
+      },
+    },
+    loan: {
+      title: 'Repayment Schedule',
+      subtitle: 'Principal and interest per monthly payment, in {currency}',
+      setup: 'Set up loan',
+      schedule: 'Repayment schedule',
+      principal: 'Principal',
+      annualRate: 'Annual rate %',
+      termYears: 'Term (years)',
+      startDate: 'Loan date',
+      methods: { EQUAL_INSTALLMENT: 'Equal installment', EQUAL_PRINCIPAL: 'Equal principal' },
+      methodHints: {
+        EQUAL_INSTALLMENT: 'The same payment every month; early payments are mostly interest.',
+        EQUAL_PRINCIPAL: 'The same principal every month; payments start higher and shrink, with less interest overall.',
+      },
+      remaining: 'Remaining',
+      paidPeriods: '{paid} of {total} payments made',
+      monthlyPayment: 'Monthly payment',
+      totalInterest: 'Total interest',
+      totalPaid: '{amount} paid in total',
+      payoffDate: 'Paid off',
+      nextPayment: 'Next payment',
+      principalPart: 'Principal',
+      interest: 'Interest',
+      payment: 'Payment',
+      balance: 'Balance',
+      date: 'Date',
+      prepayment: 'Prepayment scenario',
+      prepayAmount: 'Amount',
+      prepayAfter: 'After payment',
+      nextPeriod: 'Next payment',
+      modes: { SHORTEN_TERM: 'Shorten term', REDUCE_PAYMENT: 'Reduce payment' },
+      prepaymentHint: 'Enter an amount to see how much interest and time a lump-sum prepayment would save.',
+      interestSaved: 'Interest saved',
+      monthsSaved: 'Months saved',
+      newPayment: 'New payment',
+    },
+    investments: {
+      costBasis: 'Cost basis',
+      averageCost: 'Avg cost',
+      unrealized: 'Unrealized',
+      realized: 'Realized',
+      totalReturn: 'Total return',
+      costMethod: 'Cost basis method',
+      methods: { FIFO: 'FIFO', AVERAGE: 'Average' },
+      sides: { BUY: 'Buy', SELL: 'Sell' },
+      quantity: 'Qty',
+      price: 'Price',
+      fees: 'Fees',
+      noLots: 'No trades recorded yet.',
+      oversell: 'That sells more than was held on that date.',
+      oversold: '{quantity} units were sold beyond what was held and are left out of P&L.',
+      untracked: '{count} holding(s) without trades are not included.',
+    },
+    holdingHistory: {
+      title: 'Value history',
+      subtitle: 'One snapshot per check-in day, in {currency}',
+      show: 'Show',
+      wholeAccount: 'Whole account',
+      change: 'Change since {date}',
+      notEnough: 'Check in on another day to see a trend.',
+      empty: 'No check-ins yet. Each check-in through the investment assistant is saved here.',
+      delete: 'Delete snapshot',
+      confirmDelete: 'Delete the snapshot from {date}?',
+      cancel: 'Cancel',
+    },
+    recurring: {
+      newRule: 'New Recurring Rule',
+      editRule: 'Edit Recurring Rule',
+      name: 'Name',
+      namePlaceholder: 'e.g. Rent, Salary',
+      frequency: 'Frequency',
+      intervalDays: 'Every (days)',
+      startDate: 'Start Date',
+      endDate: 'End Date',
+      noEndDate: 'Leave empty to repeat forever.',
+      pendingHint: 'Generated entries are created as pending until you confirm them.',
+      upcoming: 'Upcoming',
+      noUpcoming: 'No upcoming occurrences.',
+      pause: 'Pause',
+      resume: 'Resume',
+      paused: 'Paused',
+      confirmDelete: 'Delete this rule? Entries it already created are kept.',
+      defaultRuleHint: 'We added this example rule for you.',
+      removeDefault: "I don't need it",
     },
     type: {
         [TransactionType.EXPENSE]: 'Expense',
@@ -107,6 +503,14 @@ export const TRANSLATIONS = {
     status: {
       [TransactionStatus.COMPLETED]: 'Completed',
       [TransactionStatus.PENDING]: 'Pending'
+    },
+    frequency: {
+      WEEKLY: 'Weekly',
+      BIWEEKLY: 'Every 2 weeks',
+      MONTHLY: 'Monthly',
+      QUARTERLY: 'Quarterly',
+      YEARLY: 'Yearly',
+      CUSTOM: 'Custom'
     }
   },
   zh: {
@@ -115,6 +519,7 @@ export const TRANSLATIONS = {
       dashboard: '总览',
       transactions: '流水',
       accounts: '账户',
+      reports: '报表',
       advice: 'AI 顾问',
     },
     auth: {
@@ -130,10 +535,36 @@ export const TRANSLATIONS = {
       switchLogin: '已有账号？去登录',
       switchRegister: '新用户？去注册',
       logout: '退出登录',
+      confirmPassword: '确认密码',
+      passwordHint: '至少 {n} 个字符',
+      checking: '验证中...',
+      sessionExpired: '登录已过期，请重新登录。',
+      locked: '数据已加密，请输入密码解锁。',
+      switchAccount: '切换账号',
+      changePassword: '修改密码',
+      currentPassword: '当前密码',
+      newPassword: '新密码',
+      passwordChanged: '密码已更新',
+      save: '更新密码',
+      loadFailed: '数据加载失败。',
+      retry: '重试',
+      errors: {
+        EMAIL_TAKEN: '该邮箱已注册',
+        INVALID_CREDENTIALS: '邮箱或密码错误',
+        WEAK_PASSWORD: '密码太短',
+        PASSWORD_MISMATCH: '两次输入的密码不一致',
+        WRONG_PASSPHRASE: '该密码无法解锁数据',
+        DECRYPTION_FAILED: '数据解密失败',
+        UNKNOWN: '出错了，请重试',
+      } as Record<string, string>,
     },
     sync: {
       syncing: '同步中...',
       synced: '云端已同步',
+      local: '已保存在本设备',
+      pending: '{n} 项更改待同步',
+      lastSynced: '上次同步 {time}',
+      syncNow: '立即同步',
       error: '同步失败',
       offline: '离线模式'
     },
@@ -146,6 +577,15 @@ export const TRANSLATIONS = {
       longTermStockpile: '长期囤货',
       active: '进行中',
       noActiveStockpile: '暂无长期囤货记录',
+      remaining: '待分摊',
+      perMonth: '/ 月',
+      until: '至',
+      amortizedHint: '长期囤货仅按月分摊计入支出',
+      fxGainLoss: '汇兑损益',
+      fee: '手续费',
+      nextDue: '下次',
+      everyNDays: '每 {n} 天',
+      reviewAsPending: '待确认入账',
       recentTransactions: '近期账单',
       noTransactions: '暂无记录',
       accountBalances: '账户余额',
@@ -171,9 +611,13 @@ export const TRANSLATIONS = {
       accountType: '账户类型',
       accountColor: '代表色',
       initialBalance: '初始余额',
+      edit: '编辑',
+      delete: '删除',
+      confirmDelete: '确认删除这笔记录？相关账户余额将被冲回。',
     },
     form: {
       newTransaction: '记一笔',
+      editTransaction: '编辑记录',
       amount: '金额',
       currency: '币种',
       category: '分类',
@@ -198,6 +642,362 @@ export const TRANSLATIONS = {
       statusCompleted: '已入账 / 已支付',
       pendingHintIncome: '已赚取但尚未到账的收入（如课时费）',
       pendingHintExpense: '信用卡或先买后付，尚未实际还款',
+      marketRate: '参考汇率',
+      receivedAmount: '实际到账',
+      fxRate: '银行汇率',
+      transferFee: '手续费',
+      transferFeeHint: '从转出账户扣除，并计入支出',
+    },
+    rates: {
+      title: '汇率',
+      subtitle: '每笔交易按其发生日期的汇率折算',
+      add: '添加',
+      pair: '币种对',
+      rate: '汇率',
+      source: '来源',
+      importCsv: '导入 CSV',
+      fetchFeed: '获取最新汇率',
+      csvHint: 'CSV 列：日期, 源币种, 目标币种, 汇率（如 2024-03-01,USD,CNY,7.19）',
+      imported: '已导入 {n} 条汇率',
+      skipped: '跳过 {n} 行无效数据',
+      feedError: '无法加载汇率数据',
+      empty: '暂无历史汇率，使用内置默认汇率',
+    },
+    importer: {
+      open: '导入',
+      title: '导入账单',
+      steps: { upload: '选择文件', mapping: '匹配列', preview: '确认导入' },
+      targetAccount: '导入到',
+      chooseFile: '选择 CSV 文件',
+      supported: '支持支付宝、微信支付、银行卡、Chase 等 CSV 账单',
+      preset: '模板',
+      presetName: '将此映射保存为…',
+      savePreset: '保存模板',
+      columns: {
+        counterpartyColumn: '交易对方',
+        categoryColumn: '分类列',
+        currencyColumn: '币种列',
+        directionColumn: '收/支列'
+      },
+      amountSign: '金额正负',
+      signs: {
+        SIGNED: '负数为支出',
+        POSITIVE_IS_EXPENSE: '正数为支出',
+        DIRECTION_COLUMN: '按收/支列判断'
+      },
+      dateOrder: '日期格式',
+      accountCurrency: '账户币种',
+      incomeValues: '收入标识',
+      expenseValues: '支出标识',
+      rowSummary: '已识别 {valid} / {total} 行',
+      preview: '预览',
+      duplicate: '可能重复',
+      selected: '已选 {n} 条',
+      import: '导入',
+    },
+    exporter: {
+      open: '导出',
+      title: '导出交易',
+      subtitle: '下载账本，交给会计或导入表格工具。',
+      format: '格式',
+      formatHints: {
+        CSV: '包含全部字段，每笔交易一行，可用 Excel 打开。',
+        JSON: '包含全部字段及相关账户，带格式版本号。',
+        OFX: '按账户生成对账单，适用于记账软件。',
+        QIF: '适用于 Quicken 和 GnuCash，标签导出为类别。'
+      },
+      from: '开始日期',
+      to: '结束日期',
+      allAccounts: '全部账户',
+      download: '下载 {n} 笔交易',
+    },
+    backup: {
+      title: '备份与恢复',
+      subtitle: '账户、交易、周期规则、汇率和设置，全部保存在一个文件中。',
+      download: '下载备份',
+      restore: '从文件恢复',
+      schema: '版本',
+      invalid: '此文件无法恢复：',
+      added: '新增',
+      changed: '修改',
+      removed: '删除',
+      unchanged: '不变',
+      collections: {
+        accounts: '账户',
+        transactions: '交易',
+        recurringRules: '周期规则',
+        exchangeRates: '汇率',
+        importPresets: '导入模板',
+        budgets: '预算',
+        netWorthSnapshots: '净资产历史',
+        filterPresets: '已存筛选',
+        categories: '分类',
+        holdingSnapshots: '持仓历史'
+      },
+      settings: {
+        baseCurrency: '本位币',
+        language: '语言'
+      },
+      replaceHint: '恢复将替换当前全部数据。如不确定，请先下载备份。',
+      replace: '替换当前数据',
+      confirmRestore: '确定用此备份替换当前全部数据吗？',
+      encrypt: '使用密码加密',
+      passphrase: '备份密码',
+      confirmPassphrase: '确认备份密码',
+      passphraseMismatch: '两次输入的密码不一致',
+      passphraseHint: '忘记密码将无法恢复此备份。',
+      encryptedFile: '此备份已加密，请输入备份密码。',
+      unlock: '解密',
+      wrongPassphrase: '密码错误',
+      working: '处理中...',
+    },
+    budgets: {
+      title: '预算',
+      subtitle: '按支出分类设置每月额度，统一按本位币计算。',
+      manage: '管理',
+      monthlyLimit: '每月额度',
+      startMonth: '起始月份',
+      rollover: '未用完的额度结转到下月',
+      rolloverBadge: '结转',
+      add: '添加预算',
+      cancel: '取消',
+      duplicate: '该分类已设置预算',
+      empty: '暂无预算。',
+      confirmDelete: '确定删除该预算吗？',
+      spent: '已用',
+      of: '/',
+      left: '剩余',
+      over: '超支',
+      carried: '含结转 {amount}',
+      noBudgets: '设置每月额度，查看各分类的支出进度。',
+      warningTitle: '超出预算',
+      warning: '本月{category}支出将达到 {projected} / {available} {currency}（超支 {over}）。',
+    },
+    reports: {
+      subtitle: '金额均以 {currency} 计',
+      from: '开始',
+      to: '结束',
+      allCurrencies: '全部币种',
+      includePending: '包含待入账',
+      spreadAmortized: '分摊长期消费',
+      incomeVsExpense: '收入与支出',
+      byCategory: '支出分类',
+      byTag: '按标签',
+      netWorth: '净资产走势',
+      accountBalances: '账户余额',
+      pie: '饼图',
+      treemap: '矩形图',
+      noData: '该期间暂无数据。',
+    },
+    netWorthHistory: {
+      title: '净资产历史',
+      monthOverMonth: '较上月',
+      yearOverYear: '较去年',
+      ranges: { '3M': '3月', '1Y': '1年', 'ALL': '全部' },
+      empty: '历史将根据交易记录和每日访问逐步生成。',
+    },
+    filters: {
+      searchNotes: '搜索备注...',
+      clear: '清除',
+      from: '开始',
+      to: '结束',
+      minAmount: '最小金额',
+      maxAmount: '最大金额',
+      type: '类型',
+      status: '状态',
+      tags: '标签',
+      presetName: '为此筛选命名...',
+      savePreset: '保存筛选',
+      confirmDeletePreset: '删除此已存筛选？',
+      count: '{n} 笔交易',
+      net: '净额',
+      noMatches: '没有符合筛选条件的交易。',
+    },
+    tags: {
+      title: '标签',
+      subtitle: '全部交易中的使用次数与合计（{currency}）',
+      manage: '标签',
+      tag: '标签',
+      uses: '次数',
+      spent: '支出',
+      received: '收入',
+      lastUsed: '最近使用',
+      rename: '重命名',
+      merge: '合并',
+      mergeInto: '将 {n} 个标签合并为',
+      confirmMerge: '在所有交易中将「{tags}」合并为「{target}」？',
+      confirmDelete: '从所有交易中移除「{tag}」？',
+      showTransactions: '查看交易',
+      empty: '暂无标签。记账时可添加标签。',
+    },
+    categoryNames: {
+      Food: '餐饮',
+      Transport: '交通',
+      Housing: '住房',
+      Shopping: '购物',
+      Entertainment: '娱乐',
+      Health: '医疗',
+      Insurance: '保险',
+      Family: '家庭',
+      Other: '其他',
+      Salary: '工资',
+      Bonus: '奖金',
+      'Part-time': '兼职',
+      Investment: '投资',
+      Gift: '礼金',
+      Fees: '手续费',
+    },
+    categories: {
+      title: '分类',
+      subtitle: '嵌套、配色、重命名、归档或合并分类',
+      manage: '分类',
+      add: '添加分类',
+      name: '名称',
+      nameHint: '保存在交易上；重命名会同步更新所有交易',
+      labelEn: '英文名称',
+      labelZh: '中文名称',
+      parent: '上级分类',
+      noParent: '无（顶级）',
+      color: '颜色',
+      icon: '图标',
+      archive: '归档',
+      unarchive: '恢复',
+      archived: '已归档',
+      showArchived: '显示已归档',
+      merge: '合并到...',
+      confirmMerge: '将「{source}」中的全部记录移到「{target}」并删除「{source}」？',
+      duplicate: '已存在同名分类。',
+      rollup: '汇总子分类',
+      cancel: '取消',
+    },
+    splits: {
+      split: '拆分',
+      removeSplit: '取消拆分',
+      addLine: '添加一行',
+      lineNote: '备注',
+      lineTags: '标签',
+      remaining: '还有 {amount} 未分配',
+      over: '超出总额 {amount}',
+      balanced: '各行合计等于总额',
+      fillRemaining: '计入最后一行',
+      summary: '拆分 · {n}',
+    },
+    credit: {
+      statements: '账单',
+      setup: '设置账单',
+      subtitle: '账单周期与还款（{currency}）',
+      limit: '信用额度',
+      closingDay: '账单日',
+      dueDay: '还款日',
+      minimumRate: '最低还款 %',
+      termsHint: '每月账单日出账，账单日之后的第一个还款日到期。转入此账户的转账记为还款。',
+      owed: '当前欠款',
+      available: '可用额度',
+      unbilled: '未出账',
+      ofLimit: '共 {limit}',
+      statementBalance: '账单金额',
+      minimumPayment: '最低还款',
+      paid: '已还',
+      closingDate: '出账日',
+      dueDate: '到期日',
+      charges: '消费',
+      pay: '还款',
+      payNote: '{account} {date} 账单还款',
+      carriedIn: '另有期初欠款 {amount}',
+      noStatements: '暂无账单。',
+      reminder: '{account}：{amount} 将于 {date} 到期',
+      overdueReminder: '{account}：{amount} 已于 {date} 逾期',
+      status: {
+        PAID: '已还清',
+        DUE: '待还款',
+        PARTIAL: '已还最低',
+        OVERDUE: '已逾期',
+      },
+    },
+    loan: {
+      title: '还款计划',
+      subtitle: '每月还款的本金与利息，单位 {currency}',
+      setup: '设置贷款',
+      schedule: '还款计划',
+      principal: '贷款本金',
+      annualRate: '年利率 %',
+      termYears: '期限（年）',
+      startDate: '放款日期',
+      methods: { EQUAL_INSTALLMENT: '等额本息', EQUAL_PRINCIPAL: '等额本金' },
+      methodHints: {
+        EQUAL_INSTALLMENT: '每月还款额相同，前期还款以利息为主。',
+        EQUAL_PRINCIPAL: '每月归还相同本金，月供逐月递减，总利息更少。',
+      },
+      remaining: '剩余本金',
+      paidPeriods: '已还 {paid} / {total} 期',
+      monthlyPayment: '月供',
+      totalInterest: '总利息',
+      totalPaid: '累计还款 {amount}',
+      payoffDate: '结清日期',
+      nextPayment: '下期还款',
+      principalPart: '本金',
+      interest: '利息',
+      payment: '月供',
+      balance: '剩余本金',
+      date: '日期',
+      prepayment: '提前还款测算',
+      prepayAmount: '金额',
+      prepayAfter: '还款期次之后',
+      nextPeriod: '下一期',
+      modes: { SHORTEN_TERM: '缩短年限', REDUCE_PAYMENT: '减少月供' },
+      prepaymentHint: '输入金额，查看一次性提前还款可节省的利息和期数。',
+      interestSaved: '节省利息',
+      monthsSaved: '缩短期数',
+      newPayment: '新月供',
+    },
+    investments: {
+      costBasis: '持仓成本',
+      averageCost: '成本价',
+      unrealized: '浮动盈亏',
+      realized: '已实现盈亏',
+      totalReturn: '累计收益',
+      costMethod: '成本计算方式',
+      methods: { FIFO: '先进先出', AVERAGE: '移动平均' },
+      sides: { BUY: '买入', SELL: '卖出' },
+      quantity: '数量',
+      price: '价格',
+      fees: '费用',
+      noLots: '暂无交易记录。',
+      oversell: '卖出数量超过了该日期的持仓数量。',
+      oversold: '有 {quantity} 份卖出超过了当时的持仓，未计入盈亏。',
+      untracked: '{count} 个持仓没有交易记录，未计入统计。',
+    },
+    holdingHistory: {
+      title: '市值历史',
+      subtitle: '每个打卡日一条快照，单位 {currency}',
+      show: '显示',
+      wholeAccount: '整个账户',
+      change: '自 {date} 以来',
+      notEnough: '在其他日期再打卡一次即可看到走势。',
+      empty: '暂无打卡记录。通过理财助手的每次打卡都会保存在这里。',
+      delete: '删除快照',
+      confirmDelete: '删除 {date} 的快照？',
+      cancel: '取消',
+    },
+    recurring: {
+      newRule: '新建固定收支',
+      editRule: '编辑固定收支',
+      name: '名称',
+      namePlaceholder: '例如：房租、工资',
+      frequency: '周期',
+      intervalDays: '间隔（天）',
+      startDate: '开始日期',
+      endDate: '结束日期',
+      noEndDate: '留空则一直重复',
+      pendingHint: '自动生成的记录先标记为待定，确认后再入账',
+      upcoming: '即将发生',
+      noUpcoming: '没有后续记录',
+      pause: '暂停',
+      resume: '恢复',
+      paused: '已暂停',
+      confirmDelete: '确认删除该规则？已生成的记录会保留。',
+      defaultRuleHint: '这是为您预设的示例规则',
+      removeDefault: '不需要，删除',
     },
     type: {
         [TransactionType.EXPENSE]: '支出',
@@ -213,6 +1013,14 @@ export const TRANSLATIONS = {
     status: {
       [TransactionStatus.COMPLETED]: '已完成',
       [TransactionStatus.PENDING]: '待定'
+    },
+    frequency: {
+      WEEKLY: '每周',
+      BIWEEKLY: '每两周',
+      MONTHLY: '每月',
+      QUARTERLY: '每季度',
+      YEARLY: '每年',
+      CUSTOM: '自定义'
     }
   }
 };
\ No newline at end of file
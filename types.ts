@@ -44,12 +44,62 @@ export const INCOME_CATEGORIES = [
 
 export type Category = typeof EXPENSE_CATEGORIES[number] | typeof INCOME_CATEGORIES[number] | string;
 
+export type CategoryType = TransactionType.EXPENSE | TransactionType.INCOME;
+
+// A user-managed category; the defaults above are seeded as ordinary entries
+export interface CategoryDefinition {
+  id: string;
+  name: string; // Stored on transactions, rules and budgets; unique per type
+  type: CategoryType;
+  parentId?: string; // One level of nesting, e.g. Food > Dining out
+  color: string;
+  icon?: string; // Emoji
+  labels?: { en?: string; zh?: string }; // Display names; built-ins fall back to translations
+  archived?: boolean; // Hidden from pickers, still shown in history and reports
+}
+
+// How sells are matched against buys when working out realized P&L
+export type CostBasisMethod = 'FIFO' | 'AVERAGE';
+
+// One buy or sell of a holding, in the account's currency
+export interface InvestmentLot {
+  id: string;
+  side: 'BUY' | 'SELL';
+  date: string; // YYYY-MM-DD
+  quantity: number;
+  price: number; // Per share/unit
+  fees: number;
+}
+
 export interface InvestmentHolding {
   code?: string;
   name: string; // e.g., "Alipay Gold Fund" or "Tesla"
   amount: number; // Total value
   dailyChange?: number; // P&L amount today
   quantity?: number; // Number of shares/units
+  lots?: InvestmentLot[]; // Trade history; cost basis and P&L are derived from it
+  costMethod?: CostBasisMethod; // FIFO when unset
+}
+
+// Statement cycle of a CREDIT account (credit card, Huabei)
+export interface CreditTerms {
+  limit: number; // In the account's currency
+  closingDay: number; // Day of month the statement closes; clamped to short months
+  dueDay: number; // Payment due on the first such day after closing
+  minimumPaymentRate?: number; // Share of the statement balance due at minimum; 10% when unset
+  since?: string; // YYYY-MM-DD the terms were first set; statements start from here or the first posting
+}
+
+// 等额本息: the same payment every month; 等额本金: the same principal, so payments shrink
+export type RepaymentMethod = 'EQUAL_INSTALLMENT' | 'EQUAL_PRINCIPAL';
+
+// Repayment terms of a LOAN account
+export interface LoanTerms {
+  principal: number; // Amount borrowed, in the account's currency
+  annualRate: number; // Percent, e.g. 3.95
+  termMonths: number;
+  method: RepaymentMethod;
+  startDate: string; // YYYY-MM-DD the loan was drawn; payments fall on the same day of each following month
 }
 
 export interface Account {
@@ -61,6 +111,16 @@ export interface Account {
   color: string;
   lastCheckIn?: string; 
   holdings?: InvestmentHolding[]; // Specific for INVESTMENT accounts
+  credit?: CreditTerms; // Specific for CREDIT accounts
+  loan?: LoanTerms; // Specific for LOAN accounts
+}
+
+// One line of a split transaction
+export interface TransactionSplit {
+  category: string;
+  amount: number; // In the transaction's currency; the lines add up to the transaction amount
+  tags: string[]; // On top of the transaction's own tags
+  note: string;
 }
 
 export interface Transaction {
@@ -74,26 +134,89 @@ export interface Transaction {
   tags: string[]; // Custom tags
   accountId: string;
   toAccountId?: string; // For transfers
+  receivedAmount?: number; // Transfers: amount the bank credited, in the destination account's currency
+  postedAmount?: number; // Transfers: credit at the table rate when the bank's amount is unknown; not a realized result
+  fxRate?: number; // Transfers: realized rate, 1 unit of `currency` = fxRate units of the destination currency
+  fee?: number; // Transfers: bank fee in `currency`, charged to the source account
   note: string;
+  splits?: TransactionSplit[]; // Expenses and income only; `category` repeats the first line's
   status: TransactionStatus;
   // Feature: Long-term consumption
   isAmortized: boolean; 
   amortizationMonths: number;
   // Feature: Recurring
   isRecurring?: boolean;
+  recurringRuleId?: string;
 }
 
+export type RecurringFrequency = 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY' | 'CUSTOM';
+
 export interface RecurringRule {
   id: string;
   name: string;
   amount: number;
   currency: Currency;
   category: string;
-  frequency: 'MONTHLY' | 'YEARLY';
+  type?: TransactionType; // EXPENSE (default) or INCOME, e.g. salary
+  frequency: RecurringFrequency;
+  intervalDays?: number; // Only for CUSTOM frequency
+  startDate?: string; // Anchors the day of month for month-based frequencies
   nextDueDate: string;
+  endDate?: string; // No occurrences after this date
+  createAsPending?: boolean; // Generated entries wait for review as PENDING
+  isPaused?: boolean; // Paused rules generate nothing
+  lastRunDate?: string;
   accountId: string;
 }
 
+export interface Budget {
+  id: string;
+  category: string; // Expense category the limit applies to
+  amount: number; // Monthly limit, in `currency`
+  currency: Currency;
+  rollover: boolean; // Unused amounts carry into the next month
+  startMonth: string; // YYYY-MM; rollover is counted from here
+}
+
+export interface NetWorthBalance {
+  type: AccountType;
+  currency: Currency;
+  amount: number; // Sum of the balances of accounts of this type and currency, in `currency`
+}
+
+export interface NetWorthSnapshot {
+  id: string; // YYYY-MM-DD; one snapshot per day
+  date: string;
+  balances: NetWorthBalance[];
+  source: 'captured' | 'rebuilt'; // Only captured ones are stored; rebuilt ones are derived from transactions in memory
+}
+
+// What one holding was worth at a check-in
+export interface HoldingValue {
+  code?: string;
+  name: string;
+  amount: number; // In the account's currency
+  quantity?: number;
+}
+
+// An INVESTMENT account as read at a check-in; the last one of a day wins
+export interface HoldingSnapshot {
+  id: string; // `${accountId}|${date}`
+  accountId: string;
+  date: string; // YYYY-MM-DD
+  balance: number; // Sum of the holdings
+  holdings: HoldingValue[];
+}
+
+export interface ExchangeRate {
+  date: string; // YYYY-MM-DD the rate takes effect
+  from: Currency;
+  to: Currency;
+  rate: number; // 1 unit of `from` = rate units of `to`
+  source: 'MANUAL' | 'CSV' | 'FEED';
+}
+
+// Fallback rates (in CNY) when the rate table has nothing for a pair
 export const EXCHANGE_RATES: Record<Currency, number> = {
   [Currency.CNY]: 1,
   [Currency.USD]: 7.2,
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SYNC_URL': JSON.stringify(env.SYNC_URL || ''),
+        'process.env.SYNC_TOKEN': JSON.stringify(env.SYNC_TOKEN || '')
       },
       resolve: {
         alias: {